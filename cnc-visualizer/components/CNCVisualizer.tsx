@@ -1,83 +1,461 @@
-import { useState } from 'react';
-import { Scene } from './three/Scene';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Scene, type SceneHandle } from './three/Scene';
+import { DiagnosticsPanel } from './DiagnosticsPanel';
+import { GCodeEditor } from './GCodeEditor';
+import { CollisionPanel } from './CollisionPanel';
+import { ComparePanel } from './ComparePanel';
+import { LimitPanel } from './LimitPanel';
+import { MachinePanel } from './MachinePanel';
+import { MotionPanel } from './MotionPanel';
+import { StatisticsPanel, type ReportFormat } from './StatisticsPanel';
+import { PartSetupPanel } from './PartSetupPanel';
+import { ProjectPanel } from './ProjectPanel';
+import { RecentFilesPanel } from './RecentFilesPanel';
+import { SectionPanel } from './SectionPanel';
+import { StockPanel } from './StockPanel';
+import { ToolLibraryPanel } from './ToolLibraryPanel';
+import { WorkOffsetPanel } from './WorkOffsetPanel';
+import { useGCodeParser } from '../hooks/useGCodeParser';
+import { useThreeSetup } from '../hooks/useThreeSetup';
+import { isModelFileName, MODEL_FILE_ACCEPT, type UnitSelection } from './three/modelLoaders';
+import { DEFAULT_SECTION, type SectionSettings } from './three/sectionView';
+import type { CompareView } from './three/comparisonOverlay';
+import { useToolLibrary } from '../hooks/useToolLibrary';
+import { useMachineProfiles } from '../hooks/useMachineProfiles';
+import { useRecentFiles, type RecentFile, type RecentFileKind } from '../hooks/useRecentFiles';
+import { fitStockToPath, type Collision, type SimulationSettings } from '../lib/sim';
+import { DEFAULT_TOOL, type CutterShape } from '../lib/tools';
+import { checkMachineLimits, planPathTiming, scheduleEvents, type MotionLimits, type TimedEvent } from '../lib/machine';
+import { DEFAULT_PART_SETUP, DEFAULT_WORK_OFFSETS, type PartSetup } from '../lib/setup';
+import { computeProgramStats, createJobReport, renderReportHtml } from '../lib/report';
+import { compareToolPaths, DEFAULT_COMPARE_TOLERANCE, type DivergenceRegion } from '../lib/compare';
+import {
+  createProjectArchive,
+  isProjectFileName,
+  PROJECT_EXTENSION,
+  readProjectArchive,
+  type ProjectView,
+} from '../lib/project';
+import {
+  DIALECT_IDS,
+  DIALECTS,
+  GCODE_EXTENSIONS,
+  isGCodeFileName,
+  type DialectId,
+  type Hole,
+  type Point3,
+  type ToolPath,
+} from '../lib/gcode';
+
+const DEFAULT_CUTTER: CutterShape = {
+  type: DEFAULT_TOOL.type,
+  diameter: DEFAULT_TOOL.diameter,
+  cornerRadius: DEFAULT_TOOL.cornerRadius,
+  taperAngle: DEFAULT_TOOL.taperAngle,
+};
+const DEFAULT_RESOLUTION = 0.5;
+
+const NO_NUMBERS: number[] = [];
+const NO_EVENTS: TimedEvent[] = [];
+const NO_HOLES: Hole[] = [];
+const NO_REGIONS: DivergenceRegion[] = [];
+
+// Report name for the bundled example program
+const DEFAULT_PROGRAM_NAME = 'test.gcode';
+
+// Loader a file goes to, from its name; null when no loader takes it
+const fileKind = (name: string): RecentFileKind | null => {
+  if (isProjectFileName(name)) return 'project';
+  if (isGCodeFileName(name)) return 'program';
+  if (isModelFileName(name)) return 'model';
+  return null;
+};
 
 export const CNCVisualizer: React.FC = () => {
-  const [stlFile, setStlFile] = useState<File | null>(null);
+  const [modelFile, setModelFile] = useState<File | null>(null);
+  const [modelUnits, setModelUnits] = useState<UnitSelection>('auto');
   const [gcodeFile, setGcodeFile] = useState<File | null>(null);
+  const [gcodeUploadError, setGcodeUploadError] = useState<string | null>(null);
+  // null detects the dialect from each program
+  const [dialect, setDialect] = useState<DialectId | null>(null);
+  const [simulation, setSimulation] = useState<SimulationSettings | null>(null);
+  const [collisions, setCollisions] = useState<Collision[] | null>([]);
+  const [workOffsets, setWorkOffsets] = useState<Point3[]>(DEFAULT_WORK_OFFSETS);
+  const [partSetup, setPartSetup] = useState<PartSetup>(DEFAULT_PART_SETUP);
+  const [section, setSection] = useState<SectionSettings>(DEFAULT_SECTION);
+  // Second program compared against the loaded one
+  const [compareFile, setCompareFile] = useState<File | null>(null);
+  const [compareUploadError, setCompareUploadError] = useState<string | null>(null);
+  const [compareView, setCompareView] = useState<CompareView>('overlay');
+  const [compareTolerance, setCompareTolerance] = useState(DEFAULT_COMPARE_TOLERANCE);
+  const [projectName, setProjectName] = useState<string | null>(null);
+  const [projectBusy, setProjectBusy] = useState(false);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  // View of an opened project, applied once its program has been parsed; the path
+  // shown when it was opened is still around for a render and must not count
+  const pendingViewRef = useRef<{ view: ProjectView; stalePath: ToolPath | null } | null>(null);
+  // A file is being dragged over the view, and the files a drop could not open
+  const [dragging, setDragging] = useState(false);
+  const [dropError, setDropError] = useState<string | null>(null);
+  const [showEditor, setShowEditor] = useState(true);
+  // Line being machined during playback, and the line last picked in the view or a panel
+  const [activeLine, setActiveLine] = useState<number | null>(null);
+  const [selectedLine, setSelectedLine] = useState<number | null>(null);
+  const sceneRef = useRef<SceneHandle>(null);
 
-  const handleStlUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file?.name.toLowerCase().endsWith('.stl')) {
-      setStlFile(file);
-    } else {
-      alert('Please upload a valid STL file');
+  const machines = useMachineProfiles();
+  const machine = machines.profile;
+
+  const {
+    toolPath,
+    program,
+    content: gcodeContent,
+    updateContent: updateGcodeContent,
+    readContent: readGcodeContent,
+    isLoading: pathLoading,
+    progress: pathProgress,
+    cancel: cancelPathParse,
+    error: pathError,
+  } = useGCodeParser({ gcodeFile, workOffsets, dialect, home: machine.home });
+  const compared = useGCodeParser({
+    gcodeFile: compareFile,
+    workOffsets,
+    dialect,
+    home: machine.home,
+    loadDefault: false,
+  });
+  const {
+    model,
+    declaredUnit,
+    isLoading: modelLoading,
+    error: modelError,
+  } = useThreeSetup({ modelFile, units: modelUnits });
+  const toolLibrary = useToolLibrary();
+  const recentFiles = useRecentFiles();
+
+  const timing = useMemo(
+    () => (toolPath ? planPathTiming(toolPath, machine.limits, program?.events) : null),
+    [toolPath, machine.limits, program]
+  );
+
+  const events = useMemo(
+    () => (toolPath && timing && program ? scheduleEvents(toolPath, timing, program.events, machine.limits) : NO_EVENTS),
+    [toolPath, timing, program, machine.limits]
+  );
+
+  const comparedTiming = useMemo(
+    () => (compared.toolPath ? planPathTiming(compared.toolPath, machine.limits, compared.program?.events) : null),
+    [compared.toolPath, compared.program, machine.limits]
+  );
+
+  const comparison = useMemo(
+    () => (toolPath && timing && compared.toolPath && comparedTiming
+      ? compareToolPaths(toolPath, timing, compared.toolPath, comparedTiming, { tolerance: compareTolerance })
+      : null),
+    [toolPath, timing, compared.toolPath, comparedTiming, compareTolerance]
+  );
+
+  const limitViolations = useMemo(
+    () => (toolPath ? checkMachineLimits(toolPath, machine) : []),
+    [toolPath, machine]
+  );
+
+  const stats = useMemo(
+    () => (toolPath && timing && program ? computeProgramStats(toolPath, timing, program.toolChanges) : null),
+    [toolPath, timing, program]
+  );
+
+  const depthLevels = useMemo(() => stats?.depthLevels.map((level) => level.z) ?? NO_NUMBERS, [stats]);
+
+  const usedToolNumbers = program?.tools ?? NO_NUMBERS;
+  const usedCoordinateSystems = program?.coordinateSystems ?? NO_NUMBERS;
+
+  // The part is placed on the work zero the program starts cutting in
+  const workZero = workOffsets[usedCoordinateSystems[0] ?? 0];
+
+  // Size the stock around the current path, keeping any cutter and resolution already chosen
+  const handleFitStock = useCallback(() => {
+    const cutter = simulation?.cutter ?? DEFAULT_CUTTER;
+    const stock = toolPath && fitStockToPath(toolPath, cutter.diameter / 2);
+    if (!stock) return;
+    setSimulation({
+      stock,
+      cutter,
+      resolution: simulation?.resolution ?? DEFAULT_RESOLUTION,
+    });
+  }, [simulation, toolPath]);
+
+  // Motion edits belong to the machine in use
+  const { saveProfile: saveMachine } = machines;
+  const handleMotionChange = useCallback(
+    (limits: MotionLimits) => saveMachine({ ...machine, limits }),
+    [machine, saveMachine]
+  );
+
+  // Restore the saved camera and playback position on the opened project's own path
+  useEffect(() => {
+    const pending = pendingViewRef.current;
+    if (!pending || !toolPath || toolPath === pending.stalePath || pathLoading) return;
+    pendingViewRef.current = null;
+    sceneRef.current?.restoreView(pending.view);
+  }, [toolPath, pathLoading]);
+
+  // The program text stays in the parser's worker until the editor is shown
+  useEffect(() => {
+    if (showEditor && program && gcodeContent === null) readGcodeContent();
+  }, [showEditor, program, gcodeContent, readGcodeContent]);
+
+  const handleSelectLine = useCallback((line: number) => {
+    setSelectedLine(line);
+    sceneRef.current?.seekToLine(line);
+  }, []);
+
+  // Download the setup sheet (printable HTML) or the same report as JSON
+  const handleExportReport = useCallback((format: ReportFormat) => {
+    if (!program || !stats) return;
+    const programName = gcodeFile?.name ?? DEFAULT_PROGRAM_NAME;
+    const report = createJobReport({ programName, program, stats, tools: toolLibrary.tools, workOffsets });
+    const blob = format === 'html'
+      ? new Blob([renderReportHtml(report)], { type: 'text/html' })
+      : new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${programName.replace(/\.[^.]+$/, '')}-setup.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [program, stats, gcodeFile, toolLibrary.tools, workOffsets]);
+
+  // Bundle the current setup; the program is saved as shown in the editor, edits included
+  const handleSaveProject = useCallback(async () => {
+    const view = sceneRef.current?.getView();
+    if (!view) return;
+    const programName = gcodeFile?.name ?? DEFAULT_PROGRAM_NAME;
+    setProjectBusy(true);
+    try {
+      const content = await readGcodeContent();
+      if (content === null) throw new Error('No program is loaded');
+      const archive = await createProjectArchive({
+        model: modelFile,
+        modelUnits,
+        program: new File([content], programName),
+        dialect,
+        stock: simulation,
+        workOffsets,
+        partSetup,
+        tools: toolLibrary.tools,
+        machine,
+        view,
+      });
+      const name = projectName ?? `${programName.replace(/\.[^.]+$/, '')}${PROJECT_EXTENSION}`;
+      const url = URL.createObjectURL(new Blob([archive], { type: 'application/zip' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = name;
+      link.click();
+      URL.revokeObjectURL(url);
+      setProjectName(name);
+      setProjectError(null);
+    } catch (err) {
+      setProjectError(`Failed to save project: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setProjectBusy(false);
+    }
+  }, [modelFile, modelUnits, gcodeFile, readGcodeContent, dialect, simulation, workOffsets, partSetup, toolLibrary.tools, machine, projectName]);
+
+  // Files opened by any route (chooser, drop or the recent list) are cached for reopening
+  const { rememberFile } = recentFiles;
+  const openModel = useCallback((file: File) => {
+    setModelFile(file);
+    rememberFile(file, 'model');
+  }, [rememberFile]);
+
+  const openProgram = useCallback((file: File) => {
+    setGcodeFile(file);
+    setGcodeUploadError(null);
+    setSelectedLine(null);
+    // A program chosen by hand does not take the view of a project that failed to parse
+    pendingViewRef.current = null;
+    rememberFile(file, 'program');
+  }, [rememberFile]);
+
+  const { replaceTools } = toolLibrary;
+  const { importProfile } = machines;
+  const handleOpenProject = useCallback(async (file: File) => {
+    setProjectBusy(true);
+    try {
+      const project = await readProjectArchive(file);
+      setModelFile(project.model);
+      setModelUnits(project.modelUnits);
+      setGcodeFile(project.program);
+      setGcodeUploadError(null);
+      setSelectedLine(null);
+      setDialect(project.dialect);
+      setSimulation(project.stock);
+      setWorkOffsets(project.workOffsets);
+      setPartSetup(project.partSetup);
+      replaceTools(project.tools);
+      importProfile(project.machine);
+      pendingViewRef.current = { view: project.view, stalePath: toolPath };
+      setProjectName(file.name);
+      setProjectError(null);
+      rememberFile(file, 'project');
+    } catch (err) {
+      setProjectError(`Failed to open project: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setProjectBusy(false);
+    }
+  }, [toolPath, replaceTools, importProfile, rememberFile]);
+
+  const openFile = (file: File, kind: RecentFileKind) => {
+    if (kind === 'project') handleOpenProject(file);
+    else if (kind === 'program') openProgram(file);
+    else openModel(file);
+  };
+
+  const handleOpenRecent = async (recent: RecentFile) => {
+    const file = await recentFiles.openFile(recent);
+    if (file) openFile(file, recent.kind);
+  };
+
+  // Each dropped file goes to the loader its name calls for
+  const handleViewDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const files = Array.from(event.dataTransfer.files);
+    const unknown = files.filter((file) => fileKind(file.name) === null);
+    for (const file of files) {
+      const kind = fileKind(file.name);
+      if (kind) openFile(file, kind);
     }
+    setDropError(unknown.length > 0
+      ? `${unknown.map((file) => file.name).join(', ')} ${unknown.length === 1 ? 'is' : 'are'} not a part model, G-code program or project`
+      : null);
+  };
+
+  // Children fire their own drag events; only leaving the view itself ends the drag
+  const handleViewDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setDragging(false);
+  };
+
+  // The loader recognizes the format from the contents and reports unreadable files itself
+  const handleModelUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) openModel(file);
   };
 
   const handleGcodeUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file?.name.toLowerCase().endsWith('.gcode')) {
-      setGcodeFile(file);
+    if (!file) return;
+    if (isGCodeFileName(file.name)) {
+      openProgram(file);
     } else {
-      alert('Please upload a valid G-code file');
+      setGcodeUploadError(`${file.name} is not a G-code file`);
     }
   };
 
-  const handleClearStl = () => setStlFile(null);
-  const handleClearGcode = () => setGcodeFile(null);
+  const handleCompareChoose = (file: File) => {
+    if (isGCodeFileName(file.name)) {
+      setCompareFile(file);
+      setCompareUploadError(null);
+    } else {
+      setCompareUploadError(`${file.name} is not a G-code file`);
+    }
+  };
+
+  const handleClearCompare = () => {
+    setCompareFile(null);
+    setCompareUploadError(null);
+  };
+
+  const handleClearModel = () => setModelFile(null);
+  const handleClearGcode = () => {
+    setGcodeFile(null);
+    setGcodeUploadError(null);
+    setSelectedLine(null);
+    pendingViewRef.current = null;
+  };
 
   return (
     <div className="fixed inset-0 flex flex-col overflow-hidden">
-      <header className="flex-none bg-gray-800 text-white py-4 px-6 shadow-lg z-10">
+      <header className="flex-none bg-gray-800 text-white py-4 px-6 shadow-lg z-10 flex items-center justify-between">
         <h1 className="text-2xl font-bold">CNC Path Visualizer</h1>
+        <button
+          type="button"
+          onClick={() => setShowEditor((visible) => !visible)}
+          className="px-3 py-1 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600"
+        >
+          {showEditor ? 'Hide Editor' : 'Show Editor'}
+        </button>
       </header>
 
       <main className="flex-1 flex min-h-0">
         <aside className="w-80 bg-white shadow-lg flex-none overflow-y-auto border-r border-gray-200">
           <div className="p-6 space-y-6">
+            <ProjectPanel
+              fileName={projectName}
+              isBusy={projectBusy}
+              error={projectError}
+              onOpen={handleOpenProject}
+              onSave={handleSaveProject}
+            />
+
             <section>
               <h2 className="text-lg font-semibold text-gray-800 mb-4">Upload Files</h2>
               <div className="space-y-6">
                 <div className="space-y-2">
                   <label 
-                    htmlFor="stl-upload" 
+                    htmlFor="model-upload" 
                     className="block text-sm font-medium text-gray-700"
                   >
-                    STL Model
+                    Part Model
                   </label>
                   <div className="flex flex-col gap-2">
                     <div className="flex items-center gap-2">
                       <label 
-                        htmlFor="stl-upload"
+                        htmlFor="model-upload"
                         className="py-2 px-4 bg-gray-100 text-gray-700 text-sm font-semibold rounded-md hover:bg-gray-200 cursor-pointer"
                       >
                         Choose File
                       </label>
                       <span className="text-sm text-gray-500">
-                        {stlFile ? stlFile.name : 'No File Chosen'}
+                        {modelFile ? modelFile.name : 'No File Chosen'}
                       </span>
                       <input
-                        id="stl-upload"
+                        id="model-upload"
                         type="file"
-                        accept=".stl"
-                        onChange={handleStlUpload}
+                        accept={MODEL_FILE_ACCEPT}
+                        onChange={handleModelUpload}
                         className="hidden"
                       />
                     </div>
-                    {stlFile && (
+                    {modelFile && (
                       <div className="flex items-center justify-between bg-gray-50 p-2 rounded-md">
-                        <span className="text-sm text-gray-600 truncate max-w-[180px]" title={stlFile.name}>
-                          {stlFile.name}
+                        <span className="text-sm text-gray-600 truncate max-w-[180px]" title={modelFile.name}>
+                          {modelFile.name}
                         </span>
                         <button
                           type="button"
-                          onClick={handleClearStl}
+                          onClick={handleClearModel}
                           className="text-red-500 hover:text-red-700 text-sm font-medium"
                         >
                           Clear
                         </button>
                       </div>
                     )}
+                    <label className="flex items-center gap-2 text-sm text-gray-500">
+                      Units
+                      <select
+                        value={modelUnits}
+                        onChange={(event) => setModelUnits(event.target.value as UnitSelection)}
+                        className="border border-gray-300 rounded px-2 py-1 text-sm text-gray-700"
+                      >
+                        <option value="auto">Auto{declaredUnit ? ` (${declaredUnit})` : ' (mm)'}</option>
+                        <option value="mm">Millimeters</option>
+                        <option value="inch">Inches</option>
+                      </select>
+                    </label>
+                    {modelError && <p className="text-sm text-red-600">{modelError}</p>}
                   </div>
                 </div>
 
@@ -102,7 +480,7 @@ export const CNCVisualizer: React.FC = () => {
                       <input
                         id="gcode-upload"
                         type="file"
-                        accept=".gcode"
+                        accept={GCODE_EXTENSIONS.join(',')}
                         onChange={handleGcodeUpload}
                         className="hidden"
                       />
@@ -121,18 +499,41 @@ export const CNCVisualizer: React.FC = () => {
                         </button>
                       </div>
                     )}
+                    <label className="flex items-center gap-2 text-sm text-gray-500">
+                      Dialect
+                      <select
+                        value={dialect ?? 'auto'}
+                        onChange={(event) => setDialect(event.target.value === 'auto' ? null : event.target.value as DialectId)}
+                        className="border border-gray-300 rounded px-2 py-1 text-sm text-gray-700"
+                      >
+                        <option value="auto">Auto{program ? ` (${DIALECTS[program.dialect].label})` : ''}</option>
+                        {DIALECT_IDS.map((id) => (
+                          <option key={id} value={id}>{DIALECTS[id].label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    {gcodeUploadError && <p className="text-sm text-red-600">{gcodeUploadError}</p>}
                   </div>
                 </div>
               </div>
             </section>
 
+            <RecentFilesPanel
+              files={recentFiles.files}
+              cacheSize={recentFiles.cacheSize}
+              error={recentFiles.error}
+              onOpen={handleOpenRecent}
+              onRemove={recentFiles.removeFile}
+              onClear={recentFiles.clearFiles}
+            />
+
             <section>
               <h2 className="text-lg font-semibold text-gray-800 mb-4">Visualization Status</h2>
               <div className="space-y-3">
                 <div className="bg-gray-50 p-3 rounded-lg">
-                  <p className="text-sm font-medium text-gray-700 mb-1">STL Model</p>
-                  <div className={`text-sm ${stlFile ? 'text-green-600' : 'text-gray-500'}`}>
-                    {stlFile ? 'Model loaded' : 'No model uploaded'}
+                  <p className="text-sm font-medium text-gray-700 mb-1">Part Model</p>
+                  <div className={`text-sm ${modelFile && model ? 'text-green-600' : 'text-gray-500'}`}>
+                    {modelFile ? (model ? 'Model loaded' : 'Model not loaded') : 'No model uploaded'}
                   </div>
                 </div>
                 <div className="bg-gray-50 p-3 rounded-lg">
@@ -144,19 +545,151 @@ export const CNCVisualizer: React.FC = () => {
               </div>
             </section>
 
+            <WorkOffsetPanel offsets={workOffsets} usedSystems={usedCoordinateSystems} onChange={setWorkOffsets} />
+
+            <PartSetupPanel setup={partSetup} hasStock={simulation !== null} onChange={setPartSetup} />
+
+            <MachinePanel
+              profiles={machines.profiles}
+              profile={machine}
+              error={machines.error}
+              onSelect={machines.selectProfile}
+              onChange={saveMachine}
+              onDuplicate={machines.duplicateProfile}
+              onRemove={machines.removeProfile}
+            />
+
+            <MotionPanel limits={machine.limits} timing={timing} onChange={handleMotionChange} />
+
+            {stats && (
+              <StatisticsPanel stats={stats} onSelectLine={handleSelectLine} onExport={handleExportReport} />
+            )}
+
+            <StockPanel settings={simulation} onChange={setSimulation} onEnable={handleFitStock} />
+
+            <SectionPanel
+              settings={section}
+              bounds={machine.travel}
+              pathDepths={stats?.extents?.z ?? null}
+              depthLevels={depthLevels}
+              onChange={setSection}
+            />
+
+            <ToolLibraryPanel
+              tools={toolLibrary.tools}
+              usedToolNumbers={usedToolNumbers}
+              error={toolLibrary.error}
+              onSave={toolLibrary.saveTool}
+              onRemove={toolLibrary.removeTool}
+              onImport={toolLibrary.importTools}
+              onExport={toolLibrary.exportTools}
+            />
+
+            <ComparePanel
+              fileName={compareFile?.name ?? null}
+              isLoading={compared.isLoading}
+              error={compareUploadError ?? compared.error}
+              comparison={comparison}
+              view={compareView}
+              tolerance={compareTolerance}
+              onChoose={handleCompareChoose}
+              onClear={handleClearCompare}
+              onViewChange={setCompareView}
+              onToleranceChange={setCompareTolerance}
+              onSelectLine={handleSelectLine}
+            />
+
+            {program && (
+              <DiagnosticsPanel diagnostics={program.diagnostics} onSelectLine={handleSelectLine} />
+            )}
+
+            {program && (
+              <LimitPanel violations={limitViolations} machineName={machine.name} onSelectLine={handleSelectLine} />
+            )}
+
+            {program && (
+              <CollisionPanel collisions={collisions} onSelectLine={handleSelectLine} />
+            )}
+
             <section>
               <h2 className="text-lg font-semibold text-gray-800 mb-4">Controls</h2>
               <div className="space-y-2 text-sm text-gray-600">
                 <p>🖱️ Left mouse: Rotate view</p>
                 <p>🖱️ Right mouse: Pan view</p>
                 <p>🖱️ Mouse wheel: Zoom</p>
+                <p>📂 Drop a part, G-code or project on the view to open it</p>
               </div>
             </section>
           </div>
         </aside>
 
-        <div className="flex-1 relative">
-          <Scene stlFile={stlFile} gcodeFile={gcodeFile} />
+        {showEditor && program && gcodeContent !== null && (
+          <div className="w-96 flex-none bg-white border-r border-gray-200">
+            <GCodeEditor
+              content={gcodeContent}
+              diagnostics={program.diagnostics}
+              activeLine={activeLine}
+              selectedLine={selectedLine}
+              onChange={updateGcodeContent}
+              onSelectLine={handleSelectLine}
+            />
+          </div>
+        )}
+
+        <div
+          className="flex-1 relative"
+          onDragOver={(event) => {
+            // Accepting the drag is what lets the drop through
+            if (!event.dataTransfer.types.includes('Files')) return;
+            event.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={handleViewDragLeave}
+          onDrop={handleViewDrop}
+        >
+          <Scene
+            ref={sceneRef}
+            modelFile={modelFile}
+            model={model}
+            modelLoading={modelLoading}
+            modelError={modelError}
+            gcodeFile={gcodeFile}
+            toolPath={toolPath}
+            holes={program?.holes ?? NO_HOLES}
+            timing={timing}
+            events={events}
+            pathLoading={pathLoading}
+            pathProgress={pathProgress}
+            onCancelPath={cancelPathParse}
+            pathError={pathError}
+            simulation={simulation}
+            tools={toolLibrary.tools}
+            partSetup={partSetup}
+            workZero={workZero}
+            machine={machine}
+            section={section}
+            comparePath={compared.toolPath}
+            compareRegions={comparison?.regions ?? NO_REGIONS}
+            compareView={compareView}
+            onCollisionsChange={setCollisions}
+            onLineChange={setActiveLine}
+            onPathPick={setSelectedLine}
+          />
+          {dragging && (
+            <div className="absolute inset-0 flex items-center justify-center bg-blue-50/60 border-4 border-dashed border-blue-400 pointer-events-none">
+              <p className="bg-white px-4 py-2 rounded-lg shadow-lg text-gray-700 font-medium">
+                Drop a part model, G-code program or project
+              </p>
+            </div>
+          )}
+          {dropError && (
+            <div className="absolute bottom-28 left-1/2 -translate-x-1/2 bg-red-100 text-red-700 px-4 py-2 rounded shadow flex items-center gap-3 text-sm">
+              {dropError}
+              <button type="button" onClick={() => setDropError(null)} className="font-medium hover:text-red-900">
+                Dismiss
+              </button>
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,48 @@
+import type { Collision, CollisionKind } from '../lib/sim';
+
+interface CollisionPanelProps {
+  // Null while the path is being checked
+  collisions: Collision[] | null;
+  onSelectLine: (line: number) => void;
+}
+
+const KIND_LABELS: Record<CollisionKind, string> = {
+  gouge: 'Gouge',
+  rapid: 'Rapid into material',
+  holder: 'Holder collision',
+};
+
+export const CollisionPanel: React.FC<CollisionPanelProps> = ({ collisions, onSelectLine }) => (
+  <section>
+    <h2 className="text-lg font-semibold text-gray-800 mb-4">Collisions</h2>
+    {collisions === null ? (
+      <p className="text-sm text-gray-500">Checking for gouges and collisions…</p>
+    ) : collisions.length === 0 ? (
+      <p className="text-sm text-green-600">No gouges or collisions found</p>
+    ) : (
+      <div className="space-y-2">
+        <p className="text-sm text-gray-600">
+          {collisions.length} move{collisions.length === 1 ? '' : 's'} flagged
+        </p>
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {collisions.map((collision) => (
+            <li key={`${collision.kind}-${collision.line}`}>
+              <button
+                type="button"
+                onClick={() => onSelectLine(collision.line)}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+              >
+                <span className="text-red-600 font-medium">{KIND_LABELS[collision.kind]}</span>
+                <span className="text-gray-500"> · Line {collision.line}</span>
+                <p className="text-gray-700">
+                  {collision.depth.toFixed(2)} mm deep at X{collision.position.x.toFixed(2)} Y
+                  {collision.position.y.toFixed(2)} Z{collision.position.z.toFixed(2)}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+  </section>
+);
@@ -0,0 +1,205 @@
+import { GCODE_EXTENSIONS } from '../lib/gcode';
+import { formatDuration } from '../lib/machine';
+import type { DivergenceRegion, ProgramComparison } from '../lib/compare';
+import type { CompareView } from './three/comparisonOverlay';
+
+interface ComparePanelProps {
+  fileName: string | null;
+  isLoading: boolean;
+  error: string | null;
+  comparison: ProgramComparison | null;
+  view: CompareView;
+  tolerance: number;
+  onChoose: (file: File) => void;
+  onClear: () => void;
+  onViewChange: (view: CompareView) => void;
+  onToleranceChange: (tolerance: number) => void;
+  // Seek to a line of the loaded program
+  onSelectLine: (line: number) => void;
+}
+
+// Line numbers listed before the rest are summarized
+const MAX_LISTED_LINES = 12;
+
+const VIEWS: { value: CompareView; label: string }[] = [
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'split', label: 'Side by side' },
+];
+
+const formatLines = (lines: number[]): string =>
+  lines.length <= MAX_LISTED_LINES
+    ? lines.join(', ')
+    : `${lines.slice(0, MAX_LISTED_LINES).join(', ')} and ${lines.length - MAX_LISTED_LINES} more`;
+
+const formatLineRange = ({ firstLine, lastLine }: DivergenceRegion): string =>
+  firstLine === lastLine ? `line ${firstLine}` : `lines ${firstLine}–${lastLine}`;
+
+const formatTimeDifference = (seconds: number): string =>
+  `${seconds < 0 ? '−' : '+'}${formatDuration(Math.abs(seconds))}`;
+
+export const ComparePanel: React.FC<ComparePanelProps> = ({
+  fileName,
+  isLoading,
+  error,
+  comparison,
+  view,
+  tolerance,
+  onChoose,
+  onClear,
+  onViewChange,
+  onToleranceChange,
+  onSelectLine,
+}) => (
+  <section>
+    <h2 className="text-lg font-semibold text-gray-800 mb-4">Compare</h2>
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <label
+          htmlFor="compare-upload"
+          className="py-2 px-4 bg-gray-100 text-gray-700 font-semibold rounded-md hover:bg-gray-200 cursor-pointer"
+        >
+          Choose File
+        </label>
+        <span className="text-gray-500 truncate" title={fileName ?? undefined}>
+          {fileName ?? 'No File Chosen'}
+        </span>
+        <input
+          id="compare-upload"
+          type="file"
+          accept={GCODE_EXTENSIONS.join(',')}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) onChoose(file);
+            event.target.value = '';
+          }}
+          className="hidden"
+        />
+        {fileName && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="ml-auto text-red-500 hover:text-red-700 font-medium"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+      {isLoading && <p className="text-gray-500">Parsing…</p>}
+
+      {fileName && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-gray-500">
+            Show
+            <select
+              value={view}
+              onChange={(event) => onViewChange(event.target.value as CompareView)}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700"
+            >
+              {VIEWS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-gray-500" title="Distance a cut may move before it is highlighted">
+            Tolerance (mm)
+            <input
+              type="number"
+              step="0.01"
+              min="0.001"
+              value={tolerance}
+              onChange={(event) => {
+                const value = Number.parseFloat(event.target.value);
+                if (value > 0) onToleranceChange(value);
+              }}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700"
+            />
+          </label>
+        </div>
+      )}
+
+      {comparison && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="bg-gray-50 p-2 rounded-lg">
+              <p className="text-gray-500">Added</p>
+              <p className="text-gray-900 tabular-nums">{comparison.addedLines.length} lines</p>
+            </div>
+            <div className="bg-gray-50 p-2 rounded-lg">
+              <p className="text-gray-500">Removed</p>
+              <p className="text-gray-900 tabular-nums">{comparison.removedLines.length} lines</p>
+            </div>
+            <div className="bg-gray-50 p-2 rounded-lg">
+              <p className="text-gray-500">Time</p>
+              <p className="text-gray-900 tabular-nums">{formatTimeDifference(comparison.timeDifference)}</p>
+            </div>
+          </div>
+
+          {comparison.addedLines.length > 0 && (
+            <p className="text-gray-600">
+              <span className="font-medium text-gray-700">Added moves</span> on compared lines{' '}
+              {formatLines(comparison.addedLines)}
+            </p>
+          )}
+          {comparison.removedLines.length > 0 && (
+            <p className="text-gray-600">
+              <span className="font-medium text-gray-700">Removed moves</span> from lines{' '}
+              {formatLines(comparison.removedLines)}
+            </p>
+          )}
+
+          <div>
+            <p className="font-medium text-gray-700 mb-1">Feed changes ({comparison.feedChanges.length})</p>
+            {comparison.feedChanges.length > 0 && (
+              <ul className="max-h-32 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+                {comparison.feedChanges.map((change) => (
+                  <li key={`${change.baseLine}-${change.revisedLine}`}>
+                    <button
+                      type="button"
+                      onClick={() => onSelectLine(change.baseLine)}
+                      className="w-full text-left px-3 py-1 hover:bg-gray-50"
+                    >
+                      <span className="text-gray-700">F{change.baseFeed} → F{change.revisedFeed}</span>
+                      <span className="text-gray-500"> · Line {change.baseLine} → {change.revisedLine}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <p className="font-medium text-gray-700 mb-1">Diverging cuts ({comparison.regions.length})</p>
+            {comparison.regions.length === 0 ? (
+              <p className="text-green-600">The cuts match within {tolerance} mm</p>
+            ) : (
+              <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+                {comparison.regions.map((region, index) => (
+                  <li key={index}>
+                    <button
+                      type="button"
+                      // Only the loaded program is open in the editor
+                      onClick={() => onSelectLine(region.firstLine)}
+                      disabled={region.side === 'revised'}
+                      className="w-full text-left px-3 py-1 hover:bg-gray-50 disabled:hover:bg-white"
+                    >
+                      <span className={region.side === 'base' ? 'text-orange-600' : 'text-red-600'}>
+                        {region.side === 'base' ? 'Loaded' : 'Compared'} {formatLineRange(region)}
+                      </span>
+                      <span className="text-gray-500">
+                        {' · '}
+                        {Number.isFinite(region.deviation)
+                          ? `${region.deviation.toFixed(2)} mm off`
+                          : `over ${comparison.searchRadius} mm off`}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  </section>
+);
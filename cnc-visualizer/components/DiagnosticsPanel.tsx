@@ -0,0 +1,46 @@
+import type { Diagnostic } from '../lib/gcode';
+
+interface DiagnosticsPanelProps {
+  diagnostics: Diagnostic[];
+  onSelectLine: (line: number) => void;
+}
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, onSelectLine }) => {
+  const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Diagnostics</h2>
+      {diagnostics.length === 0 ? (
+        <p className="text-sm text-green-600">No problems found</p>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            {errorCount} error{errorCount === 1 ? '' : 's'}, {warningCount} warning{warningCount === 1 ? '' : 's'}
+          </p>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+            {diagnostics.map((diagnostic, index) => (
+              <li key={`${diagnostic.line}-${index}`}>
+                <button
+                  type="button"
+                  onClick={() => onSelectLine(diagnostic.line)}
+                  disabled={diagnostic.line === 0}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 disabled:cursor-default disabled:hover:bg-transparent"
+                >
+                  <span className={diagnostic.severity === 'error' ? 'text-red-600 font-medium' : 'text-amber-600 font-medium'}>
+                    {diagnostic.severity === 'error' ? 'Error' : 'Warning'}
+                  </span>
+                  {diagnostic.line > 0 && (
+                    <span className="text-gray-500"> · Line {diagnostic.line}</span>
+                  )}
+                  <p className="text-gray-700">{diagnostic.message}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
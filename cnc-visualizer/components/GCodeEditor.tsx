@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Diagnostic } from '../lib/gcode';
+
+interface GCodeEditorProps {
+  content: string;
+  diagnostics: Diagnostic[];
+  // Line being machined during playback
+  activeLine: number | null;
+  // Line picked in the view or the diagnostics list
+  selectedLine: number | null;
+  onChange: (content: string) => void;
+  onSelectLine: (line: number) => void;
+}
+
+// Row height (px) shared by the textarea and the highlighted rows so they stay aligned
+const LINE_HEIGHT = 20;
+
+// Extra rows rendered past the viewport so fast scrolling does not show gaps
+const OVERSCAN = 10;
+
+const WORD_CLASSES: Record<string, string> = {
+  G: 'text-blue-700',
+  M: 'text-purple-700',
+  T: 'text-green-700',
+  F: 'text-orange-600',
+  S: 'text-orange-600',
+  E: 'text-orange-600',
+  N: 'text-gray-400',
+  O: 'text-gray-400',
+  X: 'text-gray-900',
+  Y: 'text-gray-900',
+  Z: 'text-gray-900',
+  A: 'text-gray-900',
+  B: 'text-gray-900',
+  C: 'text-gray-900',
+  I: 'text-teal-700',
+  J: 'text-teal-700',
+  K: 'text-teal-700',
+  R: 'text-teal-700',
+  P: 'text-teal-700',
+  Q: 'text-teal-700',
+  L: 'text-teal-700',
+  H: 'text-teal-700',
+  D: 'text-teal-700',
+};
+
+interface Token {
+  text: string;
+  className: string;
+}
+
+// Comments and "%" / "$" lines, letter/number words, whitespace, parameters and
+// expression operators, then anything else as a single character
+const TOKEN_PATTERN = /(\([^)]*\)?|;.*$|^\s*[%$].*$)|([A-Za-z])([-+]?[\d.]*)|(\s+)|(#<[^>]*>?|#\d*|[[\]=*/+-])|(.)/g;
+
+const highlightLine = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    if (match[1] !== undefined) {
+      tokens.push({ text: match[0], className: 'text-gray-400' });
+    } else if (match[2] !== undefined) {
+      tokens.push({ text: match[0], className: WORD_CLASSES[match[2].toUpperCase()] ?? 'text-red-600' });
+    } else if (match[4] !== undefined) {
+      tokens.push({ text: match[0], className: '' });
+    } else if (match[5] !== undefined) {
+      tokens.push({ text: match[0], className: 'text-pink-700' });
+    } else {
+      tokens.push({ text: match[0], className: 'text-red-600' });
+    }
+  }
+  return tokens;
+};
+
+export const GCodeEditor: React.FC<GCodeEditorProps> = ({
+  content,
+  diagnostics,
+  activeLine,
+  selectedLine,
+  onChange,
+  onSelectLine,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  const lines = useMemo(() => content.split(/\r?\n/), [content]);
+
+  const errorLines = useMemo(
+    () => new Set(diagnostics.filter((diagnostic) => diagnostic.severity === 'error').map((diagnostic) => diagnostic.line)),
+    [diagnostics]
+  );
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const observer = new ResizeObserver(() => setViewportHeight(textarea.clientHeight));
+    observer.observe(textarea);
+    return () => observer.disconnect();
+  }, []);
+
+  // Scroll a line into view, centering it when it is off screen
+  const revealLine = useCallback((line: number | null) => {
+    const textarea = textareaRef.current;
+    if (!textarea || line === null) return;
+    const top = (line - 1) * LINE_HEIGHT;
+    if (top < textarea.scrollTop || top + LINE_HEIGHT > textarea.scrollTop + textarea.clientHeight) {
+      textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 2);
+    }
+  }, []);
+
+  useEffect(() => revealLine(activeLine), [activeLine, revealLine]);
+  useEffect(() => revealLine(selectedLine), [selectedLine, revealLine]);
+
+  const handleScroll = (event: React.UIEvent<HTMLTextAreaElement>) => {
+    setScroll({ top: event.currentTarget.scrollTop, left: event.currentTarget.scrollLeft });
+  };
+
+  // Clicking places the caret; seek to the line it landed on
+  const handleClick = (event: React.MouseEvent<HTMLTextAreaElement>) => {
+    const { value, selectionStart } = event.currentTarget;
+    let line = 1;
+    for (let index = value.indexOf('\n'); index !== -1 && index < selectionStart; index = value.indexOf('\n', index + 1)) {
+      line++;
+    }
+    onSelectLine(line);
+  };
+
+  const first = Math.max(0, Math.floor(scroll.top / LINE_HEIGHT) - OVERSCAN);
+  const last = Math.min(lines.length, Math.ceil((scroll.top + viewportHeight) / LINE_HEIGHT) + OVERSCAN);
+  const rows = [];
+  for (let index = first; index < last; index++) {
+    const line = index + 1;
+    const background = line === activeLine ? 'bg-amber-100' : line === selectedLine ? 'bg-blue-100' : '';
+    rows.push(
+      <div key={line} className={`flex ${background}`} style={{ height: LINE_HEIGHT }}>
+        <span
+          className={`w-12 flex-none pr-2 text-right bg-gray-50 ${errorLines.has(line) ? 'text-red-600 font-medium' : 'text-gray-400'}`}
+        >
+          {line}
+        </span>
+        <span className="pl-2 whitespace-pre" style={{ transform: `translateX(${-scroll.left}px)` }}>
+          {highlightLine(lines[index]).map((token, tokenIndex) => (
+            <span key={tokenIndex} className={token.className}>{token.text}</span>
+          ))}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <section className="h-full flex flex-col">
+      <div className="flex-none flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-800">Program</h2>
+        <span className="text-sm text-gray-500">
+          {lines.length} line{lines.length === 1 ? '' : 's'}
+        </span>
+      </div>
+      <div className="relative flex-1 min-h-0 font-mono text-xs" style={{ lineHeight: `${LINE_HEIGHT}px` }}>
+        {/* Highlighted rows rendered under a transparent textarea that handles editing */}
+        <div aria-hidden="true" className="absolute inset-0 overflow-hidden pointer-events-none">
+          <div style={{ transform: `translateY(${first * LINE_HEIGHT - scroll.top}px)` }}>
+            {rows}
+          </div>
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={content}
+          onChange={(event) => onChange(event.target.value)}
+          onScroll={handleScroll}
+          onClick={handleClick}
+          spellCheck={false}
+          wrap="off"
+          aria-label="G-code program"
+          className="absolute inset-0 w-full h-full resize-none bg-transparent text-transparent caret-gray-900 pl-14 pr-2 py-0 m-0 border-0 outline-none whitespace-pre overflow-auto"
+          style={{ lineHeight: `${LINE_HEIGHT}px` }}
+        />
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,43 @@
+import type { LimitViolation, LimitViolationKind } from '../lib/machine';
+
+interface LimitPanelProps {
+  violations: LimitViolation[];
+  machineName: string;
+  onSelectLine: (line: number) => void;
+}
+
+const KIND_LABELS: Record<LimitViolationKind, string> = {
+  travel: 'Over travel',
+  feed: 'Feed too high',
+  spindle: 'Spindle speed',
+};
+
+export const LimitPanel: React.FC<LimitPanelProps> = ({ violations, machineName, onSelectLine }) => (
+  <section>
+    <h2 className="text-lg font-semibold text-gray-800 mb-4">Machine Limits</h2>
+    {violations.length === 0 ? (
+      <p className="text-sm text-green-600">Program fits {machineName}</p>
+    ) : (
+      <div className="space-y-2">
+        <p className="text-sm text-gray-600">
+          {violations.length} limit{violations.length === 1 ? '' : 's'} exceeded on {machineName}
+        </p>
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {violations.map((violation) => (
+            <li key={`${violation.kind}-${violation.line}`}>
+              <button
+                type="button"
+                onClick={() => onSelectLine(violation.line)}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+              >
+                <span className="text-red-600 font-medium">{KIND_LABELS[violation.kind]}</span>
+                <span className="text-gray-500"> · Line {violation.line}</span>
+                <p className="text-gray-700">{violation.message}</p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+  </section>
+);
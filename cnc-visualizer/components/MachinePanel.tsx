@@ -0,0 +1,163 @@
+import type { Point3 } from '../lib/gcode';
+import type { MachineProfile } from '../lib/machine';
+
+interface MachinePanelProps {
+  profiles: MachineProfile[];
+  profile: MachineProfile;
+  error: string | null;
+  onSelect: (id: string) => void;
+  onChange: (profile: MachineProfile) => void;
+  onDuplicate: () => void;
+  onRemove: (id: string) => void;
+}
+
+const AXES: (keyof Point3)[] = ['x', 'y', 'z'];
+
+const inputClassName = 'w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700';
+
+type BoxField = 'travel' | 'table';
+
+const BOX_LABELS: Record<BoxField, string> = {
+  travel: 'Travel',
+  table: 'Table',
+};
+
+export const MachinePanel: React.FC<MachinePanelProps> = ({
+  profiles,
+  profile,
+  error,
+  onSelect,
+  onChange,
+  onDuplicate,
+  onRemove,
+}) => {
+  // Ignore empty input and corners that would turn a box inside out
+  const updateBox = (field: BoxField, corner: 'min' | 'max', axis: keyof Point3, value: number) => {
+    if (Number.isNaN(value)) return;
+    const box = profile[field];
+    const next = { ...box, [corner]: { ...box[corner], [axis]: value } };
+    if (next.min[axis] > next.max[axis]) return;
+    onChange({ ...profile, [field]: next });
+  };
+  const updateHome = (axis: keyof Point3, value: number) => {
+    if (!Number.isNaN(value)) onChange({ ...profile, home: { ...profile.home, [axis]: value } });
+  };
+  const updateSpindle = (key: 'min' | 'max', value: number) => {
+    if (Number.isNaN(value) || value < 0) return;
+    const spindle = { ...profile.spindle, [key]: value };
+    if (spindle.min <= spindle.max) onChange({ ...profile, spindle });
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Machine</h2>
+      <div className="space-y-3 text-sm">
+        <div className="flex gap-2">
+          <select
+            value={profile.id}
+            onChange={(event) => onSelect(event.target.value)}
+            aria-label="Machine profile"
+            className={inputClassName}
+          >
+            {profiles.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={onDuplicate}
+            className="py-1 px-3 bg-gray-100 text-gray-700 font-semibold rounded-md hover:bg-gray-200"
+          >
+            Copy
+          </button>
+          <button
+            type="button"
+            onClick={() => onRemove(profile.id)}
+            disabled={profiles.length === 1}
+            className="text-red-500 hover:text-red-700 font-medium disabled:text-gray-300"
+          >
+            Delete
+          </button>
+        </div>
+
+        <label className="block text-gray-500">
+          Name
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(event) => onChange({ ...profile, name: event.target.value })}
+            className={inputClassName}
+          />
+        </label>
+
+        {(['travel', 'table'] as const).map((field) =>
+          (['min', 'max'] as const).map((corner) => (
+            <div key={`${field}-${corner}`}>
+              <p className="font-medium text-gray-700 mb-1">
+                {BOX_LABELS[field]} {corner} (mm)
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                {AXES.map((axis) => (
+                  <label key={axis} className="text-gray-500">
+                    {axis.toUpperCase()}
+                    <input
+                      type="number"
+                      step="1"
+                      value={profile[field][corner][axis]}
+                      onChange={(event) => updateBox(field, corner, axis, Number.parseFloat(event.target.value))}
+                      className={inputClassName}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+
+        <div>
+          <p className="font-medium text-gray-700 mb-1">Home position (mm)</p>
+          <div className="grid grid-cols-3 gap-2">
+            {AXES.map((axis) => (
+              <label key={axis} className="text-gray-500">
+                {axis.toUpperCase()}
+                <input
+                  type="number"
+                  step="1"
+                  value={profile.home[axis]}
+                  onChange={(event) => updateHome(axis, Number.parseFloat(event.target.value))}
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-gray-500">
+            Spindle min (rpm)
+            <input
+              type="number"
+              min="0"
+              value={profile.spindle.min}
+              onChange={(event) => updateSpindle('min', Number.parseFloat(event.target.value))}
+              className={inputClassName}
+            />
+          </label>
+          <label className="text-gray-500">
+            Spindle max (rpm)
+            <input
+              type="number"
+              min="0"
+              value={profile.spindle.max}
+              onChange={(event) => updateSpindle('max', Number.parseFloat(event.target.value))}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+
+        <p className="text-gray-500">Rates and acceleration are set under Motion.</p>
+        {error && <p className="text-red-600">{error}</p>}
+      </div>
+    </section>
+  );
+};
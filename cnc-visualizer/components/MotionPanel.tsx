@@ -0,0 +1,110 @@
+import type { Point3 } from '../lib/gcode';
+import { formatDuration, type MotionLimits, type PathTiming } from '../lib/machine';
+
+interface MotionPanelProps {
+  limits: MotionLimits;
+  timing: PathTiming | null;
+  onChange: (limits: MotionLimits) => void;
+}
+
+const AXES: (keyof Point3)[] = ['x', 'y', 'z'];
+
+const inputClassName = 'w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700';
+
+export const MotionPanel: React.FC<MotionPanelProps> = ({ limits, timing, onChange }) => {
+  // Ignore empty or non-positive input instead of planning with it
+  const updateRate = (key: 'rapidRate' | 'maxFeedRate' | 'junctionDeviation', value: number) => {
+    if (value > 0) onChange({ ...limits, [key]: value });
+  };
+  // A manual change can be left out of the estimate with zero
+  const updateToolChangeTime = (value: number) => {
+    if (value >= 0) onChange({ ...limits, toolChangeTime: value });
+  };
+  const updateAxis = (key: 'acceleration' | 'jerk', axis: keyof Point3, value: number) => {
+    if (value > 0) onChange({ ...limits, [key]: { ...limits[key], [axis]: value } });
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Motion</h2>
+      <div className="space-y-3 text-sm">
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <p className="font-medium text-gray-700 mb-1">Estimated cycle time</p>
+          <p className="text-gray-900 text-base tabular-nums">
+            {timing ? formatDuration(timing.totalTime) : '—'}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-gray-500">
+            Rapid (mm/min)
+            <input
+              type="number"
+              min="1"
+              value={limits.rapidRate}
+              onChange={(event) => updateRate('rapidRate', Number.parseFloat(event.target.value))}
+              className={inputClassName}
+            />
+          </label>
+          <label className="text-gray-500">
+            Max feed (mm/min)
+            <input
+              type="number"
+              min="1"
+              value={limits.maxFeedRate}
+              onChange={(event) => updateRate('maxFeedRate', Number.parseFloat(event.target.value))}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+
+        {(['acceleration', 'jerk'] as const).map((key) => (
+          <div key={key}>
+            <p className="font-medium text-gray-700 mb-1">
+              {key === 'acceleration' ? 'Acceleration (mm/s²)' : 'Jerk (mm/s³)'}
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              {AXES.map((axis) => (
+                <label key={axis} className="text-gray-500">
+                  {axis.toUpperCase()}
+                  <input
+                    type="number"
+                    min="1"
+                    value={limits[key][axis]}
+                    onChange={(event) => updateAxis(key, axis, Number.parseFloat(event.target.value))}
+                    className={inputClassName}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-gray-500">
+            Junction deviation (mm)
+            <input
+              type="number"
+              min="0.001"
+              step="0.001"
+              value={limits.junctionDeviation}
+              onChange={(event) => updateRate('junctionDeviation', Number.parseFloat(event.target.value))}
+              className={inputClassName}
+            />
+          </label>
+          <label className="text-gray-500">
+            Tool change (s)
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={limits.toolChangeTime}
+              onChange={(event) => updateToolChangeTime(Number.parseFloat(event.target.value))}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+      </div>
+    </section>
+  );
+};
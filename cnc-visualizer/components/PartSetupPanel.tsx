@@ -0,0 +1,110 @@
+import type { Point3 } from '../lib/gcode';
+import type { AnchorPosition, PartOrigin, PartSetup, PartTransform } from '../lib/setup';
+
+interface PartSetupPanelProps {
+  setup: PartSetup;
+  // Aligning to the stock needs a stock block to align to
+  hasStock: boolean;
+  onChange: (setup: PartSetup) => void;
+}
+
+const AXES: (keyof Point3)[] = ['x', 'y', 'z'];
+
+// Names of the min / center / max anchors along each axis
+const ANCHOR_LABELS: Record<keyof Point3, Record<AnchorPosition, string>> = {
+  x: { min: 'Left', center: 'Center', max: 'Right' },
+  y: { min: 'Front', center: 'Center', max: 'Back' },
+  z: { min: 'Bottom', center: 'Center', max: 'Top' },
+};
+
+const inputClassName = 'w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700';
+
+export const PartSetupPanel: React.FC<PartSetupPanelProps> = ({ setup, hasStock, onChange }) => {
+  const updateOrigin = (origin: Partial<PartOrigin>) => {
+    onChange({ ...setup, origin: { ...setup.origin, ...origin } });
+  };
+
+  const updateTransform = (transform: Partial<PartTransform>) => {
+    onChange({ ...setup, transform: { ...setup.transform, ...transform } });
+  };
+
+  const updateVector = (field: 'translation' | 'rotation', axis: keyof Point3, value: number) => {
+    if (Number.isNaN(value)) return;
+    updateTransform({ [field]: { ...setup.transform[field], [axis]: value } });
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Part Setup</h2>
+      <div className="space-y-3 text-sm">
+        <div>
+          <p className="font-medium text-gray-700 mb-1">Part origin</p>
+          <div className="grid grid-cols-3 gap-2">
+            {AXES.map((axis) => (
+              <label key={axis} className="text-gray-500">
+                {axis.toUpperCase()}
+                <select
+                  value={setup.origin[axis]}
+                  onChange={(event) => updateOrigin({ [axis]: event.target.value as AnchorPosition })}
+                  className={inputClassName}
+                >
+                  {(['min', 'center', 'max'] as const).map((position) => (
+                    <option key={position} value={position}>{ANCHOR_LABELS[axis][position]}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <label className="block text-gray-500 mt-2">
+            Place on
+            <select
+              value={setup.origin.alignTo}
+              onChange={(event) => updateOrigin({ alignTo: event.target.value as PartOrigin['alignTo'] })}
+              className={inputClassName}
+            >
+              <option value="workZero">Work zero</option>
+              <option value="stock" disabled={!hasStock}>Same point of the stock</option>
+            </select>
+          </label>
+        </div>
+
+        {(['translation', 'rotation'] as const).map((field) => (
+          <div key={field}>
+            <p className="font-medium text-gray-700 mb-1">
+              {field === 'translation' ? 'Translate (mm)' : 'Rotate (°)'}
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              {AXES.map((axis) => (
+                <label key={axis} className="text-gray-500">
+                  {axis.toUpperCase()}
+                  <input
+                    type="number"
+                    step={field === 'translation' ? '0.1' : '90'}
+                    value={setup.transform[field][axis]}
+                    onChange={(event) => updateVector(field, axis, Number.parseFloat(event.target.value))}
+                    className={inputClassName}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <label className="block text-gray-500">
+          Scale
+          <input
+            type="number"
+            step="0.1"
+            min="0.001"
+            value={setup.transform.scale}
+            onChange={(event) => {
+              const scale = Number.parseFloat(event.target.value);
+              if (scale > 0) updateTransform({ scale });
+            }}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,52 @@
+import { PROJECT_EXTENSION } from '../lib/project';
+
+interface ProjectPanelProps {
+  // Name of the project last opened or saved
+  fileName: string | null;
+  isBusy: boolean;
+  error: string | null;
+  onOpen: (file: File) => void;
+  onSave: () => void;
+}
+
+export const ProjectPanel: React.FC<ProjectPanelProps> = ({ fileName, isBusy, error, onOpen, onSave }) => (
+  <section>
+    <h2 className="text-lg font-semibold text-gray-800 mb-4">Project</h2>
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <label
+          htmlFor="project-upload"
+          className="py-2 px-4 bg-gray-100 text-gray-700 font-semibold rounded-md hover:bg-gray-200 cursor-pointer"
+        >
+          Open
+        </label>
+        <input
+          id="project-upload"
+          type="file"
+          accept={PROJECT_EXTENSION}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) onOpen(file);
+            event.target.value = '';
+          }}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={isBusy}
+          className="py-2 px-4 bg-gray-100 text-gray-700 font-semibold rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          Save
+        </button>
+        <span className="text-gray-500 truncate" title={fileName ?? undefined}>
+          {isBusy ? 'Working…' : fileName}
+        </span>
+      </div>
+      <p className="text-gray-500">
+        Saves the part, program, stock, work offsets, tools, machine and view.
+      </p>
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  </section>
+);
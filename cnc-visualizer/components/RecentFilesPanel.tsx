@@ -0,0 +1,72 @@
+import type { RecentFile, RecentFileKind } from '../hooks/useRecentFiles';
+
+interface RecentFilesPanelProps {
+  files: RecentFile[];
+  // Bytes held by the cache
+  cacheSize: number;
+  error: string | null;
+  onOpen: (file: RecentFile) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+const KIND_LABELS: Record<RecentFileKind, string> = {
+  model: 'Part model',
+  program: 'G-code',
+  project: 'Project',
+};
+
+const formatSize = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const RecentFilesPanel: React.FC<RecentFilesPanelProps> = ({
+  files,
+  cacheSize,
+  error,
+  onOpen,
+  onRemove,
+  onClear,
+}) => (
+  <section>
+    <h2 className="text-lg font-semibold text-gray-800 mb-4">Recent Files</h2>
+    <div className="space-y-2 text-sm">
+      {files.length === 0 ? (
+        <p className="text-gray-500">Opened files are kept here for quick reopening</p>
+      ) : (
+        <>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+            {files.map((file) => (
+              <li key={file.id} className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => onOpen(file)}
+                  className="flex-1 min-w-0 text-left px-3 py-2 hover:bg-gray-50"
+                  title={`Opened ${new Date(file.openedAt).toLocaleString()}`}
+                >
+                  <span className="block text-gray-700 truncate">{file.name}</span>
+                  <span className="text-gray-500">
+                    {KIND_LABELS[file.kind]} · {formatSize(file.size)}
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemove(file.id)}
+                  className="px-3 text-red-500 hover:text-red-700 font-medium"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center justify-between">
+            <span className="text-gray-500">{formatSize(cacheSize)} cached</span>
+            <button type="button" onClick={onClear} className="text-red-500 hover:text-red-700 font-medium">
+              Clear all
+            </button>
+          </div>
+        </>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  </section>
+);
@@ -0,0 +1,157 @@
+import type { ValueRange } from '../lib/report';
+import type { Bounds } from '../lib/setup';
+import { SECTION_AXES, type SectionAxis, type SectionPlane, type SectionSettings } from './three/sectionView';
+
+interface SectionPanelProps {
+  settings: SectionSettings;
+  // Range the plane sliders cover, the machine travel
+  bounds: Bounds;
+  // Depths the path spans and the levels it cuts flat at, when a program is loaded
+  pathDepths: ValueRange | null;
+  depthLevels: number[];
+  onChange: (settings: SectionSettings) => void;
+}
+
+// Half the thickness (mm) of the band shown when picking a single cut level
+const LEVEL_TOLERANCE = 0.01;
+
+const KEPT_SIDES: Record<SectionAxis, [string, string]> = {
+  x: ['Keep left', 'Keep right'],
+  y: ['Keep front', 'Keep back'],
+  z: ['Keep below', 'Keep above'],
+};
+
+const inputClassName = 'w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700';
+
+export const SectionPanel: React.FC<SectionPanelProps> = ({ settings, bounds, pathDepths, depthLevels, onChange }) => {
+  const { planes, depthRange } = settings;
+
+  const updatePlane = (axis: SectionAxis, plane: Partial<SectionPlane>) => {
+    onChange({ ...settings, planes: { ...planes, [axis]: { ...planes[axis], ...plane } } });
+  };
+
+  // A plane turned on outside the travel starts halfway across it
+  const enablePlane = (axis: SectionAxis, enabled: boolean) => {
+    const { position } = planes[axis];
+    const inside = position >= bounds.min[axis] && position <= bounds.max[axis];
+    updatePlane(axis, { enabled, position: inside ? position : (bounds.min[axis] + bounds.max[axis]) / 2 });
+  };
+
+  const updateDepth = (field: 'min' | 'max', value: number) => {
+    if (!depthRange || Number.isNaN(value)) return;
+    onChange({ ...settings, depthRange: { ...depthRange, [field]: value } });
+  };
+
+  const selectedLevel = depthRange && depthLevels.find(
+    (z) => Math.abs(depthRange.min - (z - LEVEL_TOLERANCE)) < 1e-9 && Math.abs(depthRange.max - (z + LEVEL_TOLERANCE)) < 1e-9
+  );
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Section</h2>
+      <div className="space-y-3 text-sm">
+        {SECTION_AXES.map((axis) => {
+          const plane = planes[axis];
+          return (
+            <div key={axis}>
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={plane.enabled}
+                    onChange={(event) => enablePlane(axis, event.target.checked)}
+                  />
+                  {axis.toUpperCase()} plane
+                </label>
+                <button
+                  type="button"
+                  onClick={() => updatePlane(axis, { flip: !plane.flip })}
+                  disabled={!plane.enabled}
+                  className="text-blue-500 hover:text-blue-700 disabled:text-gray-400"
+                >
+                  {KEPT_SIDES[axis][plane.flip ? 1 : 0]}
+                </button>
+              </div>
+              {plane.enabled && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="range"
+                    min={bounds.min[axis]}
+                    max={bounds.max[axis]}
+                    step="0.1"
+                    value={plane.position}
+                    onChange={(event) => updatePlane(axis, { position: Number.parseFloat(event.target.value) })}
+                    className="flex-1"
+                  />
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={plane.position}
+                    onChange={(event) => {
+                      const position = Number.parseFloat(event.target.value);
+                      if (!Number.isNaN(position)) updatePlane(axis, { position });
+                    }}
+                    className="w-20 border border-gray-300 rounded px-2 py-1 text-sm text-gray-700"
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <div>
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={depthRange !== null}
+              onChange={(event) => onChange({
+                ...settings,
+                depthRange: event.target.checked
+                  ? { min: pathDepths?.min ?? bounds.min.z, max: pathDepths?.max ?? bounds.max.z }
+                  : null,
+              })}
+            />
+            Only show path between depths
+          </label>
+          {depthRange && (
+            <div className="space-y-2 mt-2">
+              <div className="grid grid-cols-2 gap-2">
+                {(['min', 'max'] as const).map((field) => (
+                  <label key={field} className="text-gray-500">
+                    {field === 'min' ? 'From Z' : 'To Z'}
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={depthRange[field]}
+                      onChange={(event) => updateDepth(field, Number.parseFloat(event.target.value))}
+                      className={inputClassName}
+                    />
+                  </label>
+                ))}
+              </div>
+              {depthLevels.length > 0 && (
+                <label className="block text-gray-500">
+                  Cut level
+                  <select
+                    value={selectedLevel ?? ''}
+                    onChange={(event) => {
+                      const z = Number.parseFloat(event.target.value);
+                      if (Number.isNaN(z)) return;
+                      onChange({ ...settings, depthRange: { min: z - LEVEL_TOLERANCE, max: z + LEVEL_TOLERANCE } });
+                    }}
+                    className={inputClassName}
+                  >
+                    <option value="">Custom</option>
+                    {depthLevels.map((z) => (
+                      <option key={z} value={z}>Z{z}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,142 @@
+import { formatDuration } from '../lib/machine';
+import { formatDistance, type ProgramStats, type ValueRange } from '../lib/report';
+
+export type ReportFormat = 'html' | 'json';
+
+interface StatisticsPanelProps {
+  stats: ProgramStats;
+  onSelectLine: (line: number) => void;
+  onExport: (format: ReportFormat) => void;
+}
+
+// Depth levels listed before the rest are summarized
+const MAX_LISTED_LEVELS = 8;
+
+const formatRange = (range: ValueRange | null, unit: string): string => {
+  if (!range) return '—';
+  const min = Math.round(range.min);
+  const max = Math.round(range.max);
+  return min === max ? `${min} ${unit}` : `${min}–${max} ${unit}`;
+};
+
+export const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ stats, onSelectLine, onExport }) => {
+  const { extents, depthLevels, toolChanges } = stats;
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Statistics</h2>
+      <div className="space-y-3 text-sm">
+        <div className="grid grid-cols-3 gap-2">
+          <div className="bg-gray-50 p-2 rounded-lg">
+            <p className="text-gray-500">Time</p>
+            <p className="text-gray-900 tabular-nums">{formatDuration(stats.totalTime)}</p>
+          </div>
+          <div className="bg-gray-50 p-2 rounded-lg">
+            <p className="text-gray-500">Cutting</p>
+            <p className="text-gray-900 tabular-nums">{formatDistance(stats.cutDistance)}</p>
+          </div>
+          <div className="bg-gray-50 p-2 rounded-lg">
+            <p className="text-gray-500">Rapid</p>
+            <p className="text-gray-900 tabular-nums">{formatDistance(stats.rapidDistance)}</p>
+          </div>
+        </div>
+
+        <div>
+          <p className="font-medium text-gray-700 mb-1">Per tool</p>
+          <table className="w-full text-gray-700 tabular-nums">
+            <tbody>
+              {stats.toolUsage.map((usage) => (
+                <tr key={usage.tool}>
+                  <td className="py-0.5">T{usage.tool}</td>
+                  <td className="py-0.5 text-right">{formatDuration(usage.time)}</td>
+                  <td className="py-0.5 text-right">{formatDistance(usage.cutDistance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {extents && (
+          <div>
+            <p className="font-medium text-gray-700 mb-1">Extents (mm)</p>
+            <table className="w-full text-gray-700 tabular-nums">
+              <tbody>
+                {(['x', 'y', 'z'] as const).map((axis) => (
+                  <tr key={axis}>
+                    <td className="py-0.5">{axis.toUpperCase()}</td>
+                    <td className="py-0.5 text-right">{extents[axis].min.toFixed(3)}</td>
+                    <td className="py-0.5 text-right">{extents[axis].max.toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div>
+          <p className="font-medium text-gray-700 mb-1">Depth levels</p>
+          {depthLevels.length === 0 ? (
+            <p className="text-gray-500">No level cuts</p>
+          ) : (
+            <p className="text-gray-700 tabular-nums">
+              {depthLevels.slice(0, MAX_LISTED_LEVELS).map((level) => `Z${level.z}`).join(', ')}
+              {depthLevels.length > MAX_LISTED_LEVELS && (
+                <span className="text-gray-500"> and {depthLevels.length - MAX_LISTED_LEVELS} more</span>
+              )}
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <p className="font-medium text-gray-700">Feed</p>
+            <p className="text-gray-600">{formatRange(stats.feedRange, 'mm/min')}</p>
+          </div>
+          <div>
+            <p className="font-medium text-gray-700">Spindle</p>
+            <p className="text-gray-600">{formatRange(stats.spindleRange, 'rpm')}</p>
+          </div>
+        </div>
+
+        <div>
+          <p className="font-medium text-gray-700 mb-1">
+            Tool changes ({toolChanges.length})
+          </p>
+          {toolChanges.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {toolChanges.map((change) => (
+                <li key={change.line}>
+                  <button
+                    type="button"
+                    onClick={() => onSelectLine(change.line)}
+                    className="w-full text-left px-3 py-1 hover:bg-gray-50"
+                  >
+                    <span className="text-gray-700">T{change.tool}</span>
+                    <span className="text-gray-500"> · Line {change.line}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onExport('html')}
+            className="flex-1 py-1 px-3 bg-gray-100 text-gray-700 font-semibold rounded-md hover:bg-gray-200"
+          >
+            Setup Sheet
+          </button>
+          <button
+            type="button"
+            onClick={() => onExport('json')}
+            className="flex-1 py-1 px-3 bg-gray-100 text-gray-700 font-semibold rounded-md hover:bg-gray-200"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,118 @@
+import type { Point3 } from '../lib/gcode';
+import type { SimulationSettings } from '../lib/sim';
+import type { CutterType } from '../lib/tools';
+
+interface StockPanelProps {
+  settings: SimulationSettings | null;
+  onChange: (settings: SimulationSettings | null) => void;
+  onEnable: () => void;
+}
+
+const RESOLUTIONS = [0.25, 0.5, 1, 2];
+
+const AXES: (keyof Point3)[] = ['x', 'y', 'z'];
+
+const inputClassName = 'w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700';
+
+export const StockPanel: React.FC<StockPanelProps> = ({ settings, onChange, onEnable }) => {
+  const updateVector = (field: 'origin' | 'size', axis: keyof Point3, value: number) => {
+    if (!settings || Number.isNaN(value)) return;
+    onChange({
+      ...settings,
+      stock: { ...settings.stock, [field]: { ...settings.stock[field], [axis]: value } },
+    });
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Stock</h2>
+      <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+        <input
+          type="checkbox"
+          checked={settings !== null}
+          onChange={(event) => (event.target.checked ? onEnable() : onChange(null))}
+        />
+        Simulate material removal
+      </label>
+
+      {settings && (
+        <div className="space-y-3 text-sm">
+          {(['size', 'origin'] as const).map((field) => (
+            <div key={field}>
+              <p className="font-medium text-gray-700 mb-1">
+                {field === 'size' ? 'Size (mm)' : 'Origin, min corner (mm)'}
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                {AXES.map((axis) => (
+                  <label key={axis} className="text-gray-500">
+                    {axis.toUpperCase()}
+                    <input
+                      type="number"
+                      step="0.1"
+                      min={field === 'size' ? 0.1 : undefined}
+                      value={settings.stock[field][axis]}
+                      onChange={(event) => updateVector(field, axis, Number.parseFloat(event.target.value))}
+                      className={inputClassName}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-gray-500" title="Used for tools that are not in the tool library">
+              Default cutter
+              <select
+                value={settings.cutter.type}
+                onChange={(event) => onChange({
+                  ...settings,
+                  cutter: { ...settings.cutter, type: event.target.value as CutterType },
+                })}
+                className={inputClassName}
+              >
+                <option value="flat">Flat end</option>
+                <option value="ball">Ball end</option>
+              </select>
+            </label>
+            <label className="text-gray-500">
+              Diameter (mm)
+              <input
+                type="number"
+                step="0.1"
+                min="0.1"
+                value={settings.cutter.diameter}
+                onChange={(event) => {
+                  const diameter = Number.parseFloat(event.target.value);
+                  if (diameter > 0) onChange({ ...settings, cutter: { ...settings.cutter, diameter } });
+                }}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+
+          <label className="block text-gray-500">
+            Resolution
+            <select
+              value={settings.resolution}
+              onChange={(event) => onChange({ ...settings, resolution: Number.parseFloat(event.target.value) })}
+              className={inputClassName}
+            >
+              {RESOLUTIONS.map((resolution) => (
+                <option key={resolution} value={resolution}>{resolution} mm</option>
+              ))}
+            </select>
+          </label>
+
+          <button
+            type="button"
+            onClick={onEnable}
+            className="py-1 px-3 bg-gray-100 text-gray-700 font-semibold rounded-md hover:bg-gray-200"
+          >
+            Fit to path
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
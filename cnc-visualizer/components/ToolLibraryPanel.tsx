@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { createTool, CUTTER_TYPE_LABELS, type CutterType, type Tool } from '../lib/tools';
+
+interface ToolLibraryPanelProps {
+  tools: Tool[];
+  // T numbers the loaded program switches to with M6
+  usedToolNumbers: number[];
+  error: string | null;
+  onSave: (tool: Tool, previousNumber: number) => void;
+  onRemove: (number: number) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700';
+
+const NUMBER_FIELDS: { key: keyof Tool; label: string; visible?: (tool: Tool) => boolean }[] = [
+  { key: 'number', label: 'T number' },
+  { key: 'diameter', label: 'Diameter' },
+  { key: 'cornerRadius', label: 'Corner radius', visible: (tool) => tool.type === 'bull' },
+  { key: 'taperAngle', label: 'Tip angle (°)', visible: (tool) => tool.type === 'vbit' },
+  { key: 'fluteLength', label: 'Flute length' },
+  { key: 'stickout', label: 'Stickout' },
+  { key: 'holderDiameter', label: 'Holder Ø' },
+  { key: 'holderLength', label: 'Holder length' },
+];
+
+interface ToolFormProps {
+  tool: Tool;
+  onSave: (tool: Tool) => void;
+  onCancel: () => void;
+}
+
+const ToolForm: React.FC<ToolFormProps> = ({ tool, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(tool);
+
+  return (
+    <div className="space-y-2 bg-gray-50 p-3 rounded-md text-sm">
+      <label className="block text-gray-500">
+        Name
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+          className={inputClassName}
+        />
+      </label>
+      <label className="block text-gray-500">
+        Type
+        <select
+          value={draft.type}
+          onChange={(event) => setDraft({ ...draft, type: event.target.value as CutterType })}
+          className={inputClassName}
+        >
+          {Object.entries(CUTTER_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {NUMBER_FIELDS.filter(({ visible }) => !visible || visible(draft)).map(({ key, label }) => (
+          <label key={key} className="text-gray-500">
+            {label}
+            <input
+              type="number"
+              step={key === 'number' ? 1 : 0.1}
+              min="0"
+              value={draft[key] as number}
+              onChange={(event) => {
+                const value = Number.parseFloat(event.target.value);
+                if (!Number.isNaN(value)) setDraft({ ...draft, [key]: value });
+              }}
+              className={inputClassName}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onSave(draft)}
+          disabled={draft.diameter <= 0}
+          className="py-1 px-3 bg-blue-500 hover:bg-blue-600 text-white rounded-md disabled:opacity-50"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="py-1 px-3 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const ToolLibraryPanel: React.FC<ToolLibraryPanelProps> = ({
+  tools,
+  usedToolNumbers,
+  error,
+  onSave,
+  onRemove,
+  onImport,
+  onExport,
+}) => {
+  // Tool being edited and the T number it had before editing
+  const [editing, setEditing] = useState<{ tool: Tool; previousNumber: number } | null>(null);
+
+  const undefinedTools = usedToolNumbers.filter(
+    (number) => number > 0 && !tools.some((tool) => tool.number === number)
+  );
+  const nextNumber = tools.reduce((max, tool) => Math.max(max, tool.number), 0) + 1;
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImport(file);
+    event.target.value = '';
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Tool Library</h2>
+      <div className="space-y-3 text-sm">
+        {tools.length === 0 && <p className="text-gray-500">No tools defined</p>}
+        <ul className="divide-y divide-gray-100">
+          {tools.map((tool) => (
+            <li key={tool.number} className="flex items-center justify-between py-2">
+              <span className="text-gray-700">
+                <span className="font-medium">T{tool.number}</span> {tool.name}
+                <span className="block text-gray-500">
+                  Ø{tool.diameter} mm {CUTTER_TYPE_LABELS[tool.type].toLowerCase()}
+                </span>
+              </span>
+              <span className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setEditing({ tool, previousNumber: tool.number })}
+                  className="text-blue-500 hover:text-blue-700 font-medium"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemove(tool.number)}
+                  className="text-red-500 hover:text-red-700 font-medium"
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {undefinedTools.length > 0 && (
+          <p className="text-amber-600">
+            Program uses {undefinedTools.map((number) => `T${number}`).join(', ')} without a library entry; the
+            stock cutter is used instead.
+          </p>
+        )}
+
+        {editing ? (
+          <ToolForm
+            key={editing.previousNumber}
+            tool={editing.tool}
+            onSave={(tool) => {
+              onSave(tool, editing.previousNumber);
+              setEditing(null);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                const tool = createTool(undefinedTools[0] ?? nextNumber);
+                setEditing({ tool, previousNumber: tool.number });
+              }}
+              className="py-1 px-3 bg-gray-100 text-gray-700 font-semibold rounded-md hover:bg-gray-200"
+            >
+              Add Tool
+            </button>
+            <label
+              htmlFor="tool-import"
+              className="py-1 px-3 bg-gray-100 text-gray-700 font-semibold rounded-md hover:bg-gray-200 cursor-pointer"
+            >
+              Import
+            </label>
+            <input id="tool-import" type="file" accept=".json" onChange={handleImport} className="hidden" />
+            <button
+              type="button"
+              onClick={onExport}
+              disabled={tools.length === 0}
+              className="py-1 px-3 bg-gray-100 text-gray-700 font-semibold rounded-md hover:bg-gray-200 disabled:opacity-50"
+            >
+              Export
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-red-600">{error}</p>}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,59 @@
+import { WORK_OFFSET_CODES, type Point3 } from '../lib/gcode';
+
+interface WorkOffsetPanelProps {
+  offsets: Point3[];
+  // Coordinate systems the program selects (0 = G54)
+  usedSystems: number[];
+  onChange: (offsets: Point3[]) => void;
+}
+
+const AXES: (keyof Point3)[] = ['x', 'y', 'z'];
+
+const inputClassName = 'w-full border border-gray-300 rounded px-1 py-0.5 text-sm text-gray-700';
+
+export const WorkOffsetPanel: React.FC<WorkOffsetPanelProps> = ({ offsets, usedSystems, onChange }) => {
+  const updateOffset = (system: number, axis: keyof Point3, value: number) => {
+    if (Number.isNaN(value)) return;
+    onChange(offsets.map((offset, index) => (index === system ? { ...offset, [axis]: value } : offset)));
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Work Offsets</h2>
+      <p className="text-sm text-gray-500 mb-2">Machine position of each work zero (mm)</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-medium pb-1" />
+            {AXES.map((axis) => (
+              <th key={axis} className="font-medium pb-1">{axis.toUpperCase()}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {WORK_OFFSET_CODES.map((code, system) => (
+            <tr key={code}>
+              <td
+                className={`pr-2 ${usedSystems.includes(system) ? 'text-gray-800 font-medium' : 'text-gray-400'}`}
+                title={usedSystems.includes(system) ? 'Used by the program' : undefined}
+              >
+                {code}
+              </td>
+              {AXES.map((axis) => (
+                <td key={axis} className="px-0.5 py-0.5">
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={offsets[system][axis]}
+                    onChange={(event) => updateOffset(system, axis, Number.parseFloat(event.target.value))}
+                    className={inputClassName}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
@@ -0,0 +1,127 @@
+import { formatDuration, type TimedEvent } from '../../lib/machine';
+import type { CoolantState, SpindleDirection } from '../../lib/gcode';
+
+interface EventTimelineProps {
+  events: TimedEvent[];
+  totalTime: number;
+  onSeek: (time: number) => void;
+}
+
+interface Span<T> {
+  start: number;
+  end: number;
+  value: T;
+}
+
+const SPINDLE_CLASSES: Record<Exclude<SpindleDirection, 'off'>, string> = {
+  cw: 'bg-green-500',
+  ccw: 'bg-blue-500',
+};
+
+const SPINDLE_LABELS: Record<Exclude<SpindleDirection, 'off'>, string> = {
+  cw: 'Spindle CW',
+  ccw: 'Spindle CCW',
+};
+
+// Narrowest marker that can still be clicked, px
+const MIN_MARKER_WIDTH = 2;
+
+// Stretches of the program during which a state holds, skipping the ones it is off
+const spansOf = <T,>(points: { time: number; value: T }[], totalTime: number, isOff: (value: T) => boolean) => {
+  const spans: Span<T>[] = [];
+  points.forEach((point, index) => {
+    const end = index + 1 < points.length ? points[index + 1].time : totalTime;
+    if (!isOff(point.value) && end > point.time) spans.push({ start: point.time, end, value: point.value });
+  });
+  return spans;
+};
+
+const coolantLabel = ({ mist, flood }: CoolantState): string =>
+  mist && flood ? 'Mist and flood coolant' : flood ? 'Flood coolant' : 'Mist coolant';
+
+const markerLabel = ({ event }: TimedEvent): string => {
+  switch (event.type) {
+    case 'dwell':
+      return `Dwell ${event.seconds}s`;
+    case 'stop':
+      return event.optional ? 'Optional stop (M1)' : 'Program stop (M0)';
+    case 'toolChange':
+      return `Tool change to T${event.tool}`;
+    default:
+      return '';
+  }
+};
+
+// Optional stops are drawn lighter than program stops
+const markerClass = ({ event }: TimedEvent): string =>
+  event.type === 'dwell' ? 'bg-amber-500'
+    : event.type === 'toolChange' ? 'bg-purple-600'
+    : event.type === 'stop' && event.optional ? 'bg-red-300'
+    : 'bg-red-600';
+
+/**
+ * Tracks under the playback slider: spindle direction and speed, coolant, and
+ * markers for dwells, stops and tool changes that seek playback when clicked.
+ */
+export const EventTimeline: React.FC<EventTimelineProps> = ({ events, totalTime, onSeek }) => {
+  if (totalTime <= 0) return null;
+  const percent = (time: number) => `${(time / totalTime) * 100}%`;
+
+  const spindle = spansOf(
+    events.flatMap(({ event, time }) =>
+      event.type === 'spindle' ? [{ time, value: { direction: event.direction, speed: event.speed } }] : []
+    ),
+    totalTime,
+    (value) => value.direction === 'off'
+  );
+  const coolant = spansOf(
+    events.flatMap(({ event, time }) => (event.type === 'coolant' ? [{ time, value: event.coolant }] : [])),
+    totalTime,
+    (value) => !value.mist && !value.flood
+  );
+  const markers = events.filter(({ event }) => event.type === 'dwell' || event.type === 'stop' || event.type === 'toolChange');
+
+  return (
+    <div className="space-y-0.5">
+      <div className="relative h-1.5 bg-gray-100 rounded-sm" title="Spindle">
+        {spindle.map((span) => {
+          const direction = span.value.direction as Exclude<SpindleDirection, 'off'>;
+          return (
+            <div
+              key={span.start}
+              className={`absolute inset-y-0 ${SPINDLE_CLASSES[direction]}`}
+              style={{ left: percent(span.start), width: percent(span.end - span.start) }}
+              title={`${SPINDLE_LABELS[direction]} ${span.value.speed} rpm`}
+            />
+          );
+        })}
+      </div>
+      <div className="relative h-1.5 bg-gray-100 rounded-sm" title="Coolant">
+        {coolant.map((span) => (
+          <div
+            key={span.start}
+            className={`absolute inset-y-0 ${span.value.flood ? 'bg-cyan-500' : 'bg-cyan-200'}`}
+            style={{ left: percent(span.start), width: percent(span.end - span.start) }}
+            title={coolantLabel(span.value)}
+          />
+        ))}
+      </div>
+      <div className="relative h-3" title="Pauses and tool changes">
+        {markers.map((marker, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onSeek(marker.time)}
+            className={`absolute inset-y-0 rounded-sm ${markerClass(marker)}`}
+            style={{
+              left: percent(marker.time),
+              width: marker.duration > 0 ? percent(marker.duration) : undefined,
+              minWidth: MIN_MARKER_WIDTH,
+            }}
+            title={`${markerLabel(marker)} · Line ${marker.event.line} · ${formatDuration(marker.time)}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
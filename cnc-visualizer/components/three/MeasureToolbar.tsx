@@ -0,0 +1,54 @@
+import { MEASURE_MODES, MESH_SNAPS, type MeasureMode, type MeshSnap } from './measureTools';
+
+interface MeasureToolbarProps {
+  mode: MeasureMode;
+  snap: MeshSnap;
+  onModeChange: (mode: MeasureMode) => void;
+  onSnapChange: (snap: MeshSnap) => void;
+  onClear: () => void;
+}
+
+const HINTS: Record<MeasureMode, string> = {
+  off: '',
+  distance: 'Click two points on the path or part',
+  inspect: 'Hover over the path',
+  clearance: 'Click a rapid move',
+};
+
+export const MeasureToolbar: React.FC<MeasureToolbarProps> = ({ mode, snap, onModeChange, onSnapChange, onClear }) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-white p-2 rounded-lg shadow-lg text-sm space-y-1">
+    <div className="flex items-center gap-1">
+      <span className="font-medium text-gray-700 mr-1">Measure</span>
+      {MEASURE_MODES.map(({ value, label }) => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => onModeChange(value)}
+          className={`px-2 py-1 rounded-md ${mode === value ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+        >
+          {label}
+        </button>
+      ))}
+      {mode === 'distance' && (
+        <select
+          value={snap}
+          onChange={(event) => onSnapChange(event.target.value as MeshSnap)}
+          className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+          title="Snap on the part"
+        >
+          {MESH_SNAPS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      )}
+      <button
+        type="button"
+        onClick={onClear}
+        className="px-2 py-1 text-red-500 hover:text-red-700 font-medium"
+      >
+        Clear
+      </button>
+    </div>
+    {HINTS[mode] && <p className="text-xs text-gray-500">{HINTS[mode]}</p>}
+  </div>
+);
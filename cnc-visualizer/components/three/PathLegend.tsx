@@ -0,0 +1,35 @@
+import { PATH_COLOR_MODES, type LegendEntry, type PathColorMode } from './pathColors';
+
+interface PathLegendProps {
+  mode: PathColorMode;
+  entries: LegendEntry[];
+  onModeChange: (mode: PathColorMode) => void;
+}
+
+export const PathLegend: React.FC<PathLegendProps> = ({ mode, entries, onModeChange }) => (
+  <div className="absolute top-4 left-4 bg-white p-3 rounded-lg shadow-lg space-y-2 text-sm">
+    <label className="flex items-center gap-2 font-medium text-gray-700">
+      Color by
+      <select
+        value={mode}
+        onChange={(event) => onModeChange(event.target.value as PathColorMode)}
+        className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+      >
+        {PATH_COLOR_MODES.map(({ value, label }) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+    </label>
+    <ul className="space-y-1">
+      {entries.map((entry) => (
+        <li key={entry.label} className="flex items-center gap-2 text-gray-600">
+          <span
+            className="inline-block w-6 border-t-2"
+            style={{ borderColor: entry.color, borderStyle: entry.dashed ? 'dashed' : 'solid' }}
+          />
+          {entry.label}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
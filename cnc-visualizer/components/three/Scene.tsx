@@ -1,87 +1,478 @@
 'use client';
 
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useCallback, useState, useMemo, forwardRef, useImperativeHandle } from 'react';
 import * as THREE from 'three';
-import { OrbitControls } from 'three-stdlib';
-import { useThreeSetup } from '../../hooks/useThreeSetup';
-import { useGCodeParser } from '../../hooks/useGCodeParser';
 import { CSS2DRenderer, CSS2DObject } from 'three-stdlib';
+import { SegmentKind, type Hole, type Point3, type ToolPath } from '../../lib/gcode';
+import { colorToolPath, type LegendEntry, type PathColorMode } from './pathColors';
+import { pointOnPath, splitPathByKind, type PathBuffers } from './pathGeometry';
+import { PathLegend } from './PathLegend';
+import { EventTimeline } from './EventTimeline';
+import { createStockMesh, disposeStockMesh, updateStockMesh } from './stockMesh';
+import { createCutterMesh, disposeCutterMesh } from './cutterMesh';
+import { createCollisionMarkers, disposeCollisionMarkers } from './collisionMarkers';
+import { createMachineEnvelope, disposeMachineEnvelope } from './machineEnvelope';
+import { createHoleMarkers, disposeHoleMarkers } from './holeMarkers';
+import { MeasureToolbar } from './MeasureToolbar';
+import { ViewToolbar } from './ViewToolbar';
+import {
+  COMPARE_PATH_COLOR,
+  createComparisonOverlay,
+  disposeComparisonOverlay,
+  type CompareView,
+} from './comparisonOverlay';
+import {
+  createSectionCaps,
+  depthPlanes,
+  disposeSectionCaps,
+  sectionPlanes,
+  setPlanes,
+  type SectionSettings,
+  type SectionSolid,
+} from './sectionView';
+import {
+  applyViewPose,
+  applyViewPreset,
+  BASE_PATH_LAYER,
+  createViewport,
+  disposeViewport,
+  frameBox,
+  paneAt,
+  paneLayerMask,
+  paneRects,
+  paneViewport,
+  setProjection,
+  setViewportAspect,
+  viewCamera,
+  viewPose,
+  visibleHalfHeight,
+  type Projection,
+  type ViewLayout,
+  type ViewPreset,
+  type Viewport,
+} from './viewports';
+import {
+  createClearanceMeasurement,
+  createDistanceMeasurement,
+  createMeasureLabel,
+  createPointMarkers,
+  disposeMeasurement,
+  formatPoint,
+  snapToMesh,
+  snapToPathVertex,
+  type MeasureMode,
+  type MeshSnap,
+} from './measureTools';
+import { DEFAULT_TOOL, findTool, type Tool } from '../../lib/tools';
+import {
+  formatDuration,
+  playbackAtTime,
+  type MachineProfile,
+  type PathTiming,
+  type PlaybackPoint,
+  type TimedEvent,
+} from '../../lib/machine';
+import { partPlacement, type PartSetup } from '../../lib/setup';
+import {
+  createHeightfield,
+  cutPathSegments,
+  cutSegment,
+  resetHeightfield,
+  segmentClearance,
+  type Collision,
+  type Heightfield,
+  type SimulationSettings,
+} from '../../lib/sim';
+import type { DivergenceRegion } from '../../lib/compare';
+import type { ProjectView } from '../../lib/project';
+import type { CollisionRequest, CollisionResponse } from '../../workers/collisionCheck.worker';
 
 interface SceneProps {
-  stlFile: File | null;
+  modelFile: File | null;
+  // Part mesh in millimeters, as loaded by useThreeSetup
+  model: THREE.Mesh | null;
+  modelLoading: boolean;
+  modelError: string | null;
   gcodeFile: File | null;
+  toolPath: ToolPath | null;
+  // Holes drilled by canned cycles, outlined and labeled with their depth
+  holes: Hole[];
+  // Planned run time of the path; playback progress is a fraction of its total
+  timing: PathTiming | null;
+  // Spindle, coolant, dwell, stop and tool change events placed on the timing
+  events: TimedEvent[];
+  pathLoading: boolean;
+  // Share of the program parsed so far, null when no parse is running
+  pathProgress: number | null;
+  onCancelPath: () => void;
+  pathError: string | null;
+  simulation: SimulationSettings | null;
+  tools: Tool[];
+  // Where and how the loaded model sits on the machine
+  partSetup: PartSetup;
+  // Machine position of the program's work zero
+  workZero: Point3;
+  // Machine whose travel and table are drawn around the work
+  machine: MachineProfile;
+  // Planes cutting the part, stock and path open, and the depths of path shown
+  section: SectionSettings;
+  // Second program drawn over the loaded one or beside it in a synced split view,
+  // with the regions where the two diverge
+  comparePath: ToolPath | null;
+  compareRegions: DivergenceRegion[];
+  compareView: CompareView;
+  // Null while the path is being checked
+  onCollisionsChange?: (collisions: Collision[] | null) => void;
+  // Source line of the segment being machined (null before the first move)
+  onLineChange?: (line: number | null) => void;
+  // Source line of a path segment clicked in the view
+  onPathPick?: (line: number) => void;
 }
 
-export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
+// Playback speed multipliers over real machine time
+const PLAYBACK_SPEEDS = [1, 10, 100, 1000];
+
+// Machine time (s) past a stop before it can halt playback again
+const STOP_TOLERANCE = 1e-6;
+
+// Pointer travel (px) beyond which a click counts as an orbit drag
+const PICK_DRAG_TOLERANCE = 4;
+
+// Line pick distance as a fraction of the view height at the orbit target
+const PICK_THRESHOLD = 0.006;
+
+// Fill colors of faces cut by section planes
+const PART_CAP_COLOR = 0xb91c1c;
+const STOCK_CAP_COLOR = 0x9a6b3f;
+
+// Whether an intersection lies on a part of its object that clipping planes leave visible
+const isUnclipped = (hit: THREE.Intersection): boolean => {
+  const { material } = hit.object as THREE.Mesh;
+  const planes = Array.isArray(material) ? null : material.clippingPlanes;
+  return !planes || planes.every((plane) => plane.distanceToPoint(hit.point) >= 0);
+};
+
+// Panes of the four-way split in paneRects order; the single view shows only the first
+const PANES: { preset: ViewPreset; projection: Projection }[] = [
+  { preset: 'iso', projection: 'perspective' },
+  { preset: 'top', projection: 'orthographic' },
+  { preset: 'front', projection: 'orthographic' },
+  { preset: 'right', projection: 'orthographic' },
+];
+
+// Part surface sampling when no stock resolution has been chosen (mm)
+const PART_SURFACE_RESOLUTION = 0.5;
+
+// Triangle soup of a mesh whose geometry is already in machine coordinates
+const getPartTriangles = (mesh: THREE.Mesh): Float32Array => {
+  const geometry = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry;
+  const triangles = new Float32Array(geometry.getAttribute('position').array);
+  if (geometry !== mesh.geometry) geometry.dispose();
+  return triangles;
+};
+
+const DEGREES_TO_RADIANS = Math.PI / 180;
+
+// Aim a ray through the pointer from the pane it is over, keeping the line pick
+// radius roughly constant on screen as the view zooms
+const aimRay = (
+  raycaster: THREE.Raycaster,
+  event: PointerEvent,
+  element: HTMLElement,
+  viewports: Viewport[],
+  layout: ViewLayout
+) => {
+  const rect = element.getBoundingClientRect();
+  const x = event.clientX - rect.left;
+  const y = event.clientY - rect.top;
+  const panes = paneRects(layout, rect.width, rect.height);
+  const index = paneAt(panes, x, y);
+  const pane = panes[index];
+  const viewport = viewports[paneViewport(layout, index)];
+  if (!viewport) return false;
+  const pointer = new THREE.Vector2(
+    ((x - pane.x) / pane.width) * 2 - 1,
+    -((y - pane.y) / pane.height) * 2 + 1
+  );
+  raycaster.setFromCamera(pointer, viewCamera(viewport));
+  // Only what the pane shows can be hit
+  raycaster.layers.mask = paneLayerMask(layout, index);
+  raycaster.params.Line.threshold = visibleHalfHeight(viewport) * 2 * PICK_THRESHOLD;
+  return true;
+};
+
+// Path segment under a line hit; LineSegments report the first vertex of the hit segment
+const hitSegment = (hit: THREE.Intersection): number | null =>
+  hit.index === undefined ? null : (hit.object.userData.segments as Uint32Array)[Math.floor(hit.index / 2)];
+
+// Line objects of the loaded path, built once and revealed by draw range during playback
+interface PathLines {
+  group: THREE.Group;
+  cutting: THREE.LineSegments;
+  rapid: THREE.LineSegments;
+  // The segment being run, drawn up to the tool
+  head: THREE.LineSegments;
+}
+
+const disposePathLines = (lines: PathLines) => {
+  lines.cutting.geometry.dispose();
+  lines.rapid.geometry.dispose();
+  lines.head.geometry.dispose();
+};
+
+// Imperative controls exposed to the surrounding UI
+export interface SceneHandle {
+  seekToLine: (line: number) => void;
+  // Main pane's camera and the playback position, for saving in a project
+  getView: () => ProjectView;
+  restoreView: (view: ProjectView) => void;
+}
+
+export const Scene = forwardRef<SceneHandle, SceneProps>(({
+  modelFile,
+  model,
+  modelLoading,
+  modelError,
+  gcodeFile,
+  toolPath,
+  holes,
+  timing,
+  events,
+  pathLoading,
+  pathProgress,
+  onCancelPath,
+  pathError,
+  simulation,
+  tools,
+  partSetup,
+  workZero,
+  machine,
+  section,
+  comparePath,
+  compareRegions,
+  compareView,
+  onCollisionsChange,
+  onLineChange,
+  onPathPick,
+}, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-  const controlsRef = useRef<OrbitControls | null>(null);
   const labelRendererRef = useRef<CSS2DRenderer | null>(null);
+  // One viewport per entry of PANES, all drawing the same scene
+  const viewportsRef = useRef<Viewport[]>([]);
+  const layoutRef = useRef<ViewLayout>('single');
+  const [layout, setLayout] = useState<ViewLayout>('single');
+  // Pane the view buttons act on, the one last clicked or scrolled
+  const [activePane, setActivePane] = useState(0);
+  const [projections, setProjections] = useState<Projection[]>(() => PANES.map((pane) => pane.projection));
   
   // Refs for managing scene objects
   const currentModelMeshRef = useRef<THREE.Mesh | null>(null);
-  const toolPathRef = useRef<THREE.Line | null>(null);
-  const completePathPointsRef = useRef<THREE.Vector3[]>([]);
+  const pathLinesRef = useRef<PathLines | null>(null);
+  const pathBuffersRef = useRef<PathBuffers | null>(null);
+  const toolPathDataRef = useRef<ToolPath | null>(null);
+  const gcodeFileRef = useRef<File | null>(null);
+  const currentLineRef = useRef<number | null>(null);
+  // Clipping planes shared by reference with the materials they apply to: the
+  // section planes cut the part and stock, the path is also limited to the depth range
+  const solidPlanesRef = useRef<THREE.Plane[]>([]);
+  const pathPlanesRef = useRef<THREE.Plane[]>([]);
+  const cuttingMaterial = useMemo(() => new THREE.LineBasicMaterial({
+    vertexColors: true,
+    linewidth: 2,
+    clippingPlanes: pathPlanesRef.current,
+  }), []);
+  const rapidMaterial = useMemo(() => new THREE.LineDashedMaterial({
+    vertexColors: true,
+    dashSize: 2,
+    gapSize: 1.5,
+    clippingPlanes: pathPlanesRef.current,
+  }), []);
+
+  // Material removal simulation
+  const heightfieldRef = useRef<Heightfield | null>(null);
+  const stockMeshRef = useRef<THREE.Mesh | null>(null);
+  // Playback position the stock has been cut up to, as segment index plus fraction
+  const cutPositionRef = useRef(0);
+  // Part and stock meshes in the scene, kept as state so the section caps are rebuilt around them
+  const [partMesh, setPartMesh] = useState<THREE.Mesh | null>(null);
+  const [stockMesh, setStockMesh] = useState<THREE.Mesh | null>(null);
+
+  // Cutter model following the current point
+  const cutterMeshRef = useRef<THREE.Group | null>(null);
+  const cutterToolRef = useRef<Tool | null>(null);
+
+  // Path coloring
+  const [colorMode, setColorMode] = useState<PathColorMode>('moveType');
+  const [legend, setLegend] = useState<LegendEntry[]>([]);
   
   // Animation state
   const [isPlaying, setIsPlaying] = useState(false);
   const [progress, setProgress] = useState(0);
+  const progressRef = useRef(0);
+  // Latest animation update, so the path is only rebuilt when the path or its coloring changes
+  const updatePathAnimationRef = useRef<(progressValue: number) => void>(() => {});
   const animationFrameIdRef = useRef<number | null>(null);
   const lastTimeRef = useRef<number>(0);
-  const animationDuration = 5000; // 5 seconds for full path
-  const animationDurationRef = useRef(animationDuration);
+  // Whether the last frame ended at the very start, where a stop has had its chance to halt playback
+  const haltedAtStartRef = useRef(false);
+  const [speed, setSpeed] = useState(10);
 
-  // Hooks now handle default loading
-  const { model, isLoading: modelLoading, error: modelError } = useThreeSetup({ stlFile });
-  const { toolPath, isLoading: pathLoading, error: pathError } = useGCodeParser({ gcodeFile });
+  // Measurement
+  const [measureMode, setMeasureMode] = useState<MeasureMode>('off');
+  const [meshSnap, setMeshSnap] = useState<MeshSnap>('vertex');
+  // Finished measurements, kept until cleared
+  const measurementsRef = useRef<THREE.Group | null>(null);
+  // Part surface seen from above, for rapid clearance
+  const partSurfaceRef = useRef<Heightfield | null>(null);
+  // M0 always pauses playback; these add M1 optional stops and tool changes
+  const [stopAtOptional, setStopAtOptional] = useState(true);
+  const [stopAtToolChange, setStopAtToolChange] = useState(false);
 
-  // --- Utility Functions ---
-  const centerGeometryAtOrigin = useCallback((geometry: THREE.BufferGeometry) => {
-    geometry.computeBoundingBox();
-    if (!geometry.boundingBox) return geometry;
-    
-    const center = new THREE.Vector3();
-    geometry.boundingBox.getCenter(center);
-    geometry.translate(-center.x, -center.y, -center.z);
-    return geometry;
+  // Times (s) at which playback pauses by itself
+  const stopTimes = useMemo(
+    () => events
+      .filter(({ event }) =>
+        event.type === 'stop' ? !event.optional || stopAtOptional : event.type === 'toolChange' && stopAtToolChange
+      )
+      .map(({ time }) => time),
+    [events, stopAtOptional, stopAtToolChange]
+  );
+
+  // --- Tool Lookup ---
+  // Tools missing from the library fall back to the stock panel's cutter
+  const fallbackTool = useMemo<Tool>(
+    () => ({ ...DEFAULT_TOOL, ...simulation?.cutter }),
+    [simulation]
+  );
+
+  const resolveTool = useCallback(
+    (toolNumber: number) => findTool(tools, toolNumber) ?? fallbackTool,
+    [tools, fallbackTool]
+  );
+
+  const removeCutter = useCallback(() => {
+    if (cutterMeshRef.current) {
+      sceneRef.current?.remove(cutterMeshRef.current);
+      disposeCutterMesh(cutterMeshRef.current);
+      cutterMeshRef.current = null;
+      cutterToolRef.current = null;
+    }
   }, []);
 
+  // Place the active tool at the playback position (the path start before playback)
+  const updateCutter = useCallback((playback: PlaybackPoint) => {
+    const path = toolPathDataRef.current;
+    const currentScene = sceneRef.current;
+    if (!path || !currentScene || path.segmentCount === 0) return;
+
+    const tool = resolveTool(path.tools[Math.min(playback.segment, path.segmentCount - 1)]);
+    let cutter = cutterMeshRef.current;
+    if (!cutter || cutterToolRef.current !== tool) {
+      removeCutter();
+      cutter = createCutterMesh(tool);
+      cutterMeshRef.current = cutter;
+      cutterToolRef.current = tool;
+      currentScene.add(cutter);
+    }
+
+    const point = pointOnPath(path, playback.segment, playback.fraction);
+    cutter.position.set(point.x, point.y, point.z);
+  }, [resolveTool, removeCutter]);
+
+  // Where the tool is at the given playback progress
+  const playbackForProgress = useCallback(
+    (progressValue: number): PlaybackPoint =>
+      timing ? playbackAtTime(timing, progressValue * timing.totalTime) : { segment: 0, fraction: 0 },
+    [timing]
+  );
+
+  // --- Stock Simulation Logic ---
+  const advanceStock = useCallback((playback: PlaybackPoint) => {
+    const field = heightfieldRef.current;
+    const mesh = stockMeshRef.current;
+    const path = toolPathDataRef.current;
+    if (!field || !mesh || !path || !simulation) return;
+
+    // Material cannot be put back, so seeking backwards recuts from the start
+    let changed = false;
+    const position = playback.segment + playback.fraction;
+    if (position < cutPositionRef.current) {
+      resetHeightfield(field);
+      cutPositionRef.current = 0;
+      changed = true;
+    }
+
+    // Finish the segment cut part way last time, cut the ones passed since, then up to the tool
+    const cutSegmentPart = (segment: number, from: number, to: number) => {
+      changed = cutSegment(
+        field,
+        pointOnPath(path, segment, from),
+        pointOnPath(path, segment, to),
+        resolveTool(path.tools[segment])
+      ) || changed;
+    };
+    const start = Math.floor(cutPositionRef.current);
+    const startFraction = cutPositionRef.current - start;
+    if (start < playback.segment) {
+      if (startFraction > 0) cutSegmentPart(start, startFraction, 1);
+      const firstWhole = startFraction > 0 ? start + 1 : start;
+      changed = cutPathSegments(field, path, firstWhole, playback.segment, resolveTool) || changed;
+      if (playback.fraction > 0) cutSegmentPart(playback.segment, 0, playback.fraction);
+    } else if (playback.fraction > startFraction) {
+      cutSegmentPart(playback.segment, startFraction, playback.fraction);
+    }
+    cutPositionRef.current = position;
+
+    if (changed) updateStockMesh(mesh, field);
+  }, [simulation, resolveTool]);
+
   // --- Path Animation Logic ---
+  // The geometry stays on the GPU; playback only moves draw ranges and the head segment
   const updatePathAnimation = useCallback((progressValue: number) => {
-    if (completePathPointsRef.current.length === 0 || !sceneRef.current) return;
-    
-    // Remove previous animation line
-    if (toolPathRef.current) {
-      sceneRef.current.remove(toolPathRef.current);
-      toolPathRef.current.geometry.dispose();
+    const buffers = pathBuffersRef.current;
+    const lines = pathLinesRef.current;
+    const path = toolPathDataRef.current;
+    if (!buffers || !lines || !path) return;
+
+    const playback = playbackForProgress(progressValue);
+    const { segment, fraction } = playback;
+    lines.cutting.geometry.setDrawRange(0, buffers.cutting.prefix[segment] * 2);
+    lines.rapid.geometry.setDrawRange(0, buffers.rapid.prefix[segment] * 2);
+
+    const running = segment < buffers.segmentCount && fraction > 0;
+    lines.head.visible = running;
+    if (running) {
+      const isRapid = path.kinds[segment] === SegmentKind.Rapid;
+      const group = isRapid ? buffers.rapid : buffers.cutting;
+      const offset = (isRapid ? buffers.rapid.prefix[segment] : buffers.cutting.prefix[segment]) * 6;
+      const end = pointOnPath(path, segment, fraction);
+      const geometry = lines.head.geometry;
+      const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+      const color = geometry.getAttribute('color') as THREE.BufferAttribute;
+      position.set(group.positions.subarray(offset, offset + 3), 0);
+      position.set([end.x, end.y, end.z], 3);
+      color.set(group.colors.subarray(offset, offset + 6), 0);
+      position.needsUpdate = true;
+      color.needsUpdate = true;
+      geometry.computeBoundingSphere();
+      lines.head.material = isRapid ? rapidMaterial : cuttingMaterial;
+      if (isRapid) lines.head.computeLineDistances();
     }
-    
-    const totalPoints = completePathPointsRef.current.length;
-    const pointsToShow = progressValue <= 0 ? 0 : 
-                          progressValue >= 1 ? totalPoints :
-                          Math.max(2, Math.ceil(totalPoints * progressValue));
-    
-    // Create visible points array from our complete path
-    const visiblePoints = completePathPointsRef.current.slice(0, pointsToShow);
-    
-    // Create new geometry for the visible path
-    const geometry = new THREE.BufferGeometry().setFromPoints(visiblePoints);
-    const material = new THREE.LineBasicMaterial({ 
-      color: 0xff0000,
-      linewidth: 2
-    });
-    
-    // Create and add the visible path line
-    const pathLine = new THREE.Line(geometry, material);
-    // Offset slightly in the Z direction (up) to ensure visibility above the model
-    pathLine.position.z = 0.5; 
-    
-    toolPathRef.current = pathLine;
-    sceneRef.current.add(pathLine);
-  }, []);
+
+    advanceStock(playback);
+    updateCutter(playback);
+
+    // Line of the segment being run, or of the last one once the program has finished
+    const started = running ? segment + 1 : segment;
+    const line = started > 0 ? buffers.lines[started - 1] : null;
+    if (line !== currentLineRef.current) {
+      currentLineRef.current = line;
+      onLineChange?.(line);
+    }
+  }, [cuttingMaterial, rapidMaterial, advanceStock, updateCutter, playbackForProgress, onLineChange]);
 
   // --- Animation Handlers ---
   const animate = useCallback((currentTime: number) => {
@@ -97,21 +488,34 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
     const deltaTime = currentTime - lastTimeRef.current;
     lastTimeRef.current = currentTime;
 
-    // Update progress based on time delta
-    const newProgress = Math.min(1, progress + (deltaTime / animationDurationRef.current));
+    // Advance by machine time, scaled by the playback speed
+    const totalTime = timing?.totalTime ?? 0;
+    let newProgress = totalTime > 0 ? Math.min(1, progress + (deltaTime * speed) / (totalTime * 1000)) : 1;
+
+    // Halt at the first stop passed this frame; resuming from it moves on. Starting
+    // from the beginning also halts, once, at a stop scheduled before the first move.
+    const previousTime = progress * totalTime;
+    const fromStart = previousTime === 0 && !haltedAtStartRef.current;
+    const stopTime = stopTimes.find((time) =>
+      (fromStart || time > previousTime + STOP_TOLERANCE) && time <= newProgress * totalTime
+    );
+    if (stopTime !== undefined) newProgress = stopTime / totalTime;
+    haltedAtStartRef.current = newProgress === 0;
     
-    // Use a function to set state based on previous state to avoid React batching issues
-    setProgress((prevProgress) => newProgress);
+    setProgress(newProgress);
     updatePathAnimation(newProgress);
     
-    if (newProgress >= 1) {
+    if (stopTime !== undefined) {
+      setIsPlaying(false);
+      lastTimeRef.current = 0;
+    } else if (newProgress >= 1) {
       setIsPlaying(false);
       lastTimeRef.current = 0;
     } 
     
     // Always request next frame if function is called
     animationFrameIdRef.current = requestAnimationFrame(animate);
-  }, [isPlaying, progress, updatePathAnimation]);
+  }, [isPlaying, progress, updatePathAnimation, timing, speed, stopTimes]);
 
   useEffect(() => {
     // Set up animation loop when isPlaying changes
@@ -162,8 +566,18 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
     setIsPlaying(false);
     setProgress(0);
     lastTimeRef.current = 0;
-    updatePathAnimation(0);
-  }, [updatePathAnimation]);
+    haltedAtStartRef.current = false;
+    updatePathAnimationRef.current(0);
+  }, []);
+
+  // Jump to a time picked on the event timeline
+  const handleSeekTime = useCallback((time: number) => {
+    const totalTime = timing?.totalTime ?? 0;
+    const newProgress = totalTime > 0 ? Math.min(1, time / totalTime) : 0;
+    setIsPlaying(false);
+    setProgress(newProgress);
+    updatePathAnimation(newProgress);
+  }, [timing, updatePathAnimation]);
 
   const handleProgressChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const newProgress = Number.parseFloat(event.target.value);
@@ -175,20 +589,51 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
     }
   }, [updatePathAnimation]);
 
+  useImperativeHandle(ref, () => ({
+    seekToLine: (line: number) => {
+      const buffers = pathBuffersRef.current;
+      if (!buffers || buffers.segmentCount === 0 || !timing) return;
+
+      // Reveal the path up to the first segment produced by this line (or the next line that moves)
+      let segment = buffers.lines.findIndex((segmentLine) => segmentLine >= line);
+      if (segment === -1) segment = buffers.segmentCount - 1;
+      const newProgress = timing.totalTime > 0 ? Math.min(1, timing.endTimes[segment] / timing.totalTime) : 1;
+
+      setIsPlaying(false);
+      setProgress(newProgress);
+      updatePathAnimation(newProgress);
+    },
+    getView: () => ({
+      camera: viewPose(viewportsRef.current[0]),
+      progress: progressRef.current,
+    }),
+    restoreView: ({ camera, progress: newProgress }: ProjectView) => {
+      // Switched here so the projection effect finds the pane already set and keeps the pose
+      applyViewPose(viewportsRef.current[0], camera);
+      setProjections((current) => current.map((value, index) => (index === 0 ? camera.projection : value)));
+      setIsPlaying(false);
+      setProgress(newProgress);
+      updatePathAnimation(newProgress);
+    },
+  }), [updatePathAnimation, timing]);
+
   const handleResize = useCallback(() => {
-    if (!containerRef.current || !cameraRef.current || !rendererRef.current) return;
+    if (!containerRef.current || !rendererRef.current) return;
 
     const width = containerRef.current.clientWidth;
     const height = containerRef.current.clientHeight;
 
-    cameraRef.current.aspect = width / height;
-    cameraRef.current.updateProjectionMatrix();
+    const panes = paneRects(layoutRef.current, width, height);
+    panes.forEach((pane, index) => {
+      const viewport = viewportsRef.current[paneViewport(layoutRef.current, index)];
+      if (viewport) setViewportAspect(viewport, pane.width / pane.height);
+    });
 
     rendererRef.current.setSize(width, height);
     rendererRef.current.setPixelRatio(window.devicePixelRatio);
     
-    // Also resize label renderer
-    labelRendererRef.current?.setSize(width, height);
+    // Labels are drawn over the main pane only, which sits at the top left
+    labelRendererRef.current?.setSize(panes[0].width, panes[0].height);
   }, []);
 
   // --- Scene Setup Effect ---
@@ -201,18 +646,17 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
 
     const width = containerRef.current.clientWidth;
     const height = containerRef.current.clientHeight;
-    const camera = new THREE.PerspectiveCamera(45, width / height, 0.1, 2000);
-    // Position camera for a clear view with Z as up
-    camera.position.set(100, -100, 80);
-    camera.up.set(0, 0, 1); // Set Z as the up vector
-    camera.lookAt(0, 0, 0);
-    cameraRef.current = camera;
-
-    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
+
+    // Section caps are masked with the stencil buffer, which three.js leaves out by default
+    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, stencil: true });
     renderer.setSize(width, height);
     renderer.setPixelRatio(window.devicePixelRatio);
     renderer.shadowMap.enabled = true;
     renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    // Each pane draws into its own part of the canvas
+    renderer.setScissorTest(true);
+    // Section planes clip per material
+    renderer.localClippingEnabled = true;
     mountRef.current.appendChild(renderer.domElement);
     rendererRef.current = renderer;
 
@@ -225,20 +669,11 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
     mountRef.current.appendChild(labelRenderer.domElement);
     labelRendererRef.current = labelRenderer;
 
-    const controls = new OrbitControls(camera, renderer.domElement);
-    controls.enableDamping = true;
-    controls.dampingFactor = 0.05;
-    controls.screenSpacePanning = true;
-    controls.minDistance = 50;
-    controls.maxDistance = 500;
-    controls.target.set(0, 0, 0);
-    controls.rotateSpeed = 1.0;
-    controls.zoomSpeed = 1.2;
-    controls.panSpeed = 0.8;
-    // Update camera's up vector instead since OrbitControls uses the camera's up vector
-    camera.up.set(0, 0, 1);
-    controls.update();
-    controlsRef.current = controls;
+    const viewports = PANES.map((pane) => createViewport(renderer.domElement, pane.preset, pane.projection));
+    viewports.forEach((viewport, index) => {
+      viewport.controls.enabled = index === 0;
+    });
+    viewportsRef.current = viewports;
 
     // Improved lighting setup
     const ambientLight = new THREE.AmbientLight(0xffffff, 0.4);
@@ -262,13 +697,6 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
     fillLight.position.set(-100, 100, -100);
     scene.add(fillLight);
 
-    const gridSize = 200;
-    const gridDivisions = 20;
-    const gridHelper = new THREE.GridHelper(gridSize, gridDivisions, 0x888888, 0xdddddd);
-    // Rotate grid to XY plane (with Z up)
-    gridHelper.rotation.x = Math.PI / 2;
-    scene.add(gridHelper);
-
     // Add axis helper to visualize the coordinate system
     const axisHelper = new THREE.AxesHelper(50);
     scene.add(axisHelper);
@@ -297,11 +725,27 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
     // Main render loop (separated from animation)
     const renderLoop = () => {
       requestAnimationFrame(renderLoop);
-      controlsRef.current?.update();
-      
-      if (rendererRef.current && sceneRef.current && cameraRef.current) {
-        rendererRef.current.render(sceneRef.current, cameraRef.current);
-        labelRendererRef.current?.render(sceneRef.current, cameraRef.current);
+      const currentRenderer = rendererRef.current;
+      const currentScene = sceneRef.current;
+      if (!currentRenderer || !currentScene) return;
+
+      // WebGL viewports are measured from the bottom of the canvas
+      const size = currentRenderer.getSize(new THREE.Vector2());
+      const layoutNow = layoutRef.current;
+      const panes = paneRects(layoutNow, size.x, size.y);
+      viewportsRef.current.forEach((viewport) => viewport.controls.update());
+      panes.forEach((pane, index) => {
+        const viewport = viewportsRef.current[paneViewport(layoutNow, index)];
+        if (!viewport) return;
+        const camera = viewCamera(viewport);
+        camera.layers.mask = paneLayerMask(layoutNow, index);
+        const bottom = size.y - pane.y - pane.height;
+        currentRenderer.setViewport(pane.x, bottom, pane.width, pane.height);
+        currentRenderer.setScissor(pane.x, bottom, pane.width, pane.height);
+        currentRenderer.render(currentScene, camera);
+      });
+      if (viewportsRef.current[0]) {
+        labelRendererRef.current?.render(currentScene, viewCamera(viewportsRef.current[0]));
       }
     };
     requestAnimationFrame(renderLoop);
@@ -326,10 +770,87 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
       
       // Clean up resources
       rendererRef.current?.dispose();
-      controlsRef.current?.dispose();
+      viewportsRef.current.forEach(disposeViewport);
+      viewportsRef.current = [];
     };
   }, [handleResize]); // Only core setup dependencies
 
+  // --- View Layout Effect ---
+  // Comparing side by side takes over the layout until the comparison ends
+  const viewLayout: ViewLayout = comparePath && compareView === 'split' ? 'split' : layout;
+
+  useEffect(() => {
+    layoutRef.current = viewLayout;
+    // A new layout starts out steered from the main pane
+    viewportsRef.current.forEach((viewport, index) => {
+      viewport.controls.enabled = index === 0;
+    });
+    setActivePane(0);
+    handleResize();
+  }, [viewLayout, handleResize]);
+
+  useEffect(() => {
+    viewportsRef.current.forEach((viewport, index) => setProjection(viewport, projections[index]));
+  }, [projections]);
+
+  // Hand the orbit controls to the pane under the pointer before they see the event
+  useEffect(() => {
+    const element = rendererRef.current?.domElement;
+    if (!element) return;
+    const activate = (event: PointerEvent | WheelEvent) => {
+      const rect = element.getBoundingClientRect();
+      const panes = paneRects(layoutRef.current, rect.width, rect.height);
+      const index = paneViewport(layoutRef.current, paneAt(panes, event.clientX - rect.left, event.clientY - rect.top));
+      viewportsRef.current.forEach((viewport, paneIndex) => {
+        viewport.controls.enabled = paneIndex === index;
+      });
+      setActivePane(index);
+    };
+    element.addEventListener('pointerdown', activate, { capture: true });
+    element.addEventListener('wheel', activate, { capture: true });
+    return () => {
+      element.removeEventListener('pointerdown', activate, { capture: true });
+      element.removeEventListener('wheel', activate, { capture: true });
+    };
+  }, []);
+
+  const handleViewPreset = useCallback((preset: ViewPreset) => {
+    const viewport = viewportsRef.current[activePane];
+    if (viewport) applyViewPreset(viewport, preset);
+  }, [activePane]);
+
+  const handleProjectionChange = useCallback((projection: Projection) => {
+    setProjections((current) => current.map((value, index) => (index === activePane ? projection : value)));
+  }, [activePane]);
+
+  // Frame the part or the path in every pane
+  const handleFit = useCallback((target: 'part' | 'path') => {
+    const mesh = currentModelMeshRef.current;
+    const path = toolPathDataRef.current;
+    let box: THREE.Box3 | null = null;
+    if (target === 'part' && mesh) {
+      mesh.geometry.computeBoundingBox();
+      box = mesh.geometry.boundingBox;
+    } else if (target === 'path' && path) {
+      box = new THREE.Box3().setFromArray(path.positions);
+    }
+    if (!box) return;
+    const frame = box;
+    viewportsRef.current.forEach((viewport) => frameBox(viewport, frame));
+  }, []);
+
+  // --- Machine Envelope Effect ---
+  useEffect(() => {
+    const currentScene = sceneRef.current;
+    if (!currentScene) return;
+    const envelope = createMachineEnvelope(machine);
+    currentScene.add(envelope);
+    return () => {
+      currentScene.remove(envelope);
+      disposeMachineEnvelope(envelope);
+    };
+  }, [machine]);
+
   // --- Model Management Effect ---
   useEffect(() => {
     const currentScene = sceneRef.current;
@@ -341,15 +862,44 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
       currentModelMeshRef.current = null;
     }
 
-    // Create a clone to avoid modifying the original
+    // Create a clone with its own geometry to avoid modifying the original
     const modelClone = model.clone();
-    
-    // Center and add the model
-    modelClone.geometry = centerGeometryAtOrigin(modelClone.geometry);
+    const geometry = model.geometry.clone();
+
+    // Scale and rotate, then move the part's origin onto its target in machine coordinates
+    const { rotation, scale } = partSetup.transform;
+    geometry.applyMatrix4(new THREE.Matrix4().compose(
+      new THREE.Vector3(),
+      new THREE.Quaternion().setFromEuler(new THREE.Euler(
+        rotation.x * DEGREES_TO_RADIANS,
+        rotation.y * DEGREES_TO_RADIANS,
+        rotation.z * DEGREES_TO_RADIANS
+      )),
+      new THREE.Vector3(scale, scale, scale)
+    ));
+    geometry.computeBoundingBox();
+    if (geometry.boundingBox) {
+      const stock = simulation?.stock;
+      const placement = partPlacement(
+        geometry.boundingBox,
+        partSetup,
+        workZero,
+        stock
+          ? {
+              min: stock.origin,
+              max: {
+                x: stock.origin.x + stock.size.x,
+                y: stock.origin.y + stock.size.y,
+                z: stock.origin.z + stock.size.z,
+              },
+            }
+          : null
+      );
+      geometry.translate(placement.x, placement.y, placement.z);
+    }
+    modelClone.geometry = geometry;
     modelClone.position.set(0, 0, 0);
-    
-    // Orient the model correctly for Z-up coordinate system
-    // No rotation needed since Z is already up by default
+    (modelClone.material as THREE.Material).clippingPlanes = solidPlanesRef.current;
     
     // Enable shadows on the model
     modelClone.castShadow = true;
@@ -357,6 +907,7 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
     
     currentScene.add(modelClone);
     currentModelMeshRef.current = modelClone;
+    setPartMesh(modelClone);
 
     // Cleanup function
     return () => {
@@ -364,54 +915,407 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
         currentScene.remove(currentModelMeshRef.current);
         currentModelMeshRef.current = null;
       }
+      setPartMesh(null);
+      geometry.dispose();
     };
-  }, [model, centerGeometryAtOrigin]); // Depend on model changes
+  }, [model, partSetup, workZero, simulation]); // Depend on model and placement changes
 
   // --- Path Management Effect ---
   useEffect(() => {
-    // Reset animation state when path changes
-    handleReset();
-    
-    if (!toolPath || !sceneRef.current) return;
+    progressRef.current = progress;
+  }, [progress]);
 
-    // Extract path points from the geometry
-    const extractPathPoints = () => {
-      // Create a clone to avoid modifying the original
-      const geometry = toolPath.geometry.clone();
-      centerGeometryAtOrigin(geometry);
-      
-      // Extract points from the buffer geometry
-      const positionAttribute = geometry.getAttribute('position');
-      const points: THREE.Vector3[] = [];
-      
-      for (let i = 0; i < positionAttribute.count; i++) {
-        // For standard CNC operations, we get x,y,z directly
-        // No need to swap coordinates since we're using standard XYZ
-        const x = positionAttribute.getX(i);
-        const y = positionAttribute.getY(i);
-        const z = positionAttribute.getZ(i);
-        points.push(new THREE.Vector3(x, y, z));
+  // Declared before the path effect so a new path is drawn with its own timing
+  useEffect(() => {
+    updatePathAnimationRef.current = updatePathAnimation;
+  }, [updatePathAnimation]);
+
+  useEffect(() => {
+    // Edits to the loaded program keep the playback position; a new file restarts
+    const fileChanged = gcodeFileRef.current !== gcodeFile;
+    gcodeFileRef.current = gcodeFile;
+    toolPathDataRef.current = toolPath;
+
+    if (!toolPath || !sceneRef.current) {
+      handleReset();
+      setLegend([]);
+      if (currentLineRef.current !== null) {
+        currentLineRef.current = null;
+        onLineChange?.(null);
       }
-      
-      return points;
+      return;
+    }
+
+    const coloring = colorToolPath(toolPath, colorMode);
+    const buffers = splitPathByKind(toolPath, coloring.colors);
+    pathBuffersRef.current = buffers;
+
+    // Upload the whole path once; cutting moves are drawn solid, rapids dashed so they stand out
+    const createLines = (positions: Float32Array, colors: Float32Array, material: THREE.Material) => {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+      geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+      return new THREE.LineSegments(geometry, material);
     };
+    const cutting = createLines(buffers.cutting.positions, buffers.cutting.colors, cuttingMaterial);
+    const rapid = createLines(buffers.rapid.positions, buffers.rapid.colors, rapidMaterial);
+    rapid.computeLineDistances();
+    const head = createLines(new Float32Array(6), new Float32Array(6), cuttingMaterial);
+    head.visible = false;
+    head.frustumCulled = false;
+    // Picking maps a hit back to its path segment through these
+    cutting.userData.segments = buffers.cutting.segments;
+    rapid.userData.segments = buffers.rapid.segments;
 
-    completePathPointsRef.current = extractPathPoints();
-    
-    // Create initial empty path
-    updatePathAnimation(0);
+    const group = new THREE.Group();
+    group.add(cutting, rapid, head);
+    // The split comparison view shows this path only in its first half
+    group.traverse((object) => object.layers.set(BASE_PATH_LAYER));
+    sceneRef.current.add(group);
+    const lines: PathLines = { group, cutting, rapid, head };
+    pathLinesRef.current = lines;
+
+    // The path is drawn in machine coordinates, so bring a new one into view
+    if (fileChanged) {
+      const box = new THREE.Box3().setFromArray(toolPath.positions);
+      viewportsRef.current.forEach((viewport) => frameBox(viewport, box));
+    }
+    setLegend(coloring.legend);
+
+    // A new file restarts playback; edits and a new color mode keep the current position
+    if (fileChanged) {
+      handleReset();
+    } else {
+      updatePathAnimationRef.current(progressRef.current);
+    }
     
     // Clean up on unmount or when the path changes
     return () => {
-      if (toolPathRef.current && sceneRef.current) {
-        sceneRef.current.remove(toolPathRef.current);
-        toolPathRef.current.geometry.dispose();
-        toolPathRef.current = null;
-      }
+      lines.group.removeFromParent();
+      disposePathLines(lines);
+      pathLinesRef.current = null;
+      removeCutter();
       
-      completePathPointsRef.current = [];
+      pathBuffersRef.current = null;
+    };
+  }, [
+    toolPath,
+    gcodeFile,
+    colorMode,
+    cuttingMaterial,
+    rapidMaterial,
+    handleReset,
+    removeCutter,
+    onLineChange,
+  ]);
+
+  // --- Stock Management Effect ---
+  useEffect(() => {
+    const currentScene = sceneRef.current;
+    if (!currentScene || !toolPath || !simulation) return;
+
+    const field = createHeightfield(simulation.stock, simulation.resolution);
+    const mesh = createStockMesh(field);
+    (mesh.material as THREE.Material).clippingPlanes = solidPlanesRef.current;
+    currentScene.add(mesh);
+    heightfieldRef.current = field;
+    stockMeshRef.current = mesh;
+    setStockMesh(mesh);
+    cutPositionRef.current = 0;
+
+    // Catch up with the current playback position
+    advanceStock(playbackForProgress(progressRef.current));
+
+    return () => {
+      currentScene.remove(mesh);
+      disposeStockMesh(mesh);
+      heightfieldRef.current = null;
+      stockMeshRef.current = null;
+      setStockMesh(null);
+    };
+  }, [toolPath, simulation, advanceStock, playbackForProgress]);
+
+  // --- Section Effect ---
+  useEffect(() => {
+    const currentScene = sceneRef.current;
+    if (!currentScene) return;
+    const planes = sectionPlanes(section);
+    setPlanes(solidPlanesRef.current, planes);
+    setPlanes(pathPlanesRef.current, [...planes, ...depthPlanes(section)]);
+    if (planes.length === 0) return;
+
+    const solids: SectionSolid[] = [];
+    if (partMesh) solids.push({ mesh: partMesh, capColor: PART_CAP_COLOR });
+    if (stockMesh) solids.push({ mesh: stockMesh, capColor: STOCK_CAP_COLOR });
+    const caps = createSectionCaps(solids, planes);
+    currentScene.add(caps);
+    return () => {
+      currentScene.remove(caps);
+      disposeSectionCaps(caps);
+    };
+  }, [section, partMesh, stockMesh]);
+
+  // --- Comparison Effect ---
+  useEffect(() => {
+    const currentScene = sceneRef.current;
+    if (!currentScene || !comparePath) return;
+    const overlay = createComparisonOverlay(comparePath, compareRegions, pathPlanesRef.current);
+    currentScene.add(overlay);
+    return () => {
+      currentScene.remove(overlay);
+      disposeComparisonOverlay(overlay);
+    };
+  }, [comparePath, compareRegions]);
+
+  // --- Collision Detection Effect ---
+  // Checked in a worker, which is dropped as soon as the inputs change
+  useEffect(() => {
+    const currentScene = sceneRef.current;
+    const modelMesh = currentModelMeshRef.current;
+    partSurfaceRef.current = null;
+    if (!currentScene || !toolPath) {
+      onCollisionsChange?.([]);
+      return;
+    }
+
+    onCollisionsChange?.(null);
+    const worker = new Worker(new URL('../../workers/collisionCheck.worker.ts', import.meta.url));
+    let markers: THREE.Group | null = null;
+    worker.onmessage = (event: MessageEvent<CollisionResponse>) => {
+      const response = event.data;
+      worker.terminate();
+      if (response.type === 'error') {
+        console.error('Error checking collisions:', response.message);
+        onCollisionsChange?.([]);
+        return;
+      }
+      partSurfaceRef.current = response.part;
+      onCollisionsChange?.(response.collisions);
+      markers = createCollisionMarkers(response.collisions);
+      currentScene.add(markers);
+    };
+
+    // The model effect has already placed the mesh in machine coordinates, like the path
+    const triangles = model && modelMesh ? getPartTriangles(modelMesh) : null;
+    const request: CollisionRequest = {
+      path: toolPath,
+      triangles,
+      resolution: simulation?.resolution ?? PART_SURFACE_RESOLUTION,
+      tools,
+      fallbackTool,
+      simulation,
+    };
+    // The path is still drawn here, so only the triangles are handed over
+    worker.postMessage(request, triangles ? [triangles.buffer] : []);
+
+    return () => {
+      worker.terminate();
+      if (markers) {
+        currentScene.remove(markers);
+        disposeCollisionMarkers(markers);
+      }
+    };
+  }, [model, toolPath, simulation, tools, fallbackTool, partSetup, workZero, onCollisionsChange]);
+
+  // --- Hole Marker Effect ---
+  useEffect(() => {
+    const currentScene = sceneRef.current;
+    if (!currentScene || holes.length === 0) return;
+    const markers = createHoleMarkers(holes, resolveTool);
+    currentScene.add(markers);
+    return () => {
+      currentScene.remove(markers);
+      disposeHoleMarkers(markers);
+    };
+  }, [holes, resolveTool]);
+
+  // --- Path Picking Effect ---
+  useEffect(() => {
+    const element = rendererRef.current?.domElement;
+    // Clicks measure instead while a measure mode is on
+    if (!element || !onPathPick || measureMode !== 'off') return;
+
+    const raycaster = new THREE.Raycaster();
+    let downX = 0;
+    let downY = 0;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      downX = event.clientX;
+      downY = event.clientY;
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      // A drag orbits the camera; only a click picks
+      if (Math.hypot(event.clientX - downX, event.clientY - downY) > PICK_DRAG_TOLERANCE) return;
+      const lines = pathLinesRef.current;
+      const buffers = pathBuffersRef.current;
+      if (!lines || !buffers || !aimRay(raycaster, event, element, viewportsRef.current, layoutRef.current)) return;
+
+      // Only revealed segments are hit; parts cut away by the section are skipped
+      const hit = raycaster.intersectObjects([lines.cutting, lines.rapid], false).find(isUnclipped);
+      const segment = hit ? hitSegment(hit) : null;
+      if (segment !== null) onPathPick(buffers.lines[segment]);
+    };
+
+    element.addEventListener('pointerdown', handlePointerDown);
+    element.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointerup', handlePointerUp);
     };
-  }, [toolPath, updatePathAnimation, handleReset, centerGeometryAtOrigin]);
+  }, [onPathPick, measureMode]);
+
+  // --- Measurement Effect ---
+  useEffect(() => {
+    const currentScene = sceneRef.current;
+    if (!currentScene) return;
+    const measurements = new THREE.Group();
+    currentScene.add(measurements);
+    measurementsRef.current = measurements;
+    return () => {
+      currentScene.remove(measurements);
+      disposeMeasurement(measurements);
+      measurementsRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const currentScene = sceneRef.current;
+    const element = rendererRef.current?.domElement;
+    if (!currentScene || !element || measureMode === 'off') return;
+
+    const raycaster = new THREE.Raycaster();
+    // The first point of a distance and the hover readout, which go with the mode
+    const overlay = new THREE.Group();
+    currentScene.add(overlay);
+    const hoverLabel = createMeasureLabel('', new THREE.Vector3());
+    const hoverMarker = createPointMarkers([new THREE.Vector3()]);
+    hoverLabel.visible = hoverMarker.visible = false;
+    overlay.add(hoverLabel, hoverMarker);
+    let pending: { point: THREE.Vector3; marker: THREE.Points } | null = null;
+    let hoverFrame: number | null = null;
+    let downX = 0;
+    let downY = 0;
+
+    // First hit among the objects under the pointer that the section leaves visible
+    const cast = (event: PointerEvent, objects: THREE.Object3D[]) => {
+      if (!aimRay(raycaster, event, element, viewportsRef.current, layoutRef.current)) return undefined;
+      return raycaster.intersectObjects(objects, false).find(isUnclipped);
+    };
+    const pathObjects = (rapidOnly = false): THREE.Object3D[] => {
+      const lines = pathLinesRef.current;
+      return !lines ? [] : rapidOnly ? [lines.rapid] : [lines.cutting, lines.rapid];
+    };
+
+    const measureDistance = (event: PointerEvent) => {
+      const path = toolPathDataRef.current;
+      const model = currentModelMeshRef.current;
+      const hit = cast(event, model ? [...pathObjects(), model] : pathObjects());
+      if (!hit) return;
+      const segment = hitSegment(hit);
+      const point = segment !== null && path
+        ? snapToPathVertex(path.positions, segment, hit.point)
+        : snapToMesh(hit, meshSnap);
+
+      if (!pending) {
+        const marker = createPointMarkers([point]);
+        overlay.add(marker);
+        pending = { point, marker };
+        return;
+      }
+      measurementsRef.current?.add(createDistanceMeasurement(pending.point, point));
+      overlay.remove(pending.marker);
+      disposeMeasurement(pending.marker);
+      pending = null;
+    };
+
+    const measureClearance = (event: PointerEvent) => {
+      const path = toolPathDataRef.current;
+      const hit = cast(event, pathObjects(true));
+      const segment = hit ? hitSegment(hit) : null;
+      if (!hit || segment === null || !path) return;
+
+      const part = partSurfaceRef.current;
+      const offset = segment * 6;
+      const from = { x: path.positions[offset], y: path.positions[offset + 1], z: path.positions[offset + 2] };
+      const to = { x: path.positions[offset + 3], y: path.positions[offset + 4], z: path.positions[offset + 5] };
+      const clearance = part && segmentClearance(part, from, to, resolveTool(path.tools[segment]));
+      const line = path.lines[segment];
+      measurementsRef.current?.add(
+        clearance
+          ? createClearanceMeasurement(clearance.position, clearance.gap, line)
+          : createMeasureLabel(`${part ? 'Rapid does not pass over the part' : 'No part loaded'}\nLine ${line}`, hit.point)
+      );
+    };
+
+    const inspect = (event: PointerEvent) => {
+      const path = toolPathDataRef.current;
+      const hit = cast(event, pathObjects());
+      const segment = hit ? hitSegment(hit) : null;
+      if (!hit || segment === null || !path) {
+        hoverLabel.visible = hoverMarker.visible = false;
+        return;
+      }
+      const point = snapToPathVertex(path.positions, segment, hit.point);
+      const motion = path.kinds[segment] === SegmentKind.Rapid ? 'Rapid' : `F${Math.round(path.feeds[segment])}`;
+      hoverLabel.element.textContent = `${formatPoint(point)}\nLine ${path.lines[segment]} · ${motion}`;
+      hoverLabel.position.copy(point);
+      hoverMarker.geometry.setFromPoints([point]);
+      hoverLabel.visible = hoverMarker.visible = true;
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      downX = event.clientX;
+      downY = event.clientY;
+    };
+    const handlePointerUp = (event: PointerEvent) => {
+      // A drag orbits the camera; only a click measures
+      if (Math.hypot(event.clientX - downX, event.clientY - downY) > PICK_DRAG_TOLERANCE) return;
+      if (measureMode === 'distance') measureDistance(event);
+      else if (measureMode === 'clearance') measureClearance(event);
+    };
+    // Raycast at most once a frame while the pointer moves
+    const handlePointerMove = (event: PointerEvent) => {
+      if (measureMode !== 'inspect' || hoverFrame !== null) return;
+      hoverFrame = requestAnimationFrame(() => {
+        hoverFrame = null;
+        inspect(event);
+      });
+    };
+    const handlePointerLeave = () => {
+      hoverLabel.visible = hoverMarker.visible = false;
+    };
+
+    element.addEventListener('pointerdown', handlePointerDown);
+    element.addEventListener('pointerup', handlePointerUp);
+    element.addEventListener('pointermove', handlePointerMove);
+    element.addEventListener('pointerleave', handlePointerLeave);
+    return () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointerup', handlePointerUp);
+      element.removeEventListener('pointermove', handlePointerMove);
+      element.removeEventListener('pointerleave', handlePointerLeave);
+      if (hoverFrame !== null) cancelAnimationFrame(hoverFrame);
+      currentScene.remove(overlay);
+      disposeMeasurement(overlay);
+    };
+  }, [measureMode, meshSnap, resolveTool]);
+
+  const handleClearMeasurements = useCallback(() => {
+    const measurements = measurementsRef.current;
+    if (!measurements) return;
+    for (const measurement of [...measurements.children]) {
+      measurements.remove(measurement);
+      disposeMeasurement(measurement);
+    }
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      cuttingMaterial.dispose();
+      rapidMaterial.dispose();
+    };
+  }, [cuttingMaterial, rapidMaterial]);
 
   // --- JSX Rendering ---
   return (
@@ -434,26 +1338,109 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
         >
           {isPlaying ? '⏸ Pause' : '▶ Play'}
         </button>
-        <input
-          type="range"
-          min="0"
-          max="1"
-          step="0.001"
-          value={progress}
-          onChange={handleProgressChange}
-          className="w-64"
-        />
-        <span className="text-sm text-gray-600">
-          {Math.round(progress * 100)}%
+        <div className="w-96 space-y-1">
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="any"
+            value={progress}
+            onChange={handleProgressChange}
+            className="w-full"
+          />
+          <EventTimeline events={events} totalTime={timing?.totalTime ?? 0} onSeek={handleSeekTime} />
+        </div>
+        <span className="text-sm text-gray-600 tabular-nums">
+          {formatDuration(progress * (timing?.totalTime ?? 0))} / {formatDuration(timing?.totalTime ?? 0)}
         </span>
+        <select
+          value={speed}
+          onChange={(event) => setSpeed(Number.parseFloat(event.target.value))}
+          className="border border-gray-300 rounded px-2 py-1 text-sm text-gray-700"
+          title="Playback speed"
+        >
+          {PLAYBACK_SPEEDS.map((value) => (
+            <option key={value} value={value}>{value}×</option>
+          ))}
+        </select>
+        <div className="text-xs text-gray-600 space-y-1">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={stopAtOptional}
+              onChange={(event) => setStopAtOptional(event.target.checked)}
+            />
+            Stop at M1
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={stopAtToolChange}
+              onChange={(event) => setStopAtToolChange(event.target.checked)}
+            />
+            Stop at tool changes
+          </label>
+        </div>
       </div>
 
+      {/* Path Legend */}
+      {toolPath && (
+        <PathLegend mode={colorMode} entries={legend} onModeChange={setColorMode} />
+      )}
+
+      {/* Split view outlines; the active pane is the one the view buttons act on */}
+      {viewLayout === 'quad' && (
+        <div className="absolute inset-0 grid grid-cols-2 grid-rows-2 pointer-events-none">
+          {PANES.map((pane, index) => (
+            <div
+              key={pane.preset}
+              className={`border ${index === activePane ? 'border-blue-500' : 'border-gray-300'}`}
+            />
+          ))}
+        </div>
+      )}
+
+      {viewLayout === 'split' && (
+        <div className="absolute inset-0 grid grid-cols-2 pointer-events-none">
+          {['Loaded program', 'Compared program'].map((label, index) => (
+            <div key={label} className="border border-gray-300 flex items-end justify-center pb-32">
+              <span
+                className="px-2 py-1 rounded bg-white shadow text-sm font-medium"
+                style={{ color: index === 1 ? `#${COMPARE_PATH_COLOR.toString(16)}` : undefined }}
+              >
+                {label}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ViewToolbar
+        layout={viewLayout}
+        projection={projections[activePane]}
+        canFitPart={model !== null}
+        canFitPath={toolPath !== null}
+        onPreset={handleViewPreset}
+        onProjectionChange={handleProjectionChange}
+        onFit={handleFit}
+        onLayoutChange={setLayout}
+      />
+
+      {/* Measurement */}
+      <MeasureToolbar
+        mode={measureMode}
+        snap={meshSnap}
+        onModeChange={setMeasureMode}
+        onSnapChange={setMeshSnap}
+        onClear={handleClearMeasurements}
+      />
+
       {/* File Status */}
       <div className="absolute top-4 right-4 space-y-2">
-        <div className={`px-4 py-2 rounded shadow ${stlFile ? 'bg-green-600' : 'bg-gray-600'} text-white`}>
-          <span className="font-medium">STL Model:</span>{' '}
+        <div className={`px-4 py-2 rounded shadow ${modelFile ? 'bg-green-600' : 'bg-gray-600'} text-white`}>
+          <span className="font-medium">Model:</span>{' '}
           <span className="text-sm">
-            {stlFile ? stlFile.name : 'Using default model'}
+            {modelFile ? modelFile.name : 'Using default model'}
           </span>
         </div>
         <div className={`px-4 py-2 rounded shadow ${gcodeFile ? 'bg-green-600' : 'bg-gray-600'} text-white`}>
@@ -465,7 +1452,23 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
       </div>
 
       {/* Loading and Error States */}
-      {(modelLoading || pathLoading) && (
+      {pathProgress !== null ? (
+        <div className="absolute top-24 right-4 w-64 bg-blue-100 px-4 py-2 rounded shadow space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span>Parsing G-code... {Math.round(pathProgress * 100)}%</span>
+            <button
+              type="button"
+              onClick={onCancelPath}
+              className="text-red-500 hover:text-red-700 font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+          <div className="h-2 bg-blue-200 rounded overflow-hidden">
+            <div className="h-full bg-blue-600" style={{ width: `${pathProgress * 100}%` }} />
+          </div>
+        </div>
+      ) : (modelLoading || pathLoading) && (
         <div className="absolute top-24 right-4 bg-blue-100 px-4 py-2 rounded shadow">
           Loading...
         </div>
@@ -477,4 +1480,6 @@ export const Scene: React.FC<SceneProps> = ({ stlFile, gcodeFile }) => {
       )}
     </div>
   );
-}; 
\ No newline at end of file
+});
+
+Scene.displayName = 'Scene';
@@ -0,0 +1,61 @@
+import { VIEW_PRESETS, type Projection, type ViewLayout, type ViewPreset } from './viewports';
+
+interface ViewToolbarProps {
+  layout: ViewLayout;
+  // Projection of the pane the buttons act on
+  projection: Projection;
+  canFitPart: boolean;
+  canFitPath: boolean;
+  onPreset: (preset: ViewPreset) => void;
+  onProjectionChange: (projection: Projection) => void;
+  onFit: (target: 'part' | 'path') => void;
+  onLayoutChange: (layout: ViewLayout) => void;
+}
+
+const BUTTON = 'w-full px-2 py-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:hover:bg-gray-100';
+
+export const ViewToolbar: React.FC<ViewToolbarProps> = ({
+  layout,
+  projection,
+  canFitPart,
+  canFitPath,
+  onPreset,
+  onProjectionChange,
+  onFit,
+  onLayoutChange,
+}) => (
+  <div className="absolute left-4 top-1/2 -translate-y-1/2 w-20 bg-white p-2 rounded-lg shadow-lg text-sm space-y-1">
+    <p className="font-medium text-gray-700">View</p>
+    {VIEW_PRESETS.map(({ value, label }) => (
+      <button key={value} type="button" onClick={() => onPreset(value)} className={BUTTON}>
+        {label}
+      </button>
+    ))}
+    <button
+      type="button"
+      onClick={() => onProjectionChange(projection === 'perspective' ? 'orthographic' : 'perspective')}
+      className={BUTTON}
+      title="Switch between perspective and orthographic projection"
+    >
+      {projection === 'perspective' ? 'Persp' : 'Ortho'}
+    </button>
+    <div className="border-t border-gray-200 pt-1 space-y-1">
+      <button type="button" onClick={() => onFit('part')} disabled={!canFitPart} className={BUTTON}>
+        Fit part
+      </button>
+      <button type="button" onClick={() => onFit('path')} disabled={!canFitPath} className={BUTTON}>
+        Fit path
+      </button>
+    </div>
+    <button
+      type="button"
+      onClick={() => onLayoutChange(layout === 'single' ? 'quad' : 'single')}
+      // The side by side comparison holds the layout while it is shown
+      disabled={layout === 'split'}
+      className={`w-full px-2 py-1 rounded-md disabled:opacity-50 ${layout === 'quad' ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+      title="Show top, front and right views beside the main one"
+    >
+      4 views
+    </button>
+  </div>
+);
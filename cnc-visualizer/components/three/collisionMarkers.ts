@@ -0,0 +1,30 @@
+import * as THREE from 'three';
+import type { Collision } from '../../lib/sim';
+
+// Beyond this many markers the scene only gets slower, not clearer
+const MAX_MARKERS = 1000;
+const MARKER_RADIUS = 1.5;
+
+// Red spheres at each collision's tool tip position
+export const createCollisionMarkers = (collisions: Collision[]): THREE.Group => {
+  const group = new THREE.Group();
+  const geometry = new THREE.SphereGeometry(MARKER_RADIUS, 12, 8);
+  const material = new THREE.MeshBasicMaterial({ color: 0xff0000, transparent: true, opacity: 0.8 });
+
+  for (const collision of collisions.slice(0, MAX_MARKERS)) {
+    const marker = new THREE.Mesh(geometry, material);
+    marker.position.set(collision.position.x, collision.position.y, collision.position.z);
+    marker.userData.line = collision.line;
+    group.add(marker);
+  }
+  return group;
+};
+
+// Markers share one geometry and material, so dispose them once
+export const disposeCollisionMarkers = (group: THREE.Group) => {
+  const marker = group.children[0] as THREE.Mesh | undefined;
+  if (marker) {
+    marker.geometry.dispose();
+    (marker.material as THREE.Material).dispose();
+  }
+};
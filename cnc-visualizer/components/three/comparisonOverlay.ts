@@ -0,0 +1,95 @@
+import * as THREE from 'three';
+import { SegmentKind, type ToolPath } from '../../lib/gcode';
+import type { DivergenceRegion, ProgramSide } from '../../lib/compare';
+import { COMPARE_PATH_LAYER } from './viewports';
+
+// The compared program drawn over the loaded one, or the two side by side
+export type CompareView = 'overlay' | 'split';
+
+export const COMPARE_PATH_COLOR = 0xd946ef;
+
+const REGION_COLORS: Record<ProgramSide, number> = {
+  base: 0xf97316,
+  revised: 0xdc2626,
+};
+
+// Flat regions still get a visible box (mm added on every side)
+const REGION_PADDING = 0.5;
+
+// Beyond this many boxes the scene only gets slower, not clearer
+const MAX_REGION_MARKERS = 500;
+
+// Copy the segments of one kind into a flat position array
+const segmentPositions = (path: ToolPath, rapid: boolean): Float32Array => {
+  const { segmentCount, positions, kinds } = path;
+  const selected: number[] = [];
+  for (let segment = 0; segment < segmentCount; segment++) {
+    if ((kinds[segment] === SegmentKind.Rapid) === rapid) selected.push(segment);
+  }
+  const result = new Float32Array(selected.length * 6);
+  selected.forEach((segment, index) => result.set(positions.subarray(segment * 6, segment * 6 + 6), index * 6));
+  return result;
+};
+
+/**
+ * The compared program drawn whole in a single color, cuts solid and rapids dashed,
+ * on its own layer so the split view can show it apart from the loaded program.
+ * Diverging regions of either program are outlined with boxes on the shared layer.
+ */
+export const createComparisonOverlay = (
+  path: ToolPath,
+  regions: DivergenceRegion[],
+  clippingPlanes: THREE.Plane[]
+): THREE.Group => {
+  const group = new THREE.Group();
+
+  const createLines = (positions: Float32Array, material: THREE.Material) => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const lines = new THREE.LineSegments(geometry, material);
+    lines.layers.set(COMPARE_PATH_LAYER);
+    return lines;
+  };
+  const cutting = createLines(
+    segmentPositions(path, false),
+    new THREE.LineBasicMaterial({ color: COMPARE_PATH_COLOR, clippingPlanes })
+  );
+  const rapid = createLines(
+    segmentPositions(path, true),
+    new THREE.LineDashedMaterial({ color: COMPARE_PATH_COLOR, dashSize: 2, gapSize: 1.5, clippingPlanes })
+  );
+  rapid.computeLineDistances();
+  group.add(cutting, rapid);
+
+  const box = new THREE.BoxGeometry(1, 1, 1);
+  const edges = new THREE.EdgesGeometry(box);
+  box.dispose();
+  const materials: Record<ProgramSide, THREE.LineBasicMaterial> = {
+    base: new THREE.LineBasicMaterial({ color: REGION_COLORS.base }),
+    revised: new THREE.LineBasicMaterial({ color: REGION_COLORS.revised }),
+  };
+  for (const region of regions.slice(0, MAX_REGION_MARKERS)) {
+    const { min, max } = region.bounds;
+    const marker = new THREE.LineSegments(edges, materials[region.side]);
+    marker.position.set((min.x + max.x) / 2, (min.y + max.y) / 2, (min.z + max.z) / 2);
+    marker.scale.set(
+      max.x - min.x + REGION_PADDING * 2,
+      max.y - min.y + REGION_PADDING * 2,
+      max.z - min.z + REGION_PADDING * 2
+    );
+    group.add(marker);
+  }
+  group.userData.shared = { edges, materials: Object.values(materials) };
+  return group;
+};
+
+export const disposeComparisonOverlay = (group: THREE.Group) => {
+  const [cutting, rapid] = group.children as THREE.LineSegments[];
+  for (const lines of [cutting, rapid]) {
+    lines.geometry.dispose();
+    (lines.material as THREE.Material).dispose();
+  }
+  const { edges, materials } = group.userData.shared as { edges: THREE.BufferGeometry; materials: THREE.Material[] };
+  edges.dispose();
+  materials.forEach((material) => material.dispose());
+};
@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { cutterProfile, type Tool } from '../../lib/tools';
+
+// Samples across the cutter radius when tracing the tip profile
+const PROFILE_SAMPLES = 16;
+const RADIAL_SEGMENTS = 32;
+
+// Lathe geometry revolves around Y; turn it so the tool axis is Z with the tip at the origin
+const createLathe = (points: THREE.Vector2[]) => {
+  const geometry = new THREE.LatheGeometry(points, RADIAL_SEGMENTS);
+  geometry.rotateX(Math.PI / 2);
+  return geometry;
+};
+
+/**
+ * Build a cutter model for the tool: the fluted tip following the cutter
+ * profile, the plain shank up to the stickout length, and the holder.
+ */
+export const createCutterMesh = (tool: Tool): THREE.Group => {
+  const radius = tool.diameter / 2;
+  const fluteLength = Math.max(tool.fluteLength, 0.1);
+  const stickout = Math.max(tool.stickout, fluteLength);
+
+  const flutePoints: THREE.Vector2[] = [];
+  for (let i = 0; i <= PROFILE_SAMPLES; i++) {
+    const distance = (radius * i) / PROFILE_SAMPLES;
+    flutePoints.push(new THREE.Vector2(distance, Math.min(cutterProfile(tool, distance), fluteLength)));
+  }
+  flutePoints.push(new THREE.Vector2(radius, fluteLength));
+
+  const group = new THREE.Group();
+  group.add(new THREE.Mesh(
+    createLathe(flutePoints),
+    new THREE.MeshPhongMaterial({ color: 0xd4af37, shininess: 80, side: THREE.DoubleSide })
+  ));
+
+  if (stickout > fluteLength) {
+    const shank = new THREE.Mesh(
+      new THREE.CylinderGeometry(radius, radius, stickout - fluteLength, RADIAL_SEGMENTS),
+      new THREE.MeshPhongMaterial({ color: 0xb0b0b0, shininess: 80 })
+    );
+    shank.rotation.x = Math.PI / 2;
+    shank.position.z = (fluteLength + stickout) / 2;
+    group.add(shank);
+  }
+
+  if (tool.holderLength > 0 && tool.holderDiameter > 0) {
+    const holder = new THREE.Mesh(
+      new THREE.CylinderGeometry(tool.holderDiameter / 2, tool.holderDiameter / 2, tool.holderLength, RADIAL_SEGMENTS),
+      new THREE.MeshPhongMaterial({ color: 0x555555, transparent: true, opacity: 0.6 })
+    );
+    holder.rotation.x = Math.PI / 2;
+    holder.position.z = stickout + tool.holderLength / 2;
+    group.add(holder);
+  }
+
+  return group;
+};
+
+export const disposeCutterMesh = (group: THREE.Group) => {
+  group.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    }
+  });
+};
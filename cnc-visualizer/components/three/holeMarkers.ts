@@ -0,0 +1,61 @@
+import * as THREE from 'three';
+import { CSS2DObject } from 'three-stdlib';
+import type { Hole } from '../../lib/gcode';
+import type { Tool } from '../../lib/tools';
+
+// Beyond this many holes the labels only clutter the view
+const MAX_HOLES = 500;
+const CIRCLE_SEGMENTS = 24;
+
+const formatDepth = (depth: number): string => `${Math.round(depth * 100) / 100} mm`;
+
+/**
+ * Outline of each canned cycle hole: its diameter at the R plane and at the
+ * bottom joined by a center line, labeled with the cycle and the depth below
+ * the R plane.
+ */
+export const createHoleMarkers = (holes: Hole[], resolveTool: (number: number) => Tool): THREE.Group => {
+  const group = new THREE.Group();
+  const vertices: number[] = [];
+
+  for (const hole of holes.slice(0, MAX_HOLES)) {
+    const radius = resolveTool(hole.tool).diameter / 2;
+    for (const z of [hole.top, hole.bottom]) {
+      for (let index = 0; index < CIRCLE_SEGMENTS; index++) {
+        const a0 = (index / CIRCLE_SEGMENTS) * Math.PI * 2;
+        const a1 = ((index + 1) / CIRCLE_SEGMENTS) * Math.PI * 2;
+        vertices.push(
+          hole.x + radius * Math.cos(a0), hole.y + radius * Math.sin(a0), z,
+          hole.x + radius * Math.cos(a1), hole.y + radius * Math.sin(a1), z
+        );
+      }
+    }
+    vertices.push(hole.x, hole.y, hole.top, hole.x, hole.y, hole.bottom);
+
+    const div = document.createElement('div');
+    div.textContent = `${hole.cycle} ${formatDepth(hole.top - hole.bottom)}`;
+    div.style.color = '#0369a1';
+    div.style.fontSize = '11px';
+    div.style.textShadow = '0px 0px 3px white';
+    const label = new CSS2DObject(div);
+    label.position.set(hole.x + radius, hole.y, hole.top);
+    group.add(label);
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+  group.add(new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color: 0x0284c7 })));
+  return group;
+};
+
+// Labels are DOM elements, which leave the page only when removed by hand
+export const disposeHoleMarkers = (group: THREE.Group) => {
+  for (const child of group.children) {
+    if (child instanceof CSS2DObject) {
+      child.element.remove();
+    } else if (child instanceof THREE.LineSegments) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    }
+  }
+};
@@ -0,0 +1,58 @@
+import * as THREE from 'three';
+import type { MachineProfile } from '../../lib/machine';
+import type { Bounds } from '../../lib/setup';
+
+// Grid line spacing on the table top, mm
+const GRID_SPACING = 10;
+const MAX_GRID_DIVISIONS = 200;
+
+// Lift the grid off the table so the two don't z-fight
+const GRID_LIFT = 0.05;
+
+const boxGeometry = ({ min, max }: Bounds): THREE.BoxGeometry => {
+  const geometry = new THREE.BoxGeometry(max.x - min.x, max.y - min.y, max.z - min.z);
+  geometry.translate((min.x + max.x) / 2, (min.y + max.y) / 2, (min.z + max.z) / 2);
+  return geometry;
+};
+
+/**
+ * The machine's surroundings in machine coordinates: an outline of the travel
+ * limits, the table as a solid block and a grid on its top face.
+ */
+export const createMachineEnvelope = ({ travel, table }: MachineProfile): THREE.Group => {
+  const group = new THREE.Group();
+
+  const travelBox = boxGeometry(travel);
+  const outline = new THREE.LineSegments(
+    new THREE.EdgesGeometry(travelBox),
+    new THREE.LineBasicMaterial({ color: 0xf59e0b, transparent: true, opacity: 0.6 })
+  );
+  travelBox.dispose();
+  group.add(outline);
+
+  const tableMesh = new THREE.Mesh(
+    boxGeometry(table),
+    new THREE.MeshStandardMaterial({ color: 0x9ca3af, roughness: 0.8, metalness: 0.2 })
+  );
+  tableMesh.receiveShadow = true;
+  group.add(tableMesh);
+
+  const size = Math.max(table.max.x - table.min.x, table.max.y - table.min.y);
+  const divisions = Math.min(Math.max(Math.round(size / GRID_SPACING), 1), MAX_GRID_DIVISIONS);
+  const grid = new THREE.GridHelper(size, divisions, 0x888888, 0xdddddd);
+  // Rotate grid to XY plane (with Z up)
+  grid.rotation.x = Math.PI / 2;
+  grid.position.set((table.min.x + table.max.x) / 2, (table.min.y + table.max.y) / 2, table.max.z + GRID_LIFT);
+  group.add(grid);
+
+  return group;
+};
+
+export const disposeMachineEnvelope = (group: THREE.Group) => {
+  group.traverse((object) => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    }
+  });
+};
@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+import { CSS2DObject } from 'three-stdlib';
+import type { Point3 } from '../../lib/gcode';
+
+export type MeasureMode = 'off' | 'distance' | 'inspect' | 'clearance';
+
+// What a click on the part model snaps to
+export type MeshSnap = 'vertex' | 'edge' | 'face';
+
+export const MEASURE_MODES: { value: MeasureMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'distance', label: 'Distance' },
+  { value: 'inspect', label: 'Inspect' },
+  { value: 'clearance', label: 'Clearance' },
+];
+
+export const MESH_SNAPS: { value: MeshSnap; label: string }[] = [
+  { value: 'vertex', label: 'Vertex' },
+  { value: 'edge', label: 'Edge' },
+  { value: 'face', label: 'Face' },
+];
+
+const MEASURE_COLOR = 0xdb2777;
+// Screen size of picked points, px
+const POINT_SIZE = 8;
+
+const format = (value: number): string => value.toFixed(3);
+
+export const formatPoint = (point: Point3): string =>
+  `X${format(point.x)} Y${format(point.y)} Z${format(point.z)}`;
+
+/** End of a path segment nearer to where the ray hit it. */
+export const snapToPathVertex = (positions: Float32Array, segment: number, hitPoint: THREE.Vector3): THREE.Vector3 => {
+  const offset = segment * 6;
+  const from = new THREE.Vector3(positions[offset], positions[offset + 1], positions[offset + 2]);
+  const to = new THREE.Vector3(positions[offset + 3], positions[offset + 4], positions[offset + 5]);
+  return hitPoint.distanceToSquared(from) <= hitPoint.distanceToSquared(to) ? from : to;
+};
+
+/** Move a hit on a mesh to the nearest corner or edge of the triangle hit, or keep the point on its face. */
+export const snapToMesh = (hit: THREE.Intersection, snap: MeshSnap): THREE.Vector3 => {
+  const mesh = hit.object as THREE.Mesh;
+  if (snap === 'face' || !hit.face) return hit.point.clone();
+
+  const position = mesh.geometry.getAttribute('position');
+  const corners = [hit.face.a, hit.face.b, hit.face.c].map((index) =>
+    new THREE.Vector3().fromBufferAttribute(position, index).applyMatrix4(mesh.matrixWorld)
+  );
+  const candidates = snap === 'vertex'
+    ? corners
+    : corners.map((corner, index) =>
+        new THREE.Line3(corner, corners[(index + 1) % 3]).closestPointToPoint(hit.point, true, new THREE.Vector3())
+      );
+  return candidates.reduce((best, candidate) =>
+    candidate.distanceToSquared(hit.point) < best.distanceToSquared(hit.point) ? candidate : best
+  );
+};
+
+/** Readout in the measurement style; lines of text are stacked. */
+export const createMeasureLabel = (text: string, position: THREE.Vector3): CSS2DObject => {
+  const div = document.createElement('div');
+  div.textContent = text;
+  div.style.whiteSpace = 'pre';
+  div.style.background = 'rgba(255, 255, 255, 0.9)';
+  div.style.border = '1px solid #db2777';
+  div.style.borderRadius = '4px';
+  div.style.padding = '2px 6px';
+  div.style.fontSize = '12px';
+  div.style.color = '#111827';
+  div.style.fontVariantNumeric = 'tabular-nums';
+  const label = new CSS2DObject(div);
+  label.position.copy(position);
+  return label;
+};
+
+/** Picked points, drawn at a fixed size on screen. */
+export const createPointMarkers = (points: THREE.Vector3[]): THREE.Points =>
+  new THREE.Points(
+    new THREE.BufferGeometry().setFromPoints(points),
+    new THREE.PointsMaterial({ color: MEASURE_COLOR, size: POINT_SIZE, sizeAttenuation: false, depthTest: false })
+  );
+
+const createLine = (from: THREE.Vector3, to: THREE.Vector3, dashed = false): THREE.Line => {
+  const line = new THREE.Line(
+    new THREE.BufferGeometry().setFromPoints([from, to]),
+    dashed
+      ? new THREE.LineDashedMaterial({ color: MEASURE_COLOR, dashSize: 1, gapSize: 0.5, depthTest: false })
+      : new THREE.LineBasicMaterial({ color: MEASURE_COLOR, depthTest: false })
+  );
+  if (dashed) line.computeLineDistances();
+  return line;
+};
+
+/** Two points joined by a line, labeled with their distance and per-axis deltas. */
+export const createDistanceMeasurement = (from: THREE.Vector3, to: THREE.Vector3): THREE.Group => {
+  const group = new THREE.Group();
+  const delta = to.clone().sub(from);
+  group.add(createPointMarkers([from, to]));
+  group.add(createLine(from, to));
+  group.add(createMeasureLabel(
+    `${format(from.distanceTo(to))} mm\nΔX${format(delta.x)} ΔY${format(delta.y)} ΔZ${format(delta.z)}`,
+    from.clone().add(to).multiplyScalar(0.5)
+  ));
+  return group;
+};
+
+/** Dashed drop from the tool tip to the part surface, labeled with the gap. */
+export const createClearanceMeasurement = (position: Point3, gap: number, line: number): THREE.Group => {
+  const group = new THREE.Group();
+  const tip = new THREE.Vector3(position.x, position.y, position.z);
+  const surface = tip.clone().setZ(position.z - gap);
+  group.add(createPointMarkers([tip, surface]));
+  group.add(createLine(tip, surface, true));
+  const text = gap >= 0 ? `Clearance ${format(gap)} mm` : `Into part ${format(-gap)} mm`;
+  group.add(createMeasureLabel(`${text}\nLine ${line}`, tip));
+  return group;
+};
+
+// Labels are DOM elements, which leave the page only when removed by hand
+export const disposeMeasurement = (object: THREE.Object3D) => {
+  object.traverse((child) => {
+    if (child instanceof CSS2DObject) {
+      child.element.remove();
+    } else if (child instanceof THREE.Line || child instanceof THREE.Points) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    }
+  });
+};
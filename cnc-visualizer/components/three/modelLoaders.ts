@@ -0,0 +1,198 @@
+import * as THREE from 'three';
+import { OBJLoader, STLLoader, ThreeMFLoader } from 'three-stdlib';
+import { strFromU8, unzipSync } from 'fflate';
+
+// Length units a model file can be authored in, with their size in mm
+export const MODEL_UNIT_SCALES = {
+  micron: 0.001,
+  mm: 1,
+  cm: 10,
+  inch: 25.4,
+  foot: 304.8,
+  m: 1000,
+} as const;
+
+export type ModelUnit = keyof typeof MODEL_UNIT_SCALES;
+
+// Units chosen in the UI; 'auto' uses what the file declares, or mm when it declares nothing
+export type UnitSelection = 'auto' | 'mm' | 'inch';
+
+export interface LoadedModel {
+  geometry: THREE.BufferGeometry;
+  format: string;
+  // Unit stored in the file itself, when the format has one
+  declaredUnit: ModelUnit | null;
+}
+
+interface ModelLoader {
+  format: string;
+  extensions: string[];
+  // Recognize the format from the file contents
+  sniff: (bytes: Uint8Array) => boolean;
+  parse: (buffer: ArrayBuffer) => LoadedModel;
+}
+
+// Unit attribute values of the 3MF core specification
+const THREE_MF_UNITS: Record<string, ModelUnit> = {
+  micron: 'micron',
+  millimeter: 'mm',
+  centimeter: 'cm',
+  inch: 'inch',
+  foot: 'foot',
+  meter: 'm',
+};
+
+const STL_HEADER_BYTES = 84;
+const STL_TRIANGLE_BYTES = 50;
+
+// Only the start of a text file is inspected when sniffing
+const SNIFF_TEXT_BYTES = 4096;
+
+const startsWith = (bytes: Uint8Array, signature: string): boolean =>
+  signature.split('').every((char, index) => bytes[index] === char.charCodeAt(0));
+
+const headText = (bytes: Uint8Array): string =>
+  new TextDecoder().decode(bytes.subarray(0, SNIFF_TEXT_BYTES)).trimStart();
+
+const binaryStlTriangles = (bytes: Uint8Array): number =>
+  bytes.byteLength >= STL_HEADER_BYTES
+    ? new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(80, true)
+    : -1;
+
+// Binary files carry their triangle count, so an intact one is exactly the size it states
+const isBinaryStl = (bytes: Uint8Array): boolean => {
+  const triangles = binaryStlTriangles(bytes);
+  return triangles >= 0 && STL_HEADER_BYTES + triangles * STL_TRIANGLE_BYTES === bytes.byteLength;
+};
+
+const isAsciiStl = (bytes: Uint8Array): boolean => {
+  const text = headText(bytes);
+  return text.startsWith('solid') && text.includes('facet');
+};
+
+// Merge every mesh of a loaded scene into one non-indexed geometry with its transforms applied
+const mergeMeshes = (root: THREE.Object3D): THREE.BufferGeometry => {
+  root.updateMatrixWorld(true);
+  const parts: Float32Array[] = [];
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return;
+    const source = object.geometry as THREE.BufferGeometry;
+    const geometry = source.index ? source.toNonIndexed() : source.clone();
+    geometry.applyMatrix4(object.matrixWorld);
+    parts.push(Float32Array.from(geometry.getAttribute('position').array));
+    geometry.dispose();
+    source.dispose();
+  });
+
+  const positions = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    positions.set(part, offset);
+    offset += part.length;
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  return geometry;
+};
+
+const stlLoader: ModelLoader = {
+  format: 'STL',
+  extensions: ['.stl'],
+  sniff: (bytes) => isBinaryStl(bytes) || isAsciiStl(bytes),
+  parse: (buffer) => {
+    const bytes = new Uint8Array(buffer);
+    // Some CAD exporters start binary headers with "solid" too, so the size decides before the text does
+    if (!isBinaryStl(bytes) && !isAsciiStl(bytes)) {
+      const expected = STL_HEADER_BYTES + binaryStlTriangles(bytes) * STL_TRIANGLE_BYTES;
+      if (bytes.byteLength < expected) {
+        throw new Error(`truncated, expected ${expected} bytes but found ${bytes.byteLength}`);
+      }
+    }
+    return { geometry: new STLLoader().parse(buffer), format: 'STL', declaredUnit: null };
+  },
+};
+
+const objLoader: ModelLoader = {
+  format: 'OBJ',
+  extensions: ['.obj'],
+  sniff: (bytes) => /^\s*v\s+[-+.\d]/m.test(headText(bytes)),
+  parse: (buffer) => ({
+    geometry: mergeMeshes(new OBJLoader().parse(new TextDecoder().decode(buffer))),
+    format: 'OBJ',
+    declaredUnit: null,
+  }),
+};
+
+const threeMfLoader: ModelLoader = {
+  format: '3MF',
+  extensions: ['.3mf'],
+  // 3MF packages are ZIP archives
+  sniff: (bytes) => startsWith(bytes, 'PK\u0003\u0004'),
+  parse: (buffer) => {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(new Uint8Array(buffer), { filter: (file) => file.name.toLowerCase().endsWith('.model') });
+    } catch {
+      throw new Error('not a valid ZIP archive');
+    }
+    const modelFile = Object.values(files)[0];
+    if (!modelFile) throw new Error('no 3D model part in the package');
+    // The specification defaults to millimeters when no unit is given
+    const unit = /<model[^>]*\sunit="([a-z]+)"/i.exec(strFromU8(modelFile))?.[1];
+    const declaredUnit = unit ? THREE_MF_UNITS[unit.toLowerCase()] ?? null : 'mm';
+
+    return { geometry: mergeMeshes(new ThreeMFLoader().parse(buffer)), format: '3MF', declaredUnit };
+  },
+};
+
+// Recognized only to explain that it needs converting first
+const STEP_SIGNATURE = 'ISO-10303-21';
+const STEP_EXTENSIONS = ['.step', '.stp'];
+
+const LOADERS: ModelLoader[] = [threeMfLoader, stlLoader, objLoader];
+
+/** File input accept list covering every registered format. */
+export const MODEL_FILE_ACCEPT = LOADERS.flatMap((loader) => loader.extensions).join(',');
+
+/** Whether a file name has an extension one of the loaders handles. */
+export const isModelFileName = (name: string): boolean =>
+  LOADERS.some((loader) => loader.extensions.some((extension) => name.toLowerCase().endsWith(extension)));
+
+/**
+ * Parse a model file into a single geometry in file units. The format is
+ * recognized from the contents first and the file name second; unreadable or
+ * empty files throw errors meant to be shown to the user.
+ */
+export const loadModelGeometry = (buffer: ArrayBuffer, fileName: string): LoadedModel => {
+  const bytes = new Uint8Array(buffer);
+  const name = fileName.toLowerCase();
+  if (bytes.byteLength === 0) throw new Error('File is empty');
+  if (headText(bytes).startsWith(STEP_SIGNATURE) || STEP_EXTENSIONS.some((extension) => name.endsWith(extension))) {
+    throw new Error('STEP files cannot be read directly; export the part as STL, OBJ or 3MF');
+  }
+
+  const loader = LOADERS.find((candidate) => candidate.sniff(bytes))
+    ?? LOADERS.find((candidate) => candidate.extensions.some((extension) => name.endsWith(extension)));
+  if (!loader) throw new Error('Unrecognized model format; expected STL, OBJ or 3MF');
+
+  let model: LoadedModel;
+  try {
+    model = loader.parse(buffer);
+  } catch (err) {
+    throw new Error(`Corrupted ${loader.format} file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+
+  const position = model.geometry.getAttribute('position');
+  if (!position || position.count < 3) {
+    model.geometry.dispose();
+    throw new Error(`${loader.format} file contains no triangles`);
+  }
+  model.geometry.computeBoundingBox();
+  const box = model.geometry.boundingBox;
+  if (!box || ![box.min.x, box.min.y, box.min.z, box.max.x, box.max.y, box.max.z].every(Number.isFinite)) {
+    model.geometry.dispose();
+    throw new Error(`Corrupted ${loader.format} file: vertex coordinates are not numbers`);
+  }
+  return model;
+};
@@ -0,0 +1,143 @@
+import * as THREE from 'three';
+import { SegmentKind, type ToolPath } from '../../lib/gcode';
+
+export type PathColorMode = 'moveType' | 'feed' | 'depth' | 'tool';
+
+export const PATH_COLOR_MODES: { value: PathColorMode; label: string }[] = [
+  { value: 'moveType', label: 'Move type' },
+  { value: 'feed', label: 'Feed rate' },
+  { value: 'depth', label: 'Z depth' },
+  { value: 'tool', label: 'Tool' },
+];
+
+export interface LegendEntry {
+  color: string;
+  label: string;
+  dashed?: boolean;
+}
+
+export interface PathColoring {
+  // RGB per vertex, two vertices per segment
+  colors: Float32Array;
+  legend: LegendEntry[];
+}
+
+const MOVE_TYPE_COLORS: Record<SegmentKind, number> = {
+  [SegmentKind.Rapid]: 0xff9900,
+  [SegmentKind.Feed]: 0xff0000,
+  [SegmentKind.Arc]: 0x0077ff,
+};
+
+const MOVE_TYPE_LABELS: Record<SegmentKind, string> = {
+  [SegmentKind.Rapid]: 'Rapid (G0)',
+  [SegmentKind.Feed]: 'Feed (G1)',
+  [SegmentKind.Arc]: 'Arc (G2/G3)',
+};
+
+// Rapids have no feed rate, so the feed gradient draws them in neutral gray
+const UNRANKED_RAPID_COLOR = 0x999999;
+
+const TOOL_PALETTE = [0xe6194b, 0x3cb44b, 0x4363d8, 0xf58231, 0x911eb4, 0x42d4f4, 0xf032e6, 0x9a6324];
+
+// Blue for the low end of a range, red for the high end
+const setGradientColor = (color: THREE.Color, value: number, min: number, max: number) => {
+  const t = max > min ? (value - min) / (max - min) : 0;
+  return color.setHSL((1 - t) * 0.66, 1, 0.5);
+};
+
+const gradientLegend = (min: number, max: number, format: (value: number) => string): LegendEntry[] => {
+  const color = new THREE.Color();
+  const steps = max > min ? [min, (min + max) / 2, max] : [min];
+  return steps.map((value) => ({
+    color: `#${setGradientColor(color, value, min, max).getHexString()}`,
+    label: format(value),
+  }));
+};
+
+const hex = (value: number) => `#${value.toString(16).padStart(6, '0')}`;
+
+/**
+ * Compute vertex colors for a tool path in the given mode, together with
+ * the legend entries that explain them.
+ */
+export const colorToolPath = (path: ToolPath, mode: PathColorMode): PathColoring => {
+  const { segmentCount, positions, kinds, feeds, tools } = path;
+  const colors = new Float32Array(segmentCount * 6);
+  const color = new THREE.Color();
+
+  const setSegment = (segment: number, startColor: THREE.Color, endColor: THREE.Color = startColor) => {
+    startColor.toArray(colors, segment * 6);
+    endColor.toArray(colors, segment * 6 + 3);
+  };
+
+  switch (mode) {
+    case 'moveType': {
+      for (let segment = 0; segment < segmentCount; segment++) {
+        setSegment(segment, color.setHex(MOVE_TYPE_COLORS[kinds[segment] as SegmentKind]));
+      }
+      const present = new Set(kinds);
+      return {
+        colors,
+        legend: [SegmentKind.Rapid, SegmentKind.Feed, SegmentKind.Arc]
+          .filter((kind) => present.has(kind))
+          .map((kind) => ({
+            color: hex(MOVE_TYPE_COLORS[kind]),
+            label: MOVE_TYPE_LABELS[kind],
+            dashed: kind === SegmentKind.Rapid,
+          })),
+      };
+    }
+
+    case 'feed': {
+      let min = Infinity;
+      let max = -Infinity;
+      for (let segment = 0; segment < segmentCount; segment++) {
+        if (kinds[segment] === SegmentKind.Rapid) continue;
+        min = Math.min(min, feeds[segment]);
+        max = Math.max(max, feeds[segment]);
+      }
+      for (let segment = 0; segment < segmentCount; segment++) {
+        if (kinds[segment] === SegmentKind.Rapid) {
+          setSegment(segment, color.setHex(UNRANKED_RAPID_COLOR));
+        } else {
+          setSegment(segment, setGradientColor(color, feeds[segment], min, max));
+        }
+      }
+      const legend = Number.isFinite(min) ? gradientLegend(min, max, (value) => `${Math.round(value)} mm/min`) : [];
+      return { colors, legend: [...legend, { color: hex(UNRANKED_RAPID_COLOR), label: 'Rapid', dashed: true }] };
+    }
+
+    case 'depth': {
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = 2; i < positions.length; i += 3) {
+        min = Math.min(min, positions[i]);
+        max = Math.max(max, positions[i]);
+      }
+      const endColor = new THREE.Color();
+      for (let segment = 0; segment < segmentCount; segment++) {
+        setSegment(
+          segment,
+          setGradientColor(color, positions[segment * 6 + 2], min, max),
+          setGradientColor(endColor, positions[segment * 6 + 5], min, max)
+        );
+      }
+      return { colors, legend: gradientLegend(min, max, (value) => `Z ${value.toFixed(2)} mm`) };
+    }
+
+    case 'tool': {
+      const toolNumbers = Array.from(new Set(tools)).sort((a, b) => a - b);
+      const toolColor = (tool: number) => TOOL_PALETTE[toolNumbers.indexOf(tool) % TOOL_PALETTE.length];
+      for (let segment = 0; segment < segmentCount; segment++) {
+        setSegment(segment, color.setHex(toolColor(tools[segment])));
+      }
+      return {
+        colors,
+        legend: toolNumbers.map((tool) => ({
+          color: hex(toolColor(tool)),
+          label: tool === 0 ? 'No tool change' : `T${tool}`,
+        })),
+      };
+    }
+  }
+};
@@ -0,0 +1,69 @@
+import { SegmentKind, type Point3, type ToolPath } from '../../lib/gcode';
+
+// The segments of one draw style (solid cuts or dashed rapids), in program order
+export interface PathGroup {
+  positions: Float32Array;
+  colors: Float32Array;
+  // Path segment index of each of this group's segments, for picking
+  segments: Uint32Array;
+  // prefix[n] is how many of this group's segments are among the first n path segments
+  prefix: Uint32Array;
+}
+
+export interface PathBuffers {
+  segmentCount: number;
+  // Source line of each path segment
+  lines: Uint32Array;
+  cutting: PathGroup;
+  rapid: PathGroup;
+}
+
+/** Split a colored tool path into cutting and rapid groups. */
+export const splitPathByKind = (path: ToolPath, colors: Float32Array): PathBuffers => {
+  const { segmentCount, positions, kinds } = path;
+  let rapidCount = 0;
+  for (let segment = 0; segment < segmentCount; segment++) {
+    if (kinds[segment] === SegmentKind.Rapid) rapidCount++;
+  }
+
+  const createGroup = (count: number): PathGroup => ({
+    positions: new Float32Array(count * 6),
+    colors: new Float32Array(count * 6),
+    segments: new Uint32Array(count),
+    prefix: new Uint32Array(segmentCount + 1),
+  });
+  const cutting = createGroup(segmentCount - rapidCount);
+  const rapid = createGroup(rapidCount);
+  let cuttingIndex = 0;
+  let rapidIndex = 0;
+
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const isRapid = kinds[segment] === SegmentKind.Rapid;
+    const group = isRapid ? rapid : cutting;
+    const index = isRapid ? rapidIndex++ : cuttingIndex++;
+    const target = index * 6;
+    const source = segment * 6;
+
+    group.positions.set(positions.subarray(source, source + 6), target);
+    group.colors.set(colors.subarray(source, source + 6), target);
+    group.segments[index] = segment;
+
+    cutting.prefix[segment + 1] = cuttingIndex;
+    rapid.prefix[segment + 1] = rapidIndex;
+  }
+
+  return { segmentCount, lines: path.lines, cutting, rapid };
+};
+
+/** Point `fraction` of the way along a path segment; past the last segment, the path end. */
+export const pointOnPath = (path: ToolPath, segment: number, fraction: number): Point3 => {
+  const last = segment >= path.segmentCount;
+  const offset = (last ? path.segmentCount - 1 : segment) * 6;
+  const t = last ? 1 : fraction;
+  const { positions } = path;
+  return {
+    x: positions[offset] + (positions[offset + 3] - positions[offset]) * t,
+    y: positions[offset + 1] + (positions[offset + 4] - positions[offset + 1]) * t,
+    z: positions[offset + 2] + (positions[offset + 5] - positions[offset + 2]) * t,
+  };
+};
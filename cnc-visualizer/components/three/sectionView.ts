@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+
+export type SectionAxis = 'x' | 'y' | 'z';
+
+// A plane across one axis; the side below its position is kept unless flipped
+export interface SectionPlane {
+  enabled: boolean;
+  position: number;
+  flip: boolean;
+}
+
+export interface SectionSettings {
+  planes: Record<SectionAxis, SectionPlane>;
+  // Depths (mm) between which the path is drawn; null draws all of it
+  depthRange: { min: number; max: number } | null;
+}
+
+export const SECTION_AXES: SectionAxis[] = ['x', 'y', 'z'];
+
+export const DEFAULT_SECTION: SectionSettings = {
+  planes: {
+    x: { enabled: false, position: 0, flip: false },
+    y: { enabled: false, position: 0, flip: false },
+    z: { enabled: false, position: 0, flip: false },
+  },
+  depthRange: null,
+};
+
+// A solid cut by the section planes and the color its cut faces are filled with
+export interface SectionSolid {
+  mesh: THREE.Mesh;
+  capColor: number;
+}
+
+const AXIS_VECTORS: Record<SectionAxis, THREE.Vector3> = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1),
+};
+
+// Side (mm) of the square drawn for each cap; the stencil trims it to the cut
+const CAP_SIZE = 10000;
+
+/**
+ * Clipping planes for the enabled section planes. Three.js drops whatever lies on
+ * the negative side of a plane, so the normal points into the kept side.
+ */
+export const sectionPlanes = ({ planes }: SectionSettings): THREE.Plane[] =>
+  SECTION_AXES.filter((axis) => planes[axis].enabled).map((axis) => {
+    const { position, flip } = planes[axis];
+    const normal = AXIS_VECTORS[axis].clone().multiplyScalar(flip ? 1 : -1);
+    return new THREE.Plane(normal, flip ? -position : position);
+  });
+
+/** Clipping planes that keep only the depth range, for the path. */
+export const depthPlanes = ({ depthRange }: SectionSettings): THREE.Plane[] =>
+  depthRange
+    ? [
+        new THREE.Plane(new THREE.Vector3(0, 0, 1), -depthRange.min),
+        new THREE.Plane(new THREE.Vector3(0, 0, -1), depthRange.max),
+      ]
+    : [];
+
+// Replace the contents of a plane list shared with materials, which read it every frame
+export const setPlanes = (target: THREE.Plane[], planes: THREE.Plane[]) => {
+  target.length = 0;
+  target.push(...planes);
+};
+
+const stencilMaterial = (plane: THREE.Plane, side: THREE.Side, operation: THREE.StencilOp) =>
+  new THREE.MeshBasicMaterial({
+    side,
+    clippingPlanes: [plane],
+    depthWrite: false,
+    depthTest: false,
+    colorWrite: false,
+    stencilWrite: true,
+    stencilFunc: THREE.AlwaysStencilFunc,
+    stencilFail: operation,
+    stencilZFail: operation,
+    stencilZPass: operation,
+  });
+
+/**
+ * Fill the faces cut into closed solids. For each plane and solid, the solid's
+ * back faces count up and its front faces count down in the stencil buffer, which
+ * leaves a non-zero count wherever the plane lies inside the solid; a large square
+ * on the plane is then drawn only there, trimmed by the other planes.
+ */
+export const createSectionCaps = (solids: SectionSolid[], planes: THREE.Plane[]): THREE.Group => {
+  const group = new THREE.Group();
+  const capGeometry = new THREE.PlaneGeometry(CAP_SIZE, CAP_SIZE);
+  let order = 1;
+
+  for (const plane of planes) {
+    for (const { mesh, capColor } of solids) {
+      const stencil = new THREE.Group();
+      stencil.applyMatrix4(mesh.matrixWorld);
+      const back = new THREE.Mesh(mesh.geometry, stencilMaterial(plane, THREE.BackSide, THREE.IncrementWrapStencilOp));
+      const front = new THREE.Mesh(mesh.geometry, stencilMaterial(plane, THREE.FrontSide, THREE.DecrementWrapStencilOp));
+      back.renderOrder = front.renderOrder = order;
+      stencil.add(back, front);
+
+      const cap = new THREE.Mesh(
+        capGeometry,
+        new THREE.MeshPhongMaterial({
+          color: capColor,
+          clippingPlanes: planes.filter((other) => other !== plane),
+          stencilWrite: true,
+          stencilRef: 0,
+          stencilFunc: THREE.NotEqualStencilFunc,
+          stencilFail: THREE.ReplaceStencilOp,
+          stencilZFail: THREE.ReplaceStencilOp,
+          stencilZPass: THREE.ReplaceStencilOp,
+        })
+      );
+      plane.coplanarPoint(cap.position);
+      cap.lookAt(cap.position.clone().sub(plane.normal));
+      cap.renderOrder = order + 0.1;
+      // The next solid or plane counts from zero again
+      cap.onAfterRender = (renderer) => renderer.clearStencil();
+
+      group.add(stencil, cap);
+      order++;
+    }
+  }
+  group.userData.capGeometry = capGeometry;
+  return group;
+};
+
+// The solids' geometry is shared, so only the materials and the cap square are freed
+export const disposeSectionCaps = (group: THREE.Group) => {
+  group.traverse((object) => {
+    if (object instanceof THREE.Mesh) (object.material as THREE.Material).dispose();
+  });
+  (group.userData.capGeometry as THREE.PlaneGeometry).dispose();
+};
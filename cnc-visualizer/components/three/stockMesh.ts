@@ -0,0 +1,90 @@
+import * as THREE from 'three';
+import type { Heightfield } from '../../lib/sim';
+
+/**
+ * Build a mesh for the heightfield: the grid as the top surface plus side
+ * walls and a floor at the stock bottom. The first columns * rows vertices follow
+ * the heightfield, so updates only touch their Z values.
+ */
+export const createStockMesh = (field: Heightfield): THREE.Mesh => {
+  const { stock, columns, rows, cellX, cellY } = field;
+  const topCount = columns * rows;
+
+  // Perimeter grid indices, walked counter-clockwise seen from above
+  const perimeter: number[] = [];
+  for (let column = 0; column < columns - 1; column++) perimeter.push(column);
+  for (let row = 0; row < rows - 1; row++) perimeter.push(row * columns + columns - 1);
+  for (let column = columns - 1; column > 0; column--) perimeter.push((rows - 1) * columns + column);
+  for (let row = rows - 1; row > 0; row--) perimeter.push(row * columns);
+
+  const positions = new Float32Array((topCount + perimeter.length) * 3);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const offset = (row * columns + column) * 3;
+      positions[offset] = stock.origin.x + column * cellX;
+      positions[offset + 1] = stock.origin.y + row * cellY;
+    }
+  }
+  perimeter.forEach((gridIndex, i) => {
+    const offset = (topCount + i) * 3;
+    positions[offset] = positions[gridIndex * 3];
+    positions[offset + 1] = positions[gridIndex * 3 + 1];
+    positions[offset + 2] = stock.origin.z;
+  });
+
+  const indices: number[] = [];
+  for (let row = 0; row < rows - 1; row++) {
+    for (let column = 0; column < columns - 1; column++) {
+      const a = row * columns + column;
+      const b = a + 1;
+      const c = a + columns;
+      const d = c + 1;
+      indices.push(a, b, d, a, d, c);
+    }
+  }
+  perimeter.forEach((top, i) => {
+    const nextTop = perimeter[(i + 1) % perimeter.length];
+    const bottom = topCount + i;
+    const nextBottom = topCount + ((i + 1) % perimeter.length);
+    indices.push(bottom, nextBottom, nextTop, bottom, nextTop, top);
+  });
+  // Close the bottom with a fan so section caps see a solid
+  for (let i = 1; i < perimeter.length - 1; i++) {
+    indices.push(topCount, topCount + i + 1, topCount + i);
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+
+  const material = new THREE.MeshPhongMaterial({
+    color: 0xd2b48c,
+    specular: 0x111111,
+    shininess: 30,
+    flatShading: true,
+    side: THREE.DoubleSide,
+  });
+
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  updateStockMesh(mesh, field);
+  return mesh;
+};
+
+// Copy the current heightfield into the mesh's top surface
+export const updateStockMesh = (mesh: THREE.Mesh, field: Heightfield) => {
+  const position = mesh.geometry.getAttribute('position') as THREE.BufferAttribute;
+  const array = position.array as Float32Array;
+  const { heights } = field;
+  for (let i = 0; i < heights.length; i++) {
+    array[i * 3 + 2] = heights[i];
+  }
+  position.needsUpdate = true;
+  mesh.geometry.computeBoundingSphere();
+};
+
+export const disposeStockMesh = (mesh: THREE.Mesh) => {
+  mesh.geometry.dispose();
+  (mesh.material as THREE.Material).dispose();
+};
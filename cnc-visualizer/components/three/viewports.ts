@@ -0,0 +1,236 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three-stdlib';
+import type { Point3 } from '../../lib/gcode';
+
+export type ViewPreset = 'top' | 'front' | 'right' | 'iso';
+export type Projection = 'perspective' | 'orthographic';
+export type ViewLayout = 'single' | 'quad' | 'split';
+
+export const VIEW_PRESETS: { value: ViewPreset; label: string }[] = [
+  { value: 'top', label: 'Top' },
+  { value: 'front', label: 'Front' },
+  { value: 'right', label: 'Right' },
+  { value: 'iso', label: 'Iso' },
+];
+
+// One pane of the view: a camera of each projection sharing a single set of orbit controls
+export interface Viewport {
+  perspective: THREE.PerspectiveCamera;
+  orthographic: THREE.OrthographicCamera;
+  controls: OrbitControls;
+}
+
+// Where a pane's camera is, enough to put it back later
+export interface ViewPose {
+  projection: Projection;
+  position: Point3;
+  target: Point3;
+  zoom: number;
+}
+
+// Pane in CSS pixels from the top left of the canvas
+export interface PaneRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Layers of the loaded program's path and of the program compared with it; everything else is on layer 0
+export const BASE_PATH_LAYER = 1;
+export const COMPARE_PATH_LAYER = 2;
+
+// Direction from the target to the camera. Z stays up, so the top view leans a
+// hair toward -Y to keep the orbit off its pole and +Y pointing up the screen.
+const PRESET_DIRECTIONS: Record<ViewPreset, THREE.Vector3> = {
+  top: new THREE.Vector3(0, -1e-4, 1).normalize(),
+  front: new THREE.Vector3(0, -1, 0),
+  right: new THREE.Vector3(1, 0, 0),
+  iso: new THREE.Vector3(1, -1, 1).normalize(),
+};
+
+const FIELD_OF_VIEW = 45;
+const NEAR = 0.1;
+const FAR = 20000;
+
+// Orbit distance limits (mm); close enough for small engraving jobs, far enough for a whole machine
+const MIN_DISTANCE = 1;
+const MAX_DISTANCE = 5000;
+
+// Half the height (mm) an orthographic camera shows at zoom 1
+const ORTHO_HALF_HEIGHT = 100;
+
+// Orthographic cameras sit this far (mm) back from their target so nothing in the scene is behind them
+const ORTHO_DISTANCE = 2000;
+
+// Room left around a framed box, as a multiple of its bounding sphere
+const FIT_MARGIN = 1.1;
+
+const halfFieldTangent = (camera: THREE.PerspectiveCamera) => Math.tan((camera.fov * Math.PI) / 360);
+
+/** Camera the pane currently draws with. */
+export const viewCamera = (viewport: Viewport): THREE.PerspectiveCamera | THREE.OrthographicCamera =>
+  viewport.controls.object;
+
+export const viewProjection = (viewport: Viewport): Projection =>
+  viewport.controls.object === viewport.orthographic ? 'orthographic' : 'perspective';
+
+/** Half the height of the view at the orbit target, in mm. */
+export const visibleHalfHeight = (viewport: Viewport): number => {
+  const { perspective, orthographic, controls } = viewport;
+  return viewProjection(viewport) === 'orthographic'
+    ? ORTHO_HALF_HEIGHT / orthographic.zoom
+    : perspective.position.distanceTo(controls.target) * halfFieldTangent(perspective);
+};
+
+/**
+ * A pane looking at the origin from a preset direction. Its controls listen on
+ * the shared canvas; panes that are not under the pointer get disabled.
+ */
+export const createViewport = (element: HTMLElement, preset: ViewPreset, projection: Projection): Viewport => {
+  const perspective = new THREE.PerspectiveCamera(FIELD_OF_VIEW, 1, NEAR, FAR);
+  const orthographic = new THREE.OrthographicCamera(-ORTHO_HALF_HEIGHT, ORTHO_HALF_HEIGHT, ORTHO_HALF_HEIGHT, -ORTHO_HALF_HEIGHT, NEAR, FAR);
+  // OrbitControls read the up vector when they are created
+  perspective.up.set(0, 0, 1);
+  orthographic.up.set(0, 0, 1);
+  perspective.position.copy(PRESET_DIRECTIONS[preset]).multiplyScalar(160);
+
+  const controls = new OrbitControls(perspective, element);
+  controls.enableDamping = true;
+  controls.dampingFactor = 0.05;
+  controls.screenSpacePanning = true;
+  controls.minDistance = MIN_DISTANCE;
+  controls.maxDistance = MAX_DISTANCE;
+  controls.minZoom = ORTHO_HALF_HEIGHT / MAX_DISTANCE;
+  controls.maxZoom = ORTHO_HALF_HEIGHT / MIN_DISTANCE;
+  controls.rotateSpeed = 1.0;
+  controls.zoomSpeed = 1.2;
+  controls.panSpeed = 0.8;
+  controls.update();
+
+  const viewport = { perspective, orthographic, controls };
+  setProjection(viewport, projection);
+  return viewport;
+};
+
+export const disposeViewport = (viewport: Viewport) => {
+  viewport.controls.dispose();
+};
+
+/** Switch projection, keeping the direction, target and scale of the view. */
+export const setProjection = (viewport: Viewport, projection: Projection) => {
+  if (viewProjection(viewport) === projection) return;
+  const { perspective, orthographic, controls } = viewport;
+  const halfHeight = visibleHalfHeight(viewport);
+  const direction = controls.object.position.clone().sub(controls.target).normalize();
+
+  if (projection === 'orthographic') {
+    orthographic.position.copy(controls.target).addScaledVector(direction, ORTHO_DISTANCE);
+    orthographic.zoom = ORTHO_HALF_HEIGHT / halfHeight;
+    orthographic.updateProjectionMatrix();
+    controls.object = orthographic;
+  } else {
+    const distance = THREE.MathUtils.clamp(halfHeight / halfFieldTangent(perspective), MIN_DISTANCE, MAX_DISTANCE);
+    perspective.position.copy(controls.target).addScaledVector(direction, distance);
+    controls.object = perspective;
+  }
+  controls.update();
+};
+
+/** Look from a preset direction, keeping the target and scale of the view. */
+export const applyViewPreset = (viewport: Viewport, preset: ViewPreset) => {
+  const { controls } = viewport;
+  const distance = controls.object.position.distanceTo(controls.target);
+  controls.object.position.copy(controls.target).addScaledVector(PRESET_DIRECTIONS[preset], distance);
+  controls.update();
+};
+
+/** Center the view on a box and scale it so the whole box shows. */
+export const frameBox = (viewport: Viewport, box: THREE.Box3) => {
+  if (box.isEmpty()) return;
+  const { perspective, orthographic, controls } = viewport;
+  const sphere = box.getBoundingSphere(new THREE.Sphere());
+  const radius = Math.max(sphere.radius, MIN_DISTANCE) * FIT_MARGIN;
+  const direction = controls.object.position.clone().sub(controls.target).normalize();
+  controls.target.copy(sphere.center);
+
+  if (viewProjection(viewport) === 'orthographic') {
+    orthographic.position.copy(sphere.center).addScaledVector(direction, ORTHO_DISTANCE);
+    orthographic.zoom = (ORTHO_HALF_HEIGHT * Math.min(1, perspective.aspect)) / radius;
+    orthographic.updateProjectionMatrix();
+  } else {
+    // Fit the narrower of the vertical and horizontal fields of view
+    const halfField = Math.atan(halfFieldTangent(perspective) * Math.min(1, perspective.aspect));
+    const distance = THREE.MathUtils.clamp(radius / Math.sin(halfField), MIN_DISTANCE, MAX_DISTANCE);
+    perspective.position.copy(sphere.center).addScaledVector(direction, distance);
+  }
+  controls.update();
+};
+
+export const viewPose = (viewport: Viewport): ViewPose => {
+  const { orthographic, controls } = viewport;
+  const { position } = controls.object;
+  return {
+    projection: viewProjection(viewport),
+    position: { x: position.x, y: position.y, z: position.z },
+    target: { x: controls.target.x, y: controls.target.y, z: controls.target.z },
+    zoom: orthographic.zoom,
+  };
+};
+
+/** Put the pane's camera back where a saved pose had it. */
+export const applyViewPose = (viewport: Viewport, pose: ViewPose) => {
+  const { perspective, orthographic, controls } = viewport;
+  controls.object = pose.projection === 'orthographic' ? orthographic : perspective;
+  controls.target.set(pose.target.x, pose.target.y, pose.target.z);
+  controls.object.position.set(pose.position.x, pose.position.y, pose.position.z);
+  orthographic.zoom = THREE.MathUtils.clamp(pose.zoom, controls.minZoom, controls.maxZoom);
+  orthographic.updateProjectionMatrix();
+  controls.update();
+};
+
+export const setViewportAspect = (viewport: Viewport, aspect: number) => {
+  const { perspective, orthographic } = viewport;
+  perspective.aspect = aspect;
+  perspective.updateProjectionMatrix();
+  orthographic.left = -ORTHO_HALF_HEIGHT * aspect;
+  orthographic.right = ORTHO_HALF_HEIGHT * aspect;
+  orthographic.updateProjectionMatrix();
+};
+
+/**
+ * Panes shown by a layout: the whole canvas, four quarters with the main pane top
+ * left, or two halves side by side.
+ */
+export const paneRects = (layout: ViewLayout, width: number, height: number): PaneRect[] => {
+  if (layout === 'single') return [{ x: 0, y: 0, width, height }];
+  const halfWidth = Math.floor(width / 2);
+  if (layout === 'split') {
+    return [
+      { x: 0, y: 0, width: halfWidth, height },
+      { x: halfWidth, y: 0, width: width - halfWidth, height },
+    ];
+  }
+  const halfHeight = Math.floor(height / 2);
+  return [
+    { x: 0, y: 0, width: halfWidth, height: halfHeight },
+    { x: halfWidth, y: 0, width: width - halfWidth, height: halfHeight },
+    { x: 0, y: halfHeight, width: halfWidth, height: height - halfHeight },
+    { x: halfWidth, y: halfHeight, width: width - halfWidth, height: height - halfHeight },
+  ];
+};
+
+/** Index of the pane containing a point given relative to the canvas. */
+export const paneAt = (panes: PaneRect[], x: number, y: number): number => {
+  const index = panes.findIndex((pane) => x < pane.x + pane.width && y < pane.y + pane.height);
+  return index === -1 ? panes.length - 1 : index;
+};
+
+/** Viewport a pane draws with; the split halves share the main one so they stay in sync. */
+export const paneViewport = (layout: ViewLayout, pane: number): number => (layout === 'split' ? 0 : pane);
+
+/** Layers a pane shows: the split halves show one program's path each. */
+export const paneLayerMask = (layout: ViewLayout, pane: number): number => {
+  if (layout !== 'split') return 1 | (1 << BASE_PATH_LAYER) | (1 << COMPARE_PATH_LAYER);
+  return 1 | (1 << (pane === 0 ? BASE_PATH_LAYER : COMPARE_PATH_LAYER));
+};
@@ -1,159 +1,249 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
-import * as THREE from 'three';
-
-interface GCodeCommand {
-  type: string;
-  x?: number;
-  y?: number;
-  z?: number;
-}
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_ARC_TOLERANCE,
+  type DialectId,
+  type Point3,
+  type ProgramSummary,
+  type ToolPath,
+} from '../lib/gcode';
+import type { ParserRequest, ParserResponse, ParserSettings } from '../workers/gcodeParser.worker';
 
 interface UseGCodeParserProps {
   gcodeFile: File | null;
+  arcTolerance?: number;
+  // Machine positions of G54–G59; changing them re-parses the current text
+  workOffsets?: Point3[];
+  // Dialect to read the program as; null detects it from the text and file name
+  dialect?: DialectId | null;
+  // Machine position the program starts from and G28 returns to
+  home?: Point3;
+  // Show the bundled example program while no file is chosen
+  loadDefault?: boolean;
 }
 
+type WorkerRequest = Exclude<ParserRequest, { type: 'cancel' | 'text' }>;
+
+const NO_WORK_OFFSETS: Point3[] = [];
+const MACHINE_ZERO: Point3 = { x: 0, y: 0, z: 0 };
+
 // Default G-code path
 const DEFAULT_GCODE_PATH = '/models/test.gcode';
 
-export const useGCodeParser = ({ gcodeFile }: UseGCodeParserProps) => {
-  const [toolPath, setToolPath] = useState<THREE.Line | null>(null);
+// Wait for typing to pause before re-parsing an edit
+const EDIT_PARSE_DELAY = 250;
+
+const sameSettings = (a: ParserSettings, b: ParserSettings): boolean =>
+  a.workOffsets === b.workOffsets &&
+  a.dialect === b.dialect &&
+  a.arcTolerance === b.arcTolerance &&
+  a.home === b.home;
+
+export const useGCodeParser = ({
+  gcodeFile,
+  arcTolerance = DEFAULT_ARC_TOLERANCE,
+  workOffsets = NO_WORK_OFFSETS,
+  dialect = null,
+  home = MACHINE_ZERO,
+  loadDefault = true,
+}: UseGCodeParserProps) => {
+  // Program text as shown in the editor; may be ahead of the parsed program while typing.
+  // The worker keeps the text of a loaded file; it is only copied here once asked for.
+  const [content, setContent] = useState<string | null>(null);
+  const contentRef = useRef<string | null>(null);
+  const [program, setProgram] = useState<ProgramSummary | null>(null);
+  // Flattened segments built by the worker; the scene turns these into GPU geometry
+  const [toolPath, setToolPath] = useState<ToolPath | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Share of the file read, or of the text parsed again after a settings change; null when idle
+  const [progress, setProgress] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
-  
-  // Use ref to track toolPath for cleanup
-  const toolPathRef = useRef<THREE.Line | null>(null);
-
-  // Update ref when toolPath changes
-  useEffect(() => {
-    toolPathRef.current = toolPath;
-  }, [toolPath]);
-
-  // Cleanup function for the tool path
-  const cleanupToolPath = useCallback((path: THREE.Line | null) => {
-    if (path) {
-      path.geometry.dispose();
-      (path.material as THREE.Material).dispose();
-    }
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+  // Request the worker is busy with; responses to any other are stale
+  const pendingRef = useRef<WorkerRequest | null>(null);
+  // Settings the shown program was parsed with, null when nothing is loaded
+  const appliedRef = useRef<ParserSettings | null>(null);
+  const settingsRef = useRef<ParserSettings>({ workOffsets, dialect, arcTolerance, home });
+  const editTimerRef = useRef<number | null>(null);
+  // Request whose result is shown, and text requests waiting for the worker
+  const shownResultRef = useRef<number | null>(null);
+  const textRequestsRef = useRef(new Map<number, (content: string | null) => void>());
+
+  const showContent = useCallback((text: string | null) => {
+    contentRef.current = text;
+    setContent(text);
   }, []);
 
-  const parseGCode = useCallback((content: string): GCodeCommand[] => {
-    const commands: GCodeCommand[] = [];
-    const lines = content.split('\n');
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (!trimmedLine || trimmedLine.startsWith(';')) continue;
-
-      const command: GCodeCommand = { type: '' };
-      const parts = trimmedLine.split(' ');
-
-      for (const part of parts) {
-        const code = part.charAt(0).toUpperCase();
-        const value = Number.parseFloat(part.slice(1));
-
-        if (code === 'G') {
-          command.type = part;
-        } else if (!Number.isNaN(value)) {
-          switch (code) {
-            case 'X':
-              command.x = value;
-              break;
-            case 'Y':
-              command.y = value;
-              break;
-            case 'Z':
-              command.z = value;
-              break;
-          }
-        }
-      }
-
-      if (command.type && (command.x !== undefined || command.y !== undefined || command.z !== undefined)) {
-        commands.push(command);
-      }
+  const cancelPendingEdit = useCallback(() => {
+    if (editTimerRef.current !== null) {
+      window.clearTimeout(editTimerRef.current);
+      editTimerRef.current = null;
     }
+  }, []);
 
-    return commands;
+  const startRequest = useCallback((request: WorkerRequest) => {
+    pendingRef.current = request;
+    workerRef.current?.postMessage(request);
   }, []);
 
-  const createToolPath = useCallback((commands: GCodeCommand[]): THREE.Line => {
-    const points: THREE.Vector3[] = [];
-    let currentPosition = new THREE.Vector3(0, 0, 0);
+  // Apply settings changed since the shown program was parsed, once the worker is free
+  const syncSettings = useCallback(() => {
+    const applied = appliedRef.current;
+    if (!applied || pendingRef.current || sameSettings(applied, settingsRef.current)) return;
+    startRequest({ type: 'configure', id: ++requestIdRef.current, settings: settingsRef.current });
+  }, [startRequest]);
+
+  // Stop a load or re-parse in progress; a cancelled load leaves nothing loaded
+  const cancel = useCallback(() => {
+    if (!pendingRef.current) return;
+    pendingRef.current = null;
+    const request: ParserRequest = { type: 'cancel' };
+    workerRef.current?.postMessage(request);
+    setIsLoading(false);
+    setProgress(null);
+  }, []);
 
-    for (const command of commands) {
-      if (command.type.startsWith('G0') || command.type.startsWith('G1')) {
-        const newPosition = currentPosition.clone();
-        if (command.x !== undefined) newPosition.x = command.x;
-        if (command.y !== undefined) newPosition.y = command.y;
-        if (command.z !== undefined) newPosition.z = command.z;
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/gcodeParser.worker.ts', import.meta.url));
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<ParserResponse>) => {
+      const response = event.data;
+      if (response.type === 'text') {
+        const resolve = textRequestsRef.current.get(response.id);
+        textRequestsRef.current.delete(response.id);
+        // Text of a result that has been replaced since is no use
+        const current = response.resultId !== null && response.resultId === shownResultRef.current;
+        if (current && contentRef.current === null) showContent(response.content);
+        resolve?.(current ? contentRef.current : null);
+        return;
+      }
+      const pending = pendingRef.current;
+      if (!pending || response.id !== pending.id) return;
+      if (response.type === 'progress') {
+        setProgress(response.progress);
+        return;
+      }
 
-        points.push(currentPosition.clone());
-        points.push(newPosition.clone());
-        currentPosition = newPosition;
+      pendingRef.current = null;
+      setIsLoading(false);
+      setProgress(null);
+      if (response.type === 'error') {
+        console.error('Error loading/parsing G-code:', response.message);
+        setError(`Failed to load G-code: ${response.message}`);
+        appliedRef.current = null;
+        shownResultRef.current = null;
+        showContent(null);
+        setProgram(null);
+        setToolPath(null);
+        return;
       }
-    }
 
-    // Ensure we have at least 2 points for a valid line
-    if (points.length < 2) {
-      // Create a small default path if no valid path exists
-      points.push(new THREE.Vector3(-10, 0, 0));
-      points.push(new THREE.Vector3(10, 0, 0));
-    }
+      appliedRef.current = pending.settings;
+      shownResultRef.current = response.id;
+      // A new file's text stays in the worker until it is read
+      if (pending.type === 'load') showContent(null);
+      setProgram(response.program);
+      setToolPath(response.toolPath);
+      setError(null);
+      syncSettings();
+    };
 
-    const geometry = new THREE.BufferGeometry().setFromPoints(points);
-    const material = new THREE.LineBasicMaterial({ 
-      color: 0xff0000, 
-      linewidth: 2 
-    });
-    return new THREE.Line(geometry, material);
-  }, []);
+    const textRequests = textRequestsRef.current;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      pendingRef.current = null;
+      textRequests.forEach((resolve) => resolve(null));
+      textRequests.clear();
+    };
+  }, [syncSettings, showContent]);
+
+  // Moving a work zero or the home position, switching dialect or changing the arc tolerance parses the current text again
+  useEffect(() => {
+    settingsRef.current = { workOffsets, dialect, arcTolerance, home };
+    syncSettings();
+  }, [workOffsets, dialect, arcTolerance, home, syncSettings]);
 
   useEffect(() => {
-    // Use ref to get previous path for cleanup
-    const previousPath = toolPathRef.current;
-    
+    // Ignore a fetch that was superseded by a newer file
+    let cancelled = false;
+
     const loadPath = async () => {
-      setIsLoading(true);
+      cancelPendingEdit();
+      cancel();
       setError(null);
-      setToolPath(null); // Clear current path
+      appliedRef.current = null;
+      shownResultRef.current = null;
+      showContent(null);
+      setProgram(null); // Clear current path
+      setToolPath(null);
+      // Nothing to show until a file is chosen
+      if (!gcodeFile && !loadDefault) return;
+      setIsLoading(true);
+      setProgress(0);
 
       try {
-        let content: string;
+        let source: Blob;
         if (gcodeFile) {
           // Load from uploaded file
-          content = await gcodeFile.text();
+          source = gcodeFile;
         } else {
           // Load default file
           const response = await fetch(DEFAULT_GCODE_PATH);
           if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-          content = await response.text();
+          source = await response.blob();
         }
-
-        const commands = parseGCode(content);
-        const path = createToolPath(commands);
-
-        // Cleanup previous path *after* loading/parsing succeeds
-        cleanupToolPath(previousPath);
-        setToolPath(path);
-        setError(null);
-        
+        if (cancelled) return;
+
+        // The worker streams the file and reports back through onmessage
+        startRequest({
+          type: 'load',
+          id: ++requestIdRef.current,
+          source,
+          fileName: gcodeFile?.name ?? DEFAULT_GCODE_PATH,
+          settings: settingsRef.current,
+        });
       } catch (err) {
+        if (cancelled) return;
         console.error("Error loading/parsing G-code:", err);
         setError(`Failed to load G-code: ${err instanceof Error ? err.message : 'Unknown error'}`);
-        cleanupToolPath(previousPath); // Cleanup if loading fails
-        setToolPath(null); // Ensure path is null on error
-      } finally {
-        setIsLoading(false); // Always stop loading
+        setIsLoading(false);
+        setProgress(null);
       }
     };
 
     loadPath();
 
-    // Return cleanup for the path active during this effect run
     return () => {
-      cleanupToolPath(previousPath);
+      cancelled = true;
     };
-  }, [gcodeFile, cleanupToolPath, parseGCode, createToolPath]);
+  }, [gcodeFile, loadDefault, cancelPendingEdit, cancel, startRequest, showContent]);
+
+  useEffect(() => cancelPendingEdit, [cancelPendingEdit]);
+
+  // Apply an edit from the editor; parsing is deferred until typing pauses
+  const updateContent = useCallback((text: string) => {
+    showContent(text);
+    cancelPendingEdit();
+    editTimerRef.current = window.setTimeout(() => {
+      editTimerRef.current = null;
+      startRequest({ type: 'edit', id: ++requestIdRef.current, content: text, settings: settingsRef.current });
+    }, EDIT_PARSE_DELAY);
+  }, [cancelPendingEdit, startRequest, showContent]);
+
+  // Text of the shown program, fetched from the worker the first time; null when nothing is shown
+  const readContent = useCallback((): Promise<string | null> => {
+    if (contentRef.current !== null) return Promise.resolve(contentRef.current);
+    const worker = workerRef.current;
+    if (!worker || shownResultRef.current === null) return Promise.resolve(null);
+    const id = ++requestIdRef.current;
+    const request: ParserRequest = { type: 'text', id };
+    return new Promise((resolve) => {
+      textRequestsRef.current.set(id, resolve);
+      worker.postMessage(request);
+    });
+  }, []);
 
-  return { toolPath, isLoading, error };
-}; 
\ No newline at end of file
+  return { toolPath, program, content, updateContent, readContent, isLoading, progress, cancel, error };
+};
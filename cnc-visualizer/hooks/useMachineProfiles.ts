@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  DEFAULT_MACHINE_PROFILE,
+  duplicateMachineProfile,
+  parseMachineProfiles,
+  serializeMachineProfiles,
+  type MachineProfile,
+} from '../lib/machine';
+
+// Local storage keys for the saved profiles and the one in use
+const STORAGE_KEY = 'cnc-visualizer.machine-profiles';
+const SELECTED_KEY = 'cnc-visualizer.machine';
+
+export const useMachineProfiles = () => {
+  const [profiles, setProfiles] = useState<MachineProfile[]>([DEFAULT_MACHINE_PROFILE]);
+  const [selectedId, setSelectedId] = useState(DEFAULT_MACHINE_PROFILE.id);
+  const [error, setError] = useState<string | null>(null);
+  // Don't overwrite the stored profiles before they have been read
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      const saved = stored ? parseMachineProfiles(stored) : [];
+      if (saved.length > 0) setProfiles(saved);
+      const selected = window.localStorage.getItem(SELECTED_KEY);
+      if (selected && saved.some((profile) => profile.id === selected)) setSelectedId(selected);
+      else if (saved.length > 0) setSelectedId(saved[0].id);
+    } catch (err) {
+      console.error("Error loading machine profiles:", err);
+      setError(`Failed to load saved machines: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    window.localStorage.setItem(STORAGE_KEY, serializeMachineProfiles(profiles));
+    window.localStorage.setItem(SELECTED_KEY, selectedId);
+  }, [profiles, selectedId, loaded]);
+
+  const profile = profiles.find((candidate) => candidate.id === selectedId) ?? profiles[0];
+
+  // Replace the profile with the same id
+  const saveProfile = useCallback((updated: MachineProfile) => {
+    setProfiles((current) => current.map((existing) => (existing.id === updated.id ? updated : existing)));
+  }, []);
+
+  // Add a machine from a project, replacing the saved one with the same id, and switch to it
+  const importProfile = useCallback((imported: MachineProfile) => {
+    setProfiles((current) =>
+      current.some((existing) => existing.id === imported.id)
+        ? current.map((existing) => (existing.id === imported.id ? imported : existing))
+        : [...current, imported]
+    );
+    setSelectedId(imported.id);
+  }, []);
+
+  // Start a new machine from the one in use and switch to it
+  const duplicateProfile = useCallback(() => {
+    const copy = duplicateMachineProfile(profile, `${profile.name} (copy)`);
+    setProfiles((current) => [...current, copy]);
+    setSelectedId(copy.id);
+  }, [profile]);
+
+  // The last profile stays; there is always a machine to check against
+  const removeProfile = useCallback((id: string) => {
+    const remaining = profiles.filter((existing) => existing.id !== id);
+    if (remaining.length === 0) return;
+    setProfiles(remaining);
+    if (id === selectedId) setSelectedId(remaining[0].id);
+  }, [profiles, selectedId]);
+
+  return {
+    profiles,
+    profile,
+    error,
+    selectProfile: setSelectedId,
+    saveProfile,
+    importProfile,
+    duplicateProfile,
+    removeProfile,
+  };
+};
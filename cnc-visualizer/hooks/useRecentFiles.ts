@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export type RecentFileKind = 'model' | 'program' | 'project';
+
+// A cached file, described without its contents
+export interface RecentFile {
+  id: string;
+  name: string;
+  kind: RecentFileKind;
+  // Bytes
+  size: number;
+  // Last opened, ms since the epoch
+  openedAt: number;
+}
+
+interface StoredFile extends RecentFile {
+  data: Blob;
+  // Modification time of the file on disk, kept so a reopened file maps to the same entry
+  lastModified: number;
+}
+
+// IndexedDB database and object store holding the cached files
+const DATABASE_NAME = 'cnc-visualizer';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'recent-files';
+
+// The least recently opened files beyond either limit are dropped; the newest always stays
+const MAX_RECENT_FILES = 12;
+const MAX_CACHE_BYTES = 512 * 1024 * 1024;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+};
+
+// Resolve with the result of a store request once its transaction has committed
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  send: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = send(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Newest first, without the file contents
+const describeFiles = (stored: StoredFile[]): RecentFile[] =>
+  stored
+    .map(({ id, name, kind, size, openedAt }) => ({ id, name, kind, size, openedAt }))
+    .sort((a, b) => b.openedAt - a.openedAt);
+
+// Drop the least recently opened files over the limits and list the rest
+const pruneCache = async (): Promise<RecentFile[]> => {
+  const files = describeFiles(await runRequest('readonly', (store) => store.getAll() as IDBRequest<StoredFile[]>));
+  let total = 0;
+  const kept = files.filter((file, index) => {
+    total += file.size;
+    return index === 0 || (index < MAX_RECENT_FILES && total <= MAX_CACHE_BYTES);
+  });
+  for (const file of files.filter((file) => !kept.includes(file))) {
+    await runRequest('readwrite', (store) => store.delete(file.id));
+  }
+  return kept;
+};
+
+export const useRecentFiles = () => {
+  const [files, setFiles] = useState<RecentFile[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    pruneCache().then(setFiles).catch((err) => {
+      console.error('Error loading recent files:', err);
+      setError(`Failed to load recent files: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    });
+  }, []);
+
+  // Cache a file that was just opened, or mark a cached one as opened again
+  const rememberFile = useCallback(async (file: File, kind: RecentFileKind) => {
+    const stored: StoredFile = {
+      // Reopening the same file replaces its entry; another file of the same name and size gets its own
+      id: `${kind}:${file.name}:${file.size}:${file.lastModified}`,
+      name: file.name,
+      kind,
+      size: file.size,
+      openedAt: Date.now(),
+      data: file,
+      lastModified: file.lastModified,
+    };
+    try {
+      await runRequest('readwrite', (store) => store.put(stored));
+      setFiles(await pruneCache());
+      setError(null);
+    } catch (err) {
+      setError(`Failed to cache ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  }, []);
+
+  // Read a cached file back, null when it is no longer cached; remembering it again moves it to the top
+  const openFile = useCallback(async (recent: RecentFile): Promise<File | null> => {
+    try {
+      const stored = await runRequest('readonly', (store) => store.get(recent.id) as IDBRequest<StoredFile | undefined>);
+      if (!stored) {
+        setFiles((current) => current.filter((file) => file.id !== recent.id));
+        setError(`${recent.name} is no longer cached`);
+        return null;
+      }
+      return new File([stored.data], stored.name, { lastModified: stored.lastModified });
+    } catch (err) {
+      setError(`Failed to open ${recent.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      return null;
+    }
+  }, []);
+
+  const removeFile = useCallback(async (id: string) => {
+    try {
+      await runRequest('readwrite', (store) => store.delete(id));
+      setFiles((current) => current.filter((file) => file.id !== id));
+    } catch (err) {
+      setError(`Failed to remove cached file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  }, []);
+
+  const clearFiles = useCallback(async () => {
+    try {
+      await runRequest('readwrite', (store) => store.clear());
+      setFiles([]);
+      setError(null);
+    } catch (err) {
+      setError(`Failed to clear cached files: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  }, []);
+
+  const cacheSize = files.reduce((total, file) => total + file.size, 0);
+
+  return { files, cacheSize, error, rememberFile, openFile, removeFile, clearFiles };
+};
@@ -1,16 +1,25 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import * as THREE from 'three';
-import { STLLoader } from 'three-stdlib';
+import {
+  loadModelGeometry,
+  MODEL_UNIT_SCALES,
+  type ModelUnit,
+  type UnitSelection,
+} from '../components/three/modelLoaders';
 
 interface UseThreeSetupProps {
-  stlFile: File | null;
+  modelFile: File | null;
+  // Unit the file's coordinates are in; 'auto' trusts the file and defaults to mm
+  units?: UnitSelection;
 }
 
 // Default model path
-const DEFAULT_STL_PATH = '/models/dragon.stl';
+const DEFAULT_MODEL_PATH = '/models/dragon.stl';
 
-export const useThreeSetup = ({ stlFile }: UseThreeSetupProps) => {
+export const useThreeSetup = ({ modelFile, units = 'auto' }: UseThreeSetupProps) => {
   const [model, setModel] = useState<THREE.Mesh | null>(null);
+  // Unit declared by the loaded file, for showing what 'auto' picked
+  const [declaredUnit, setDeclaredUnit] = useState<ModelUnit | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -46,17 +55,22 @@ export const useThreeSetup = ({ stlFile }: UseThreeSetupProps) => {
       setModel(null); // Clear current model
 
       try {
-        const loader = new STLLoader();
-        let geometry: THREE.BufferGeometry;
-
-        if (stlFile) {
+        let buffer: ArrayBuffer;
+        if (modelFile) {
           // Load from uploaded file
-          const arrayBuffer = await stlFile.arrayBuffer();
-          geometry = loader.parse(arrayBuffer);
+          buffer = await modelFile.arrayBuffer();
         } else {
           // Load default file
-          geometry = await loader.loadAsync(DEFAULT_STL_PATH);
+          const response = await fetch(DEFAULT_MODEL_PATH);
+          if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+          buffer = await response.arrayBuffer();
         }
+
+        const { geometry, declaredUnit: fileUnit } = loadModelGeometry(buffer, modelFile?.name ?? DEFAULT_MODEL_PATH);
+        // Everything downstream works in millimeters
+        const unit = units === 'auto' ? fileUnit ?? 'mm' : units;
+        const scale = MODEL_UNIT_SCALES[unit];
+        if (scale !== 1) geometry.scale(scale, scale, scale);
         
         const material = new THREE.MeshPhongMaterial({
           color: 0xaaaaaa,
@@ -69,13 +83,15 @@ export const useThreeSetup = ({ stlFile }: UseThreeSetupProps) => {
         // Cleanup previous model *after* loading/parsing is successful
         cleanupModel(previousModel);
         setModel(mesh);
+        setDeclaredUnit(fileUnit);
         setError(null); 
 
       } catch (err) {
-        console.error("Error loading STL:", err);
-        setError(`Failed to load STL: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        console.error("Error loading model:", err);
+        setError(`Failed to load model: ${err instanceof Error ? err.message : 'Unknown error'}`);
         cleanupModel(previousModel); // Cleanup if loading fails
         setModel(null); // Ensure model is null on error
+        setDeclaredUnit(null);
       } finally {
         setIsLoading(false); // Always stop loading
       }
@@ -87,7 +103,7 @@ export const useThreeSetup = ({ stlFile }: UseThreeSetupProps) => {
     return () => {
       cleanupModel(previousModel);
     };
-  }, [stlFile, cleanupModel]); // Removed model dependency
+  }, [modelFile, units, cleanupModel]); // Removed model dependency
 
-  return { model, isLoading, error };
+  return { model, declaredUnit, isLoading, error };
 }; 
\ No newline at end of file
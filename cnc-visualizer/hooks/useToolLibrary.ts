@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+import { parseToolLibrary, serializeToolLibrary, type Tool } from '../lib/tools';
+
+// Local storage key for the persisted library
+const STORAGE_KEY = 'cnc-visualizer.tool-library';
+
+export const useToolLibrary = () => {
+  const [tools, setTools] = useState<Tool[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Don't overwrite the stored library before it has been read
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (stored) setTools(parseToolLibrary(stored));
+    } catch (err) {
+      console.error("Error loading tool library:", err);
+      setError(`Failed to load saved tools: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    window.localStorage.setItem(STORAGE_KEY, serializeToolLibrary(tools));
+  }, [tools, loaded]);
+
+  // Add a tool or replace the one it was edited from (which may have had another T number)
+  const saveTool = useCallback((tool: Tool, previousNumber: number = tool.number) => {
+    setTools((current) =>
+      [...current.filter((existing) => existing.number !== previousNumber && existing.number !== tool.number), tool]
+        .sort((a, b) => a.number - b.number)
+    );
+  }, []);
+
+  const removeTool = useCallback((number: number) => {
+    setTools((current) => current.filter((tool) => tool.number !== number));
+  }, []);
+
+  const importTools = useCallback(async (file: File) => {
+    try {
+      setTools(parseToolLibrary(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(`Failed to import tools: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  }, []);
+
+  // Take over a whole library, such as one opened with a project
+  const replaceTools = useCallback((library: Tool[]) => {
+    setTools(library);
+    setError(null);
+  }, []);
+
+  const exportTools = useCallback(() => {
+    const blob = new Blob([serializeToolLibrary(tools)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'tool-library.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [tools]);
+
+  return { tools, error, saveTool, removeTool, importTools, replaceTools, exportTools };
+};
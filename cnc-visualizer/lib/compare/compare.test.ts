@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { buildToolPath, parseGCode } from '../gcode';
+import { DEFAULT_MOTION_LIMITS, planPathTiming } from '../machine';
+import { compareToolPaths, DEFAULT_COMPARE_TOLERANCE } from '.';
+
+// Two passes joined by a rapid: a line and a half circle, then a line back. `dy` shifts it
+// along Y, `dz` moves the cutting depth
+const pocket = ({ dy = 0, dz = 0, feed = 500 } = {}) => [
+  'G21 G90',
+  `G0 X0 Y${dy} Z5`,
+  `G1 Z${-1 + dz} F200`,
+  `G1 X20 F${feed}`,
+  `G3 X20 Y${10 + dy} I0 J5`,
+  'G0 Z5',
+  'G0 X0',
+  `G1 Z${-1 + dz}`,
+  `G1 Y${dy}`,
+  'G0 Z5',
+];
+
+const plan = (lines: string[]) => {
+  const program = parseGCode(lines.join('\n'), { dialect: 'grbl' });
+  const path = buildToolPath(program.commands);
+  return { path, timing: planPathTiming(path, DEFAULT_MOTION_LIMITS, program.events) };
+};
+
+const compare = (base: string[], revised: string[], tolerance = DEFAULT_COMPARE_TOLERANCE) => {
+  const before = plan(base);
+  const after = plan(revised);
+  return compareToolPaths(before.path, before.timing, after.path, after.timing, { tolerance });
+};
+
+describe('compareToolPaths', () => {
+  it('finds no differences between identical programs', () => {
+    expect(compare(pocket(), pocket())).toEqual({
+      addedLines: [],
+      removedLines: [],
+      feedChanges: [],
+      timeDifference: 0,
+      regions: [],
+      searchRadius: 0.5,
+    });
+  });
+
+  it('reports a move only the revised program makes, and the cut it strays with', () => {
+    const comparison = compare(pocket(), [...pocket(), 'G1 X30']);
+    expect(comparison.addedLines).toEqual([11]);
+    expect(comparison.removedLines).toEqual([]);
+    expect(comparison.timeDifference).toBeGreaterThan(0);
+    // Nothing in the base program is within the search radius of most of it
+    expect(comparison.regions).toEqual([expect.objectContaining({ side: 'revised', firstLine: 11, lastLine: 11, deviation: Infinity })]);
+  });
+
+  it('reports a move the revised program no longer makes', () => {
+    const comparison = compare([...pocket(), 'G1 X30'], pocket());
+    expect(comparison.addedLines).toEqual([]);
+    expect(comparison.removedLines).toEqual([11]);
+    expect(comparison.regions).toEqual([expect.objectContaining({ side: 'base', firstLine: 11, lastLine: 11 })]);
+  });
+
+  it('reports a feed change once per line, including arcs split into many segments', () => {
+    const comparison = compare(pocket(), pocket({ feed: 800 }));
+    expect(comparison.addedLines).toEqual([]);
+    expect(comparison.removedLines).toEqual([]);
+    expect(comparison.regions).toEqual([]);
+    // The new feed carries over to the moves after it, but not to the F200 plunge before it
+    expect(comparison.feedChanges.map((change) => change.revisedLine)).toEqual([4, 5, 8, 9]);
+    expect(comparison.feedChanges[0]).toEqual({ baseLine: 4, revisedLine: 4, baseFeed: 500, revisedFeed: 800 });
+    expect(comparison.timeDifference).toBeLessThan(0);
+  });
+
+  it.each([0.2, 0.4])('groups the cuts of a pass %s deeper into regions', (depth) => {
+    const comparison = compare(pocket(), pocket({ dz: -depth }));
+    // Only the rapid over to the second pass starts and ends where it did
+    expect(comparison.addedLines).toEqual([3, 4, 5, 6, 8, 9, 10]);
+    expect(comparison.removedLines).toEqual([3, 4, 5, 6, 8, 9, 10]);
+    expect(comparison.feedChanges).toEqual([]);
+    // The rapids between the passes do not split the deeper cuts; the base plunges lie
+    // along the deeper ones, so they do split the base cuts
+    expect(comparison.regions.map(({ side, firstLine, lastLine }) => ({ side, firstLine, lastLine }))).toEqual([
+      { side: 'revised', firstLine: 3, lastLine: 9 },
+      { side: 'base', firstLine: 4, lastLine: 5 },
+      { side: 'base', firstLine: 9, lastLine: 9 },
+    ]);
+    for (const region of comparison.regions) expect(region.deviation).toBeCloseTo(depth, 2);
+  });
+
+  it('ignores a shift within the tolerance', () => {
+    expect(compare(pocket(), pocket({ dy: 0.02 })).regions).toEqual([]);
+  });
+
+  it('reads deviations past the search radius as Infinity, and widens the radius for coarse tolerances', () => {
+    const near = compare(pocket(), pocket({ dy: 0.7 }));
+    expect(near.searchRadius).toBe(0.5);
+    expect(near.regions.map((region) => region.deviation)).toEqual([Infinity, Infinity]);
+
+    const coarse = compare(pocket(), pocket({ dy: 0.7 }), 0.25);
+    expect(coarse.searchRadius).toBe(1);
+    for (const region of coarse.regions) expect(region.deviation).toBeCloseTo(0.7, 2);
+  });
+});
@@ -0,0 +1,224 @@
+import { SegmentKind, type ToolPath } from '../gcode';
+import type { PathTiming } from '../machine';
+import type { Bounds } from '../setup';
+import type {
+  CompareOptions,
+  DivergenceRegion,
+  FeedChange,
+  ProgramComparison,
+  ProgramSide,
+} from './types';
+
+export const DEFAULT_COMPARE_TOLERANCE = 0.05;
+
+// Moves are matched on their end points rounded to 0.001 mm
+const KEY_STEPS_PER_MM = 1000;
+
+// Feeds closer than this (mm/min) count as unchanged
+const FEED_TOLERANCE = 1e-3;
+
+// Deviations are measured out to at least this distance (mm), which also keeps
+// fine tolerances from exploding the spatial grid
+const MIN_SEARCH_RADIUS = 0.5;
+
+// Push a line unless it repeats the last one; arcs produce many segments per line
+const pushLine = (lines: number[], line: number) => {
+  if (lines[lines.length - 1] !== line) lines.push(line);
+};
+
+const moveKey = ({ positions, kinds }: ToolPath, segment: number): string => {
+  let key = `${kinds[segment]}`;
+  for (let offset = segment * 6; offset < segment * 6 + 6; offset++) {
+    key += `,${Math.round(positions[offset] * KEY_STEPS_PER_MM)}`;
+  }
+  return key;
+};
+
+// Pair up moves the two programs share, in program order; the rest were added or removed
+const diffMoves = (base: ToolPath, revised: ToolPath) => {
+  const unmatched = new Map<string, number[]>();
+  for (let segment = base.segmentCount - 1; segment >= 0; segment--) {
+    const key = moveKey(base, segment);
+    const segments = unmatched.get(key);
+    if (segments) segments.push(segment);
+    else unmatched.set(key, [segment]);
+  }
+
+  const matched = new Uint8Array(base.segmentCount);
+  const addedLines: number[] = [];
+  const feedChanges: FeedChange[] = [];
+  for (let segment = 0; segment < revised.segmentCount; segment++) {
+    // Stacks were filled back to front, so pop yields the earliest base move left
+    const match = unmatched.get(moveKey(revised, segment))?.pop();
+    if (match === undefined) {
+      pushLine(addedLines, revised.lines[segment]);
+      continue;
+    }
+    matched[match] = 1;
+    const baseFeed = base.feeds[match];
+    const revisedFeed = revised.feeds[segment];
+    const changed = revised.kinds[segment] !== SegmentKind.Rapid && Math.abs(baseFeed - revisedFeed) > FEED_TOLERANCE;
+    if (changed && feedChanges[feedChanges.length - 1]?.revisedLine !== revised.lines[segment]) {
+      feedChanges.push({ baseLine: base.lines[match], revisedLine: revised.lines[segment], baseFeed, revisedFeed });
+    }
+  }
+
+  const removedLines: number[] = [];
+  for (let segment = 0; segment < base.segmentCount; segment++) {
+    if (!matched[segment]) pushLine(removedLines, base.lines[segment]);
+  }
+  return { addedLines, removedLines, feedChanges };
+};
+
+const distanceToSegment = (positions: Float32Array, segment: number, x: number, y: number, z: number): number => {
+  const offset = segment * 6;
+  const ax = positions[offset];
+  const ay = positions[offset + 1];
+  const az = positions[offset + 2];
+  const dx = positions[offset + 3] - ax;
+  const dy = positions[offset + 4] - ay;
+  const dz = positions[offset + 5] - az;
+  const lengthSquared = dx * dx + dy * dy + dz * dz;
+  const t = lengthSquared > 0
+    ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy + (z - az) * dz) / lengthSquared))
+    : 0;
+  return Math.hypot(ax + dx * t - x, ay + dy * t - y, az + dz * t - z);
+};
+
+// Visit points along a segment no further apart than `step`, both ends included
+const samplePoints = (
+  positions: Float32Array,
+  segment: number,
+  step: number,
+  visit: (x: number, y: number, z: number) => void
+) => {
+  const offset = segment * 6;
+  const [ax, ay, az, bx, by, bz] = positions.subarray(offset, offset + 6);
+  const count = Math.max(1, Math.ceil(Math.hypot(bx - ax, by - ay, bz - az) / step));
+  for (let i = 0; i <= count; i++) {
+    const t = i / count;
+    visit(ax + (bx - ax) * t, ay + (by - ay) * t, az + (bz - az) * t);
+  }
+};
+
+/**
+ * Largest distance from each cutting segment of `from` to the cutting moves of
+ * `to`; rapids get 0. Samples of `to` no more than the search radius apart are
+ * bucketed on a grid twice that size, so anything within the radius of a point
+ * has a sample in one of the 27 cells around it. Further away reads as Infinity.
+ */
+const segmentDeviations = (from: ToolPath, to: ToolPath, searchRadius: number): Float64Array => {
+  const step = searchRadius;
+  const cellSize = searchRadius * 2;
+  const cellKey = (i: number, j: number, k: number) => `${i},${j},${k}`;
+  const grid = new Map<string, number[]>();
+  for (let segment = 0; segment < to.segmentCount; segment++) {
+    if (to.kinds[segment] === SegmentKind.Rapid) continue;
+    samplePoints(to.positions, segment, step, (x, y, z) => {
+      const key = cellKey(Math.floor(x / cellSize), Math.floor(y / cellSize), Math.floor(z / cellSize));
+      const cell = grid.get(key);
+      if (!cell) grid.set(key, [segment]);
+      else if (cell[cell.length - 1] !== segment) cell.push(segment);
+    });
+  }
+
+  const deviations = new Float64Array(from.segmentCount);
+  for (let segment = 0; segment < from.segmentCount; segment++) {
+    if (from.kinds[segment] === SegmentKind.Rapid) continue;
+    let deviation = 0;
+    samplePoints(from.positions, segment, step, (x, y, z) => {
+      const i = Math.floor(x / cellSize);
+      const j = Math.floor(y / cellSize);
+      const k = Math.floor(z / cellSize);
+      let nearest = Infinity;
+      for (let di = -1; di <= 1; di++) {
+        for (let dj = -1; dj <= 1; dj++) {
+          for (let dk = -1; dk <= 1; dk++) {
+            for (const candidate of grid.get(cellKey(i + di, j + dj, k + dk)) ?? []) {
+              nearest = Math.min(nearest, distanceToSegment(to.positions, candidate, x, y, z));
+            }
+          }
+        }
+      }
+      deviation = Math.max(deviation, nearest > searchRadius ? Infinity : nearest);
+    });
+    deviations[segment] = deviation;
+  }
+  return deviations;
+};
+
+const segmentBounds = (positions: Float32Array, segment: number): Bounds => {
+  const offset = segment * 6;
+  return {
+    min: {
+      x: Math.min(positions[offset], positions[offset + 3]),
+      y: Math.min(positions[offset + 1], positions[offset + 4]),
+      z: Math.min(positions[offset + 2], positions[offset + 5]),
+    },
+    max: {
+      x: Math.max(positions[offset], positions[offset + 3]),
+      y: Math.max(positions[offset + 1], positions[offset + 4]),
+      z: Math.max(positions[offset + 2], positions[offset + 5]),
+    },
+  };
+};
+
+const unionBounds = (a: Bounds, b: Bounds): Bounds => ({
+  min: { x: Math.min(a.min.x, b.min.x), y: Math.min(a.min.y, b.min.y), z: Math.min(a.min.z, b.min.z) },
+  max: { x: Math.max(a.max.x, b.max.x), y: Math.max(a.max.y, b.max.y), z: Math.max(a.max.z, b.max.z) },
+});
+
+// Group consecutive diverging cuts into regions; rapids in between do not split a region
+const divergenceRegions = (
+  side: ProgramSide,
+  path: ToolPath,
+  deviations: Float64Array,
+  tolerance: number
+): DivergenceRegion[] => {
+  const regions: DivergenceRegion[] = [];
+  let current: DivergenceRegion | null = null;
+  for (let segment = 0; segment < path.segmentCount; segment++) {
+    if (path.kinds[segment] === SegmentKind.Rapid) continue;
+    const deviation = deviations[segment];
+    if (deviation <= tolerance) {
+      current = null;
+      continue;
+    }
+    const bounds = segmentBounds(path.positions, segment);
+    const line = path.lines[segment];
+    if (current) {
+      current.lastLine = line;
+      current.bounds = unionBounds(current.bounds, bounds);
+      current.deviation = Math.max(current.deviation, deviation);
+    } else {
+      current = { side, firstLine: line, lastLine: line, bounds, deviation };
+      regions.push(current);
+    }
+  }
+  return regions;
+};
+
+/**
+ * Compare a revised program's path with the base one: moves added and removed,
+ * matching moves whose feed changed, the change in run time, and the stretches
+ * of either program's cuts that stray more than the tolerance from the other's.
+ */
+export const compareToolPaths = (
+  base: ToolPath,
+  baseTiming: PathTiming,
+  revised: ToolPath,
+  revisedTiming: PathTiming,
+  { tolerance }: CompareOptions
+): ProgramComparison => {
+  const searchRadius = Math.max(MIN_SEARCH_RADIUS, tolerance * 4);
+  const regions = [
+    ...divergenceRegions('revised', revised, segmentDeviations(revised, base, searchRadius), tolerance),
+    ...divergenceRegions('base', base, segmentDeviations(base, revised, searchRadius), tolerance),
+  ];
+  return {
+    ...diffMoves(base, revised),
+    timeDifference: revisedTiming.totalTime - baseTiming.totalTime,
+    regions,
+    searchRadius,
+  };
+};
@@ -0,0 +1,2 @@
+export * from './types';
+export { compareToolPaths, DEFAULT_COMPARE_TOLERANCE } from './compare';
@@ -0,0 +1,39 @@
+import type { Bounds } from '../setup';
+
+// The program loaded first, and the one compared against it
+export type ProgramSide = 'base' | 'revised';
+
+// A move in both programs whose feed (mm/min) changed
+export interface FeedChange {
+  baseLine: number;
+  revisedLine: number;
+  baseFeed: number;
+  revisedFeed: number;
+}
+
+// Run of consecutive cutting moves of one program lying off the other program's cuts
+export interface DivergenceRegion {
+  side: ProgramSide;
+  firstLine: number;
+  lastLine: number;
+  bounds: Bounds;
+  // Largest distance (mm) from the other path; Infinity when nothing is within the search radius
+  deviation: number;
+}
+
+export interface ProgramComparison {
+  // Source lines of moves only the revised program makes, and of moves it no longer makes
+  addedLines: number[];
+  removedLines: number[];
+  feedChanges: FeedChange[];
+  // Revised run time minus the base run time (s)
+  timeDifference: number;
+  regions: DivergenceRegion[];
+  // Distance (mm) beyond which deviations are not measured
+  searchRadius: number;
+}
+
+export interface CompareOptions {
+  // Distance (mm) a cut may move before it counts as diverging
+  tolerance: number;
+}
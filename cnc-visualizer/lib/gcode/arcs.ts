@@ -0,0 +1,134 @@
+import type { ArcPlane, GCodeCommand, Point3 } from './types';
+
+type Axis = keyof Point3;
+
+// Axis order for each plane: the two arc axes (right-handed) and the helical axis
+const PLANE_AXES: Record<ArcPlane, [Axis, Axis, Axis]> = {
+  XY: ['x', 'y', 'z'],
+  XZ: ['z', 'x', 'y'],
+  YZ: ['y', 'z', 'x'],
+};
+
+// Center offsets matching the arc axes of each plane
+const PLANE_OFFSETS: Record<ArcPlane, ['i' | 'j' | 'k', 'i' | 'j' | 'k']> = {
+  XY: ['i', 'j'],
+  XZ: ['k', 'i'],
+  YZ: ['j', 'k'],
+};
+
+// Allowed mismatch between start and end radius of an I/J/K arc (mm, or relative to the radius)
+const ARC_RADIUS_TOLERANCE = 0.005;
+const ARC_RADIUS_RELATIVE_TOLERANCE = 0.001;
+
+export const isArcCommand = (command: GCodeCommand) => command.type === 'G2' || command.type === 'G3';
+
+interface ArcCenter {
+  axes: [Axis, Axis, Axis];
+  // Center offset from the start point along the two arc axes
+  offset0: number;
+  offset1: number;
+}
+
+// Locate the arc center from I/J/K offsets or by solving the R word
+const resolveArcCenter = (start: Point3, end: Point3, command: GCodeCommand): ArcCenter => {
+  const axes = PLANE_AXES[command.plane];
+  const [axis0, axis1] = axes;
+  const dx = end[axis0] - start[axis0];
+  const dy = end[axis1] - start[axis1];
+
+  if (command.r === undefined) {
+    const [offset0, offset1] = PLANE_OFFSETS[command.plane];
+    return { axes, offset0: command[offset0] ?? 0, offset1: command[offset1] ?? 0 };
+  }
+
+  // Radius format: solve for the center on the perpendicular bisector of the chord
+  const chord = Math.hypot(dx, dy);
+  if (chord === 0) return { axes, offset0: 0, offset1: 0 };
+  const radius = Math.abs(command.r);
+  const h = Math.sqrt(Math.max(0, 4 * radius * radius - dx * dx - dy * dy)) / chord;
+  // Center lies right of the chord for CW arcs under 180 degrees
+  let side = command.type === 'G2' ? -h : h;
+  if (command.r < 0) side = -side;
+  return { axes, offset0: 0.5 * (dx - dy * side), offset1: 0.5 * (dy + dx * side) };
+};
+
+/**
+ * Describe what is wrong with an arc's geometry, or return undefined when
+ * the start and end points both lie on the programmed circle.
+ */
+export const checkArc = (start: Point3, end: Point3, command: GCodeCommand): string | undefined => {
+  const [axis0, axis1] = PLANE_AXES[command.plane];
+  const chord = Math.hypot(end[axis0] - start[axis0], end[axis1] - start[axis1]);
+
+  if (command.r !== undefined) {
+    if (chord === 0) return 'Arc with R word has the same start and end point';
+    const shortfall = chord / 2 - Math.abs(command.r);
+    if (shortfall > ARC_RADIUS_TOLERANCE) {
+      return `Arc radius ${Math.abs(command.r)} is too small for a chord of ${chord.toFixed(4)}`;
+    }
+    return undefined;
+  }
+
+  const { offset0, offset1 } = resolveArcCenter(start, end, command);
+  const startRadius = Math.hypot(offset0, offset1);
+  if (startRadius === 0) return 'Arc has no center offset for the active plane';
+  const endRadius = Math.hypot(
+    end[axis0] - (start[axis0] + offset0),
+    end[axis1] - (start[axis1] + offset1)
+  );
+  const difference = Math.abs(startRadius - endRadius);
+  if (difference > Math.max(ARC_RADIUS_TOLERANCE, startRadius * ARC_RADIUS_RELATIVE_TOLERANCE)) {
+    return `Arc start radius ${startRadius.toFixed(4)} and end radius ${endRadius.toFixed(4)} differ`;
+  }
+  return undefined;
+};
+
+/**
+ * Break a G2/G3 arc into points between start and end (start excluded).
+ * Supports center offsets (I/J/K) and the R word, helical motion along the
+ * axis normal to the plane and full circles when start and end coincide.
+ */
+export const interpolateArc = (
+  start: Point3,
+  end: Point3,
+  command: GCodeCommand,
+  tolerance: number
+): Point3[] => {
+  const clockwise = command.type === 'G2';
+  const { axes, offset0, offset1 } = resolveArcCenter(start, end, command);
+  const [axis0, axis1, linearAxis] = axes;
+
+  const center0 = start[axis0] + offset0;
+  const center1 = start[axis1] + offset1;
+  const radius = Math.hypot(offset0, offset1);
+  if (radius === 0) return [{ ...end }];
+
+  const startAngle = Math.atan2(start[axis1] - center1, start[axis0] - center0);
+  const endAngle = Math.atan2(end[axis1] - center1, end[axis0] - center0);
+  let sweep = endAngle - startAngle;
+  const isFullCircle =
+    Math.abs(end[axis0] - start[axis0]) < 1e-9 && Math.abs(end[axis1] - start[axis1]) < 1e-9;
+  if (clockwise) {
+    if (sweep >= 0 || isFullCircle) sweep -= 2 * Math.PI;
+  } else if (sweep <= 0 || isFullCircle) {
+    sweep += 2 * Math.PI;
+  }
+
+  // Largest angular step whose chord stays within the tolerance of the arc
+  const maxStep = tolerance < radius ? 2 * Math.acos(1 - tolerance / radius) : Math.PI / 2;
+  const steps = Math.max(1, Math.ceil(Math.abs(sweep) / maxStep));
+  const linearDelta = end[linearAxis] - start[linearAxis];
+
+  const points: Point3[] = [];
+  for (let step = 1; step < steps; step++) {
+    const t = step / steps;
+    const angle = startAngle + sweep * t;
+    const point = { x: 0, y: 0, z: 0 };
+    point[axis0] = center0 + radius * Math.cos(angle);
+    point[axis1] = center1 + radius * Math.sin(angle);
+    point[linearAxis] = start[linearAxis] + linearDelta * t;
+    points.push(point);
+  }
+  points.push({ ...end });
+  return points;
+};
@@ -0,0 +1,93 @@
+import type { CycleCode, Point3 } from './types';
+
+export const CYCLE_CODES: Set<string> = new Set<CycleCode>(['G73', 'G81', 'G82', 'G83', 'G84', 'G85', 'G89']);
+
+// Gap left above the previous peck before feeding again, mm (LinuxCNC uses 0.010")
+const PECK_CLEARANCE = 0.254;
+
+export interface CycleLevels {
+  // R plane, where feeding starts
+  r: number;
+  // Hole bottom
+  bottom: number;
+  // Height the tool leaves the hole to (the starting Z for G98, the R plane for G99)
+  retract: number;
+  // Peck depth for G73 / G83; Infinity drills in one go
+  peck: number;
+  // Dwell at the bottom, s
+  dwell: number;
+}
+
+export interface CycleMove {
+  rapid: boolean;
+  point: Point3;
+}
+
+export interface CyclePlan {
+  moves: CycleMove[];
+  // Dwells, each after the given number of moves
+  dwells: { after: number; seconds: number }[];
+}
+
+/**
+ * Moves one canned cycle makes at one hole, starting from the current Z:
+ * rapid over the hole and down to the R plane, the cycle's drilling motion,
+ * then out to the retract height.
+ */
+export const planCycle = (code: CycleCode, x: number, y: number, startZ: number, levels: CycleLevels): CyclePlan => {
+  const { r, bottom, retract, peck, dwell } = levels;
+  const moves: CycleMove[] = [];
+  const dwells: CyclePlan['dwells'] = [];
+  const rapid = (z: number) => moves.push({ rapid: true, point: { x, y, z } });
+  const feed = (z: number) => moves.push({ rapid: false, point: { x, y, z } });
+  const pause = () => {
+    if (dwell > 0) dwells.push({ after: moves.length, seconds: dwell });
+  };
+
+  moves.push({ rapid: true, point: { x, y, z: startZ } });
+  rapid(r);
+
+  switch (code) {
+    case 'G73':
+    case 'G83': {
+      // Peck down; G83 clears chips by leaving the hole, G73 only breaks them with a short lift
+      let depth = r;
+      while (depth > bottom) {
+        const target = Math.max(depth - peck, bottom);
+        feed(target);
+        depth = target;
+        if (depth <= bottom) break;
+        if (code === 'G83') {
+          rapid(r);
+          rapid(Math.min(depth + PECK_CLEARANCE, r));
+        } else {
+          rapid(Math.min(depth + PECK_CLEARANCE, r));
+        }
+      }
+      rapid(retract);
+      break;
+    }
+    case 'G84':
+      // Tap in, reverse the spindle and feed back out
+      feed(bottom);
+      pause();
+      feed(r);
+      rapid(retract);
+      break;
+    case 'G85':
+    case 'G89':
+      // Bore in and feed back out so the wall is not marked
+      feed(bottom);
+      if (code === 'G89') pause();
+      feed(r);
+      rapid(retract);
+      break;
+    default:
+      // G81 drills, G82 also dwells at the bottom
+      feed(bottom);
+      if (code === 'G82') pause();
+      rapid(retract);
+  }
+
+  return { moves, dwells };
+};
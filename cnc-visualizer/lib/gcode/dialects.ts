@@ -0,0 +1,148 @@
+export type DialectId = 'grbl' | 'marlin' | 'linuxcnc' | 'fanuc';
+
+// How one controller family reads a program
+export interface Dialect {
+  id: DialectId;
+  label: string;
+  // G and M codes the controller accepts that the simulator understands
+  codes: Set<string>;
+  // #n / #<name> parameters, [expressions] and functions
+  parameters: boolean;
+  // An O word starts a program number (Fanuc) instead of being unknown
+  programNumbers: boolean;
+  // LinuxCNC O-word subroutines and loops, which are not simulated
+  controlFlow: boolean;
+  // Codes whose remaining text is a message rather than words (Marlin M117)
+  messageCodes: Set<string>;
+  // Lines starting with $ are controller commands (GRBL settings, homing, jogging)
+  systemCommands: boolean;
+  // Axis words without a decimal point count least input increments (X10 = 0.010 mm);
+  // applied only when the dialect is chosen, not when it is detected
+  implicitDecimal: boolean;
+  // A T word changes the tool immediately instead of waiting for M6
+  toolChangeOnSelect: boolean;
+  // G28 homes the named axes (or all) by moving to the machine's home position
+  homing: boolean;
+  // Feed used before the program sets one (mm/min); 0 means moves need an F word
+  initialFeedRate: number;
+  // G4 P counts milliseconds instead of seconds
+  dwellMilliseconds: boolean;
+}
+
+const codeRange = (letter: string, from: number, to: number): string[] =>
+  Array.from({ length: to - from + 1 }, (_, index) => `${letter}${from + index}`);
+
+// Motion, planes, units, distance modes and work offsets every supported controller has
+const COMMON_CODES = [
+  ...codeRange('G', 0, 4),
+  'G17', 'G18', 'G19', 'G20', 'G21',
+  'G53', ...codeRange('G', 54, 59),
+  'G90', 'G91', 'G92',
+  'M0', 'M1', ...codeRange('M', 3, 5), 'M7', 'M8', 'M9',
+];
+
+// Program end, tool change and canned cycles, which 3D-printer firmware does without
+// (GRBL itself has no canned cycles, but grblHAL does)
+const MILLING_CODES = ['M2', 'M30', 'M6', 'G73', ...codeRange('G', 81, 85), 'G89', 'G80', 'G98', 'G99'];
+
+export const DIALECTS: Record<DialectId, Dialect> = {
+  grbl: {
+    id: 'grbl',
+    label: 'GRBL',
+    codes: new Set([...COMMON_CODES, ...MILLING_CODES, 'G40', 'G49', 'G61', 'G91.1', 'G92.1', 'G94']),
+    parameters: false,
+    programNumbers: false,
+    controlFlow: false,
+    messageCodes: new Set(),
+    systemCommands: true,
+    implicitDecimal: false,
+    toolChangeOnSelect: false,
+    homing: false,
+    initialFeedRate: 0,
+    dwellMilliseconds: false,
+  },
+  marlin: {
+    id: 'marlin',
+    label: 'Marlin',
+    codes: new Set([
+      ...COMMON_CODES,
+      'G28', 'M82', 'M83', 'M84', 'M104', 'M105', 'M106', 'M107', 'M109',
+      'M117', 'M118', 'M140', 'M190', 'M220', 'M221', 'M400',
+    ]),
+    parameters: false,
+    programNumbers: false,
+    controlFlow: false,
+    messageCodes: new Set(['M117', 'M118']),
+    systemCommands: false,
+    implicitDecimal: false,
+    toolChangeOnSelect: true,
+    homing: true,
+    // Marlin starts with a 1500 mm/min feed rate
+    initialFeedRate: 1500,
+    dwellMilliseconds: true,
+  },
+  linuxcnc: {
+    id: 'linuxcnc',
+    label: 'LinuxCNC',
+    codes: new Set([
+      ...COMMON_CODES, ...MILLING_CODES,
+      'G40', 'G43', 'G49', 'G61', 'G61.1', 'G64', 'G90.1', 'G91.1', 'G92.1', 'G94', 'M48', 'M49',
+    ]),
+    parameters: true,
+    programNumbers: false,
+    controlFlow: true,
+    messageCodes: new Set(),
+    systemCommands: false,
+    implicitDecimal: false,
+    toolChangeOnSelect: false,
+    homing: false,
+    initialFeedRate: 0,
+    dwellMilliseconds: false,
+  },
+  fanuc: {
+    id: 'fanuc',
+    label: 'Fanuc',
+    codes: new Set([...COMMON_CODES, ...MILLING_CODES, 'G40', 'G43', 'G49', 'G61', 'G64', 'G94']),
+    parameters: true,
+    programNumbers: true,
+    controlFlow: false,
+    messageCodes: new Set(),
+    systemCommands: false,
+    implicitDecimal: true,
+    toolChangeOnSelect: false,
+    homing: false,
+    initialFeedRate: 0,
+    dwellMilliseconds: true,
+  },
+};
+
+export const DIALECT_IDS = Object.keys(DIALECTS) as DialectId[];
+
+/** Extensions the G-code file picker accepts. */
+export const GCODE_EXTENSIONS = ['.gcode', '.gco', '.nc', '.ngc', '.tap', '.cnc'];
+
+export const isGCodeFileName = (name: string): boolean =>
+  GCODE_EXTENSIONS.some((extension) => name.toLowerCase().endsWith(extension));
+
+// Only the start of a program is inspected when detecting its dialect
+const DETECT_CHARACTERS = 20000;
+
+const MARLIN_PATTERN = /;\s*FLAVOR:|;\s*Generated with|^\s*M1(?:04|09|40|90)\b|^\s*G1\b[^;\n]*\bE[-+.\d]/im;
+const LINUXCNC_PATTERN = /#<|^\s*o\d+\s+(?:sub|call|if|while|do)\b/im;
+// A program number alone on its line, optionally followed by a comment
+const FANUC_PATTERN = /^\s*O\d+\s*(?:\(.*)?$/m;
+const PARAMETER_PATTERN = /#\d+\s*=/;
+
+/**
+ * Guess the dialect from slicer comments and extruder words (Marlin), named
+ * parameters and O-word subroutines (LinuxCNC), program numbers (Fanuc), then
+ * numbered parameters or a .ngc name (LinuxCNC). Anything else is read as GRBL.
+ */
+export const detectDialect = (content: string, fileName = ''): DialectId => {
+  const head = content.slice(0, DETECT_CHARACTERS);
+  if (MARLIN_PATTERN.test(head)) return 'marlin';
+  if (LINUXCNC_PATTERN.test(head)) return 'linuxcnc';
+  if (FANUC_PATTERN.test(head)) return 'fanuc';
+  if (PARAMETER_PATTERN.test(head) || fileName.toLowerCase().endsWith('.ngc')) return 'linuxcnc';
+  return 'grbl';
+};
@@ -0,0 +1,140 @@
+// Parameter values by name: "5" for #5, "<depth>" for #<depth> (names are case-insensitive)
+export type Parameters = Map<string, number>;
+
+// Read position within a line; the readers advance `index` past what they consume
+export interface Cursor {
+  text: string;
+  index: number;
+}
+
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)/y;
+const FUNCTION_PATTERN = /[A-Za-z]+(?=\s*\[)/y;
+
+const DEGREES_TO_RADIANS = Math.PI / 180;
+
+// Functions take one bracketed argument; trigonometry works in degrees like the controllers do
+const FUNCTIONS: Record<string, (value: number) => number> = {
+  ABS: Math.abs,
+  SQRT: Math.sqrt,
+  SIN: (value) => Math.sin(value * DEGREES_TO_RADIANS),
+  COS: (value) => Math.cos(value * DEGREES_TO_RADIANS),
+  TAN: (value) => Math.tan(value * DEGREES_TO_RADIANS),
+  ROUND: Math.round,
+  FIX: Math.floor,
+  FUP: Math.ceil,
+};
+
+const skipSpaces = (cursor: Cursor) => {
+  while (cursor.index < cursor.text.length && /\s/.test(cursor.text[cursor.index])) cursor.index++;
+};
+
+const expect = (cursor: Cursor, char: string) => {
+  skipSpaces(cursor);
+  if (cursor.text[cursor.index] !== char) throw new Error(`Expected "${char}"`);
+  cursor.index++;
+};
+
+/** Read a plain decimal number, or return null when there is none at the cursor. */
+export const readNumber = (cursor: Cursor): number | null => {
+  NUMBER_PATTERN.lastIndex = cursor.index;
+  const match = NUMBER_PATTERN.exec(cursor.text);
+  if (!match) return null;
+  cursor.index += match[0].length;
+  return Number(match[0]);
+};
+
+/** Read the name after a "#": digits, a <named> parameter or an indirect #[expression]. */
+export const readParameterName = (cursor: Cursor, parameters: Parameters): string => {
+  skipSpaces(cursor);
+  const { text } = cursor;
+  if (text[cursor.index] === '<') {
+    const end = text.indexOf('>', cursor.index);
+    if (end === -1) throw new Error('Unterminated parameter name');
+    const name = text.slice(cursor.index, end + 1).replace(/\s+/g, '').toLowerCase();
+    cursor.index = end + 1;
+    return name;
+  }
+  const value = readValue(cursor, parameters);
+  if (!Number.isInteger(value) || value < 0) throw new Error(`Invalid parameter number ${value}`);
+  return String(value);
+};
+
+const readParameter = (cursor: Cursor, parameters: Parameters): number => {
+  const name = readParameterName(cursor, parameters);
+  const value = parameters.get(name);
+  if (value !== undefined) return value;
+  // Unset numbered parameters read as zero; a named one is a mistake
+  if (name.startsWith('<')) throw new Error(`Parameter #${name} is not set`);
+  return 0;
+};
+
+const readExpression = (cursor: Cursor, parameters: Parameters): number => {
+  let value = readTerm(cursor, parameters);
+  for (;;) {
+    skipSpaces(cursor);
+    const operator = cursor.text[cursor.index];
+    if (operator !== '+' && operator !== '-') return value;
+    cursor.index++;
+    const right = readTerm(cursor, parameters);
+    value = operator === '+' ? value + right : value - right;
+  }
+};
+
+const readTerm = (cursor: Cursor, parameters: Parameters): number => {
+  let value = readValue(cursor, parameters);
+  for (;;) {
+    skipSpaces(cursor);
+    const operator = cursor.text[cursor.index];
+    if (operator !== '*' && operator !== '/') return value;
+    cursor.index++;
+    const right = readValue(cursor, parameters);
+    if (operator === '/' && right === 0) throw new Error('Division by zero');
+    value = operator === '*' ? value * right : value / right;
+  }
+};
+
+/**
+ * Read one value: a number, a #parameter, a [bracketed expression] or a
+ * function call, with an optional leading sign. Throws on anything else.
+ */
+export const readValue = (cursor: Cursor, parameters: Parameters): number => {
+  skipSpaces(cursor);
+  const { text } = cursor;
+  const char = text[cursor.index];
+
+  if (char === '-' || char === '+') {
+    // A sign directly before a number is part of the number
+    const number = readNumber(cursor);
+    if (number !== null) return number;
+    cursor.index++;
+    const value = readValue(cursor, parameters);
+    return char === '-' ? -value : value;
+  }
+  if (char === '#') {
+    cursor.index++;
+    return readParameter(cursor, parameters);
+  }
+  if (char === '[') {
+    cursor.index++;
+    const value = readExpression(cursor, parameters);
+    expect(cursor, ']');
+    return value;
+  }
+
+  FUNCTION_PATTERN.lastIndex = cursor.index;
+  const call = FUNCTION_PATTERN.exec(text);
+  if (call) {
+    const apply = FUNCTIONS[call[0].toUpperCase()];
+    if (!apply) throw new Error(`Unknown function ${call[0].toUpperCase()}`);
+    cursor.index += call[0].length;
+    skipSpaces(cursor);
+    cursor.index++;
+    const argument = readExpression(cursor, parameters);
+    expect(cursor, ']');
+    return apply(argument);
+  }
+
+  const number = readNumber(cursor);
+  if (number === null) throw new Error(char === undefined ? 'Missing value' : `Unexpected "${char}"`);
+  return number;
+};
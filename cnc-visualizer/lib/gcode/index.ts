@@ -0,0 +1,20 @@
+export * from './types';
+export {
+  createInitialState,
+  createProgramStream,
+  formatCode,
+  isSupportedCode,
+  parseGCode,
+  tokenizeLine,
+  updateGCode,
+  WORK_OFFSET_CODES,
+} from './parser';
+export type { Assignment, ParseOptions, ProgramStream, ProgramStreamOptions, TokenizedLine } from './parser';
+export { DIALECT_IDS, DIALECTS, detectDialect, GCODE_EXTENSIONS, isGCodeFileName } from './dialects';
+export type { Dialect, DialectId } from './dialects';
+export type { Parameters } from './expressions';
+export { checkArc, interpolateArc, isArcCommand } from './arcs';
+export { buildToolPath, createToolPathBuilder, DEFAULT_ARC_TOLERANCE } from './toolpath';
+export type { ToolPathBuilder, ToolPathOptions } from './toolpath';
+export { summarizeProgram, tallyMoves } from './summary';
+export type { MoveTally } from './summary';
@@ -0,0 +1,471 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildToolPath,
+  checkArc,
+  createProgramStream,
+  DIALECTS,
+  detectDialect,
+  interpolateArc,
+  parseGCode,
+  summarizeProgram,
+  tallyMoves,
+  tokenizeLine,
+  updateGCode,
+  type GCodeCommand,
+  type Point3,
+} from '.';
+
+const parse = (text: string) => parseGCode(text, { dialect: 'grbl' });
+
+const moveEnds = (commands: GCodeCommand[]): Point3[] => commands.map(({ x, y, z }) => ({ x, y, z }));
+
+// Every interpolated point of an arc lies on its circle in the arc's plane
+const expectOnCircle = (points: Point3[], center: Point3, radius: number, axes: [keyof Point3, keyof Point3]) => {
+  for (const point of points) {
+    expect(Math.hypot(point[axes[0]] - center[axes[0]], point[axes[1]] - center[axes[1]])).toBeCloseTo(radius, 3);
+  }
+};
+
+describe('block shape', () => {
+  it('keeps the line, words, comments and resulting state of each block', () => {
+    const program = parse([
+      '(Facing pass, 6mm flat end mill)',
+      '',
+      'N10 G21 G90 G17 ; metric, absolute',
+      'N20 G0 X10.5 Y-2 Z5 (rapid to start)',
+    ].join('\n'));
+
+    // Blank lines are skipped; line numbers follow the source
+    expect(program.blocks.map((block) => block.line)).toEqual([1, 3, 4]);
+
+    const [header, setup, rapid] = program.blocks;
+    expect(header.words).toEqual([]);
+    expect(header.comments).toEqual(['Facing pass, 6mm flat end mill']);
+
+    expect(setup.words.map((word) => word.raw)).toEqual(['N10', 'G21', 'G90', 'G17']);
+    expect(setup.comments).toEqual(['metric, absolute']);
+    expect(setup.commands).toEqual([]);
+
+    expect(rapid.words).toContainEqual({ letter: 'X', value: 10.5, raw: 'X10.5' });
+    expect(rapid.comments).toEqual(['rapid to start']);
+    expect(rapid.state).toMatchObject({
+      motion: 'G0',
+      units: 'mm',
+      distanceMode: 'absolute',
+      plane: 'XY',
+      position: { x: 10.5, y: -2, z: 5 },
+    });
+    expect(rapid.commands).toHaveLength(1);
+    expect(rapid.commands[0]).toMatchObject({ type: 'G0', x: 10.5, y: -2, z: 5, line: 4 });
+  });
+
+  it('gives each block its own copy of the state', () => {
+    const program = parse('G0 X1\nG0 X2');
+    expect(program.blocks[0].state.position.x).toBe(1);
+    expect(program.blocks[1].state.position.x).toBe(2);
+  });
+
+  it('stops at the program end', () => {
+    const program = parse('G0 X1\nM30\nG0 X2');
+    expect(program.blocks.map((block) => block.line)).toEqual([1, 2]);
+    expect(program.commands).toHaveLength(1);
+  });
+});
+
+describe('modal continuation', () => {
+  it('repeats the last motion code for axis-only lines', () => {
+    const program = parse([
+      'G21 G90',
+      'G1 X10 Y0 Z-1 F300',
+      'X20',
+      'Y15',
+      'G0 Z5',
+      'X0 Y0',
+    ].join('\n'));
+    expect(program.commands.map((command) => command.type)).toEqual(['G1', 'G1', 'G1', 'G0', 'G0']);
+    expect(moveEnds(program.commands)).toEqual([
+      { x: 10, y: 0, z: -1 },
+      { x: 20, y: 0, z: -1 },
+      { x: 20, y: 15, z: -1 },
+      { x: 20, y: 15, z: 5 },
+      { x: 0, y: 0, z: 5 },
+    ]);
+  });
+
+  it('keeps the feed rate until a new F word', () => {
+    const program = parse('G1 X1 F250\nX2\nX3 F500\nX4');
+    expect(program.commands.map((command) => command.feed)).toEqual([250, 250, 500, 500]);
+  });
+
+  it('carries the arc plane', () => {
+    const program = parse('G18\nG1 X1 F100\nG2 X2 Z0 I0.5 K0');
+    expect(program.commands.map((command) => command.plane)).toEqual(['XZ', 'XZ']);
+  });
+
+  it('reads zero-padded codes such as G01 as their short form', () => {
+    const program = parse('G01 X5 F100\nG00 Z3');
+    expect(program.commands.map((command) => command.type)).toEqual(['G1', 'G0']);
+  });
+});
+
+describe('units', () => {
+  it('converts G20 inch coordinates and feeds to millimeters', () => {
+    const program = parse('G20 G90\nG1 X1 Y0.5 Z-0.1 F10');
+    const [move] = program.commands;
+    expect(move.x).toBeCloseTo(25.4);
+    expect(move.y).toBeCloseTo(12.7);
+    expect(move.z).toBeCloseTo(-2.54);
+    expect(move.feed).toBeCloseTo(254);
+    expect(program.blocks[1].state.units).toBe('inch');
+  });
+
+  it('switches back to millimeters on G21 without moving the tool', () => {
+    const program = parse('G20\nG0 X1\nG21\nG0 Y10');
+    expect(moveEnds(program.commands)).toEqual([
+      { x: 25.4, y: 0, z: 0 },
+      { x: 25.4, y: 10, z: 0 },
+    ]);
+  });
+});
+
+describe('distance mode', () => {
+  it('adds G91 words to the current position', () => {
+    const program = parse('G90 G0 X10 Y10\nG91\nG1 X5 F100\nX5 Y-2\nG90\nX0');
+    expect(moveEnds(program.commands)).toEqual([
+      { x: 10, y: 10, z: 0 },
+      { x: 15, y: 10, z: 0 },
+      { x: 20, y: 8, z: 0 },
+      { x: 0, y: 8, z: 0 },
+    ]);
+    expect(program.blocks.map((block) => block.state.distanceMode)).toEqual([
+      'absolute',
+      'incremental',
+      'incremental',
+      'incremental',
+      'absolute',
+      'absolute',
+    ]);
+  });
+
+  it('measures incremental moves in the active units', () => {
+    const program = parse('G20 G91\nG0 X1\nX1');
+    expect(program.commands[1].x).toBeCloseTo(50.8);
+  });
+});
+
+describe('arcs', () => {
+  it('reads I/J centers on G17', () => {
+    const program = parse('G17 G0 X10 Y0\nG3 X0 Y10 I-10 J0 F200');
+    const arc = program.commands[1];
+    expect(arc).toMatchObject({ type: 'G3', plane: 'XY', i: -10, j: 0, x: 0, y: 10 });
+    expect(program.diagnostics.filter((diagnostic) => diagnostic.severity === 'error')).toEqual([]);
+    const points = interpolateArc({ x: 10, y: 0, z: 0 }, arc, arc, 0.01);
+    expectOnCircle(points, { x: 0, y: 0, z: 0 }, 10, ['x', 'y']);
+    // Counterclockwise from +X to +Y stays in the first quadrant
+    expect(points.every((point) => point.x >= -1e-9 && point.y >= -1e-9)).toBe(true);
+  });
+
+  it('reads I/K centers on G18', () => {
+    const program = parse('G18 G0 X10 Z0\nG2 X0 Z10 I-10 K0 F200');
+    const arc = program.commands[1];
+    expect(arc).toMatchObject({ type: 'G2', plane: 'XZ', i: -10, k: 0 });
+    expect(checkArc({ x: 10, y: 0, z: 0 }, arc, arc)).toBeUndefined();
+    const points = interpolateArc({ x: 10, y: 0, z: 0 }, arc, arc, 0.01);
+    expectOnCircle(points, { x: 0, y: 0, z: 0 }, 10, ['z', 'x']);
+    expect(points.every((point) => point.y === 0)).toBe(true);
+  });
+
+  it('reads J/K centers on G19', () => {
+    const program = parse('G19 G0 Y10 Z0\nG3 Y0 Z10 J-10 K0 F200');
+    const arc = program.commands[1];
+    expect(arc).toMatchObject({ type: 'G3', plane: 'YZ', j: -10, k: 0 });
+    const points = interpolateArc({ x: 0, y: 10, z: 0 }, arc, arc, 0.01);
+    expectOnCircle(points, { x: 0, y: 0, z: 0 }, 10, ['y', 'z']);
+    expect(points.every((point) => point.x === 0)).toBe(true);
+  });
+
+  // G18 looks at the XZ plane from -Y, so the quarter circle about the origin runs clockwise there
+  it.each([
+    ['G17', 'G3', 'X0 Y10', { x: 0, y: 10, z: 0 }, ['x', 'y']],
+    ['G18', 'G2', 'X0 Z10', { x: 0, y: 0, z: 10 }, ['z', 'x']],
+    ['G19', 'G3', 'Y0 Z10', { x: 0, y: 0, z: 10 }, ['y', 'z']],
+  ] as const)('solves R arcs on %s', (plane, motion, target, end, axes) => {
+    const start = { x: plane === 'G19' ? 0 : 10, y: plane === 'G19' ? 10 : 0, z: 0 };
+    const program = parse(`${plane} G0 X${start.x} Y${start.y} Z0\n${motion} ${target} R10 F200`);
+    const arc = program.commands[1];
+    expect(arc.r).toBe(10);
+    expect(moveEnds([arc])).toEqual([end]);
+    expect(checkArc(start, arc, arc)).toBeUndefined();
+    expectOnCircle(interpolateArc(start, arc, arc, 0.01), { x: 0, y: 0, z: 0 }, 10, [axes[0], axes[1]]);
+  });
+
+  it('takes the long way round for a negative R', () => {
+    const program = parse('G0 X10 Y0\nG2 X0 Y10 R-10 F200');
+    const arc = program.commands[1];
+    const points = interpolateArc({ x: 10, y: 0, z: 0 }, arc, arc, 0.01);
+    // Clockwise from +X to +Y over 270 degrees passes through -X
+    expect(Math.min(...points.map((point) => point.x))).toBeLessThan(-9.9);
+  });
+
+  it('reports an I/J arc whose end is off the circle', () => {
+    const program = parse('G0 X10 Y0\nG3 X0 Y12 I-10 J0 F200');
+    expect(program.diagnostics).toContainEqual(expect.objectContaining({ severity: 'error', line: 2 }));
+  });
+
+  it('turns arcs into path segments within the tolerance', () => {
+    const program = parse('G0 X10 Y0\nG3 X-10 Y0 I-10 J0 F200');
+    const path = buildToolPath(program.commands, { arcTolerance: 0.01 });
+    expect(path.segmentCount).toBeGreaterThan(10);
+    for (let segment = 1; segment < path.segmentCount; segment++) {
+      const x = path.positions[segment * 6 + 3];
+      const y = path.positions[segment * 6 + 4];
+      expect(Math.hypot(x, y)).toBeCloseTo(10, 3);
+    }
+  });
+});
+
+describe('canned cycles', () => {
+  // Z of each expanded move, rounded off the peck clearance's float error
+  const heights = (commands: GCodeCommand[]) => commands.map((command) => Number(command.z.toFixed(3)));
+
+  it.each([
+    ['G98', 10],
+    ['G99', 2],
+  ] as const)('retracts a G81 hole for %s to Z%s', (mode, retract) => {
+    const program = parse(`G0 X0 Y0 Z10\n${mode} G81 X5 Y5 Z-3 R2 F100`);
+    const drill = program.commands.slice(1);
+    expect(drill.map((command) => command.type)).toEqual(['G0', 'G0', 'G1', 'G0']);
+    expect(moveEnds(drill)).toEqual([
+      { x: 5, y: 5, z: 10 },
+      { x: 5, y: 5, z: 2 },
+      { x: 5, y: 5, z: -3 },
+      { x: 5, y: 5, z: retract },
+    ]);
+    expect(program.holes).toEqual([{ line: 2, cycle: 'G81', tool: 0, x: 5, y: 5, top: 2, bottom: -3 }]);
+  });
+
+  it('pecks a G83 hole and rapids back to just above each peck', () => {
+    const program = parse('G0 X0 Y0 Z10\nG83 X0 Y0 Z-5 R2 Q2 F100');
+    const drill = program.commands.slice(1);
+    expect(heights(drill)).toEqual([10, 2, 0, 2, 0.254, -2, 2, -1.746, -4, 2, -3.746, -5, 10]);
+    expect(drill.filter((command) => command.type === 'G1').map((command) => command.z)).toEqual([0, -2, -4, -5]);
+  });
+
+  it('repeats an L cycle from each hole in G91', () => {
+    const program = parse('G0 X0 Y0 Z5\nG91 G81 X10 Y0 Z-3 R-3 L3 F100');
+    // The R plane is 3 below the start and the bottom 3 below that
+    expect(program.holes.map(({ x, y, top, bottom }) => ({ x, y, top, bottom }))).toEqual([
+      { x: 10, y: 0, top: 2, bottom: -1 },
+      { x: 20, y: 0, top: 2, bottom: -1 },
+      { x: 30, y: 0, top: 2, bottom: -1 },
+    ]);
+    expect(heights(program.commands.slice(1))).toEqual([5, 2, -1, 5, 5, 2, -1, 5, 5, 2, -1, 5]);
+  });
+
+  it.each(['G82', 'G89'])('dwells at the bottom of each %s hole', (code) => {
+    const program = parse(`G0 X0 Y0 Z5\n${code} X1 Y1 Z-2 R1 P0.5 F100\nX2`);
+    // Over the hole, down to R and feed to the bottom come before the dwell
+    expect(program.events.filter((event) => event.type === 'dwell')).toEqual([
+      { type: 'dwell', line: 2, seconds: 0.5, after: 3 },
+      { type: 'dwell', line: 3, seconds: 0.5, after: 3 },
+    ]);
+    // G89 feeds back out of the bore; G82 rapids
+    const exit = program.commands.filter((command) => command.line === 2)[3];
+    expect(exit).toMatchObject({ type: code === 'G89' ? 'G1' : 'G0', z: code === 'G89' ? 1 : 5 });
+  });
+});
+
+describe('dialect detection', () => {
+  it.each([
+    ['a slicer flavor comment', ';FLAVOR:Marlin\nG1 X10 E0.5', 'marlin'],
+    ['a heater code', 'M104 S200\nG28', 'marlin'],
+    ['an extruder word', 'G21\nG1 X10 Y5 E1.25 F1200', 'marlin'],
+    ['a named parameter', '#<depth> = -2\nG1 Z#<depth> F100', 'linuxcnc'],
+    ['an O-word subroutine', 'o100 sub\nG0 X1\no100 endsub', 'linuxcnc'],
+    ['a program number line', '%\nO1234 (BRACKET)\nG0 X1.', 'fanuc'],
+    ['a numbered parameter', '#1 = 5\nG0 X#1', 'linuxcnc'],
+    ['plain milling code', 'G21 G90\nG0 X1 Y1\nG1 Z-1 F100', 'grbl'],
+  ])('recognizes %s', (_, text, dialect) => {
+    expect(detectDialect(text)).toBe(dialect);
+  });
+
+  it('reads a .ngc file as LinuxCNC and other names by their text', () => {
+    expect(detectDialect('G0 X1', 'part.NGC')).toBe('linuxcnc');
+    expect(detectDialect('G0 X1', 'part.nc')).toBe('grbl');
+  });
+
+  it('needs the program number alone on its line', () => {
+    expect(detectDialect('O1234 G0 X1')).toBe('grbl');
+  });
+});
+
+describe('dialects', () => {
+  it('splits words written without spaces', () => {
+    expect(tokenizeLine('G01X10Y-5.5F300').words.map((word) => word.raw)).toEqual(['G01', 'X10', 'Y-5.5', 'F300']);
+  });
+
+  it('keeps GRBL $ commands out of the words', () => {
+    expect(tokenizeLine('$H', DIALECTS.grbl)).toMatchObject({ words: [], comments: ['$H'] });
+    const program = parseGCode('$H\nG0 X1', { dialect: 'grbl' });
+    expect(program.commands).toHaveLength(1);
+  });
+
+  it('reads the rest of a Marlin M117 line as its message', () => {
+    expect(tokenizeLine('M117 Layer 1 (of 20)', DIALECTS.marlin)).toMatchObject({
+      words: [{ letter: 'M', value: 117 }],
+      comments: ['Layer 1 (of 20)'],
+    });
+  });
+
+  it('evaluates parameters and expressions only where the dialect has them', () => {
+    const parameters = new Map([['1', 5]]);
+    const linuxcnc = tokenizeLine('#2 = [#1 * 2] G0 X[#1 + 1]', DIALECTS.linuxcnc, parameters);
+    expect(linuxcnc.assignments).toEqual([{ name: '2', value: 10 }]);
+    expect(linuxcnc.words.find((word) => word.letter === 'X')?.value).toBe(6);
+    expect(tokenizeLine('G0 X#1', DIALECTS.grbl, parameters).invalid).not.toEqual([]);
+  });
+
+  it('accepts program numbers where the dialect has them', () => {
+    const message = (text: string) => text.startsWith('Program number');
+    expect(parseGCode('O1001\nG0 X1.', { dialect: 'fanuc' }).diagnostics.some((d) => message(d.message))).toBe(false);
+    expect(parseGCode('O1001\nG0 X1', { dialect: 'grbl' }).diagnostics.some((d) => message(d.message))).toBe(true);
+  });
+
+  it('warns about codes outside the dialect', () => {
+    const program = parseGCode('M104 S200\nG0 X1', { dialect: 'grbl' });
+    expect(program.diagnostics).toContainEqual(expect.objectContaining({ line: 1, message: 'M104 is not supported by GRBL; ignored' }));
+  });
+
+  it('starts Marlin with a default feed rate', () => {
+    expect(parseGCode('G1 X10', { dialect: 'marlin' }).commands[0].feed).toBe(1500);
+    const grbl = parseGCode('G1 X10', { dialect: 'grbl' });
+    expect(grbl.diagnostics).toContainEqual(expect.objectContaining({ severity: 'error', message: 'G1 move without a feed rate' }));
+  });
+
+  it.each([
+    ['grbl', 'G4 P2', 2],
+    ['linuxcnc', 'G4 P2', 2],
+    ['marlin', 'G4 P500', 0.5],
+    ['marlin', 'G4 S3', 3],
+    ['fanuc', 'G4 P500', 0.5],
+  ] as const)('times %s dwells from "%s"', (dialect, block, seconds) => {
+    const program = parseGCode(`G0 X1\n${block}`, { dialect });
+    expect(program.events).toContainEqual({ type: 'dwell', line: 2, seconds });
+  });
+
+  it('changes the tool on T alone in Marlin and on M6 elsewhere', () => {
+    const changes = (dialect: 'grbl' | 'marlin', text: string) =>
+      parseGCode(text, { dialect }).events.filter((event) => event.type === 'toolChange');
+    expect(changes('marlin', 'T1\nG0 X1')).toEqual([{ type: 'toolChange', line: 1, tool: 1 }]);
+    expect(changes('grbl', 'T1\nG0 X1')).toEqual([]);
+    expect(changes('grbl', 'T1\nM6\nG0 X1')).toEqual([{ type: 'toolChange', line: 2, tool: 1 }]);
+  });
+
+  it('homes the named axes on Marlin G28', () => {
+    const program = parseGCode('G0 X10 Y20 Z5\nG28 X0', { dialect: 'marlin', home: { x: -1, y: -2, z: -3 } });
+    expect(moveEnds(program.commands)).toEqual([{ x: 10, y: 20, z: 5 }, { x: -1, y: 20, z: 5 }]);
+  });
+
+  it('skips LinuxCNC control flow with a warning', () => {
+    const program = parseGCode('o100 sub\nG0 X1\no100 endsub', { dialect: 'linuxcnc' });
+    expect(program.diagnostics).toContainEqual(expect.objectContaining({ severity: 'warning', line: 1 }));
+    expect(program.commands).toHaveLength(1);
+  });
+});
+
+describe('implicit decimal point', () => {
+  const text = 'O1234 (BRACKET)\nG21 G90\nG0 X10 Z5.\nG0 Y2';
+
+  it('reads integer axis words as thousandths when Fanuc is chosen', () => {
+    const program = parseGCode(text, { dialect: 'fanuc' });
+    expect(moveEnds(program.commands)).toEqual([{ x: 0.01, y: 0, z: 5 }, { x: 0.01, y: 0.002, z: 5 }]);
+    expect(program.diagnostics.filter((diagnostic) => diagnostic.severity === 'warning')).toEqual([]);
+  });
+
+  it('counts ten-thousandths of an inch under G20', () => {
+    const program = parseGCode('G20\nG0 X10', { dialect: 'fanuc' });
+    expect(program.commands[0].x).toBeCloseTo(0.0254);
+  });
+
+  it('leaves integer words whole when Fanuc is only detected, and says so once', () => {
+    const program = parseGCode(text);
+    expect(program.dialect).toBe('fanuc');
+    expect(program.implicitDecimal).toBe(false);
+    expect(moveEnds(program.commands)).toEqual([{ x: 10, y: 0, z: 5 }, { x: 10, y: 2, z: 5 }]);
+    const warnings = program.diagnostics.filter((diagnostic) => diagnostic.message.includes('decimal point'));
+    expect(warnings).toEqual([expect.objectContaining({ severity: 'warning', line: 3 })]);
+  });
+
+  it('keeps reading a detected program the same way after an edit', () => {
+    const previous = parseGCode(text);
+    const edited = updateGCode(previous, text, `${text}\nG0 X20`);
+    expect(edited.commands.at(-1)?.x).toBe(20);
+    expect(edited.diagnostics.filter((diagnostic) => diagnostic.message.includes('decimal point'))).toHaveLength(1);
+  });
+});
+
+describe('post-processor output', () => {
+  // Trimmed from a CAM post for a Fanuc-style mill
+  const program = parseGCode([
+    '%',
+    'O1001 (POCKET)',
+    '(T1 D=6. CR=0. - ZMIN=-3. - FLAT END MILL)',
+    'N10 G90 G94 G17 G49 G40 G80',
+    'N15 G21',
+    'N20 T1 M06',
+    'N25 S10000 M03',
+    'N30 G54',
+    'N35 G00 X-5. Y0.',
+    'N40 G43 Z15. H01',
+    'N45 G01 Z-3. F250.',
+    'N50 X20.',
+    'N55 G03 X30. Y10. I0. J10.',
+    'N60 G01 Y20.',
+    'N65 G00 Z15.',
+    'N70 M05',
+    'N75 M30',
+    '%',
+  ].join('\n'), { dialect: 'fanuc' });
+
+  it('parses without errors', () => {
+    expect(program.diagnostics.filter((diagnostic) => diagnostic.severity === 'error')).toEqual([]);
+  });
+
+  it('follows the moves in order with the tool and feed in effect', () => {
+    expect(program.commands.map((command) => command.line)).toEqual([9, 10, 11, 12, 13, 14, 15]);
+    expect(moveEnds(program.commands).at(-1)).toEqual({ x: 30, y: 20, z: 15 });
+    expect(program.commands.slice(2).every((command) => command.tool === 1)).toBe(true);
+    expect(program.commands[4]).toMatchObject({ type: 'G3', feed: 250, spindleSpeed: 10000 });
+  });
+
+  it('keeps the tool comment with its block', () => {
+    expect(program.blocks.find((block) => block.line === 3)?.comments).toEqual([
+      'T1 D=6. CR=0. - ZMIN=-3. - FLAT END MILL',
+    ]);
+  });
+});
+
+describe('streaming', () => {
+  const text = 'G21 G90\nT2 M6\nG0 X0 Y0\nG55\nG1 X10 F300\nG4 P1\nG2 X20 Y0 R5\nM30';
+  const lines = text.split('\n');
+
+  it('matches parseGCode when written in pieces', () => {
+    const stream = createProgramStream({ dialect: 'grbl' });
+    const moves = [...stream.write(lines.slice(0, 3)), ...stream.write(lines.slice(3))];
+    const program = stream.finish();
+    expect(program).toEqual(parse(text));
+    expect(moves).toEqual(program.commands);
+  });
+
+  it('hands out the moves without keeping blocks when asked', () => {
+    const stream = createProgramStream({ dialect: 'grbl', keepBlocks: false });
+    const tally = tallyMoves([]);
+    for (const piece of [lines.slice(0, 3), lines.slice(3)]) tallyMoves(stream.write(piece), tally);
+    const program = stream.finish();
+    expect(program.blocks).toEqual([]);
+    expect(program.commands).toEqual([]);
+    // Only the empty-program warning depends on the moves; it must not appear
+    expect(program.diagnostics).toEqual(parse(text).diagnostics);
+    expect(summarizeProgram(program, tally)).toEqual(summarizeProgram(parse(text)));
+  });
+});
@@ -0,0 +1,824 @@
+import { checkArc } from './arcs';
+import { CYCLE_CODES, planCycle } from './cycles';
+import { DIALECTS, detectDialect, type Dialect, type DialectId } from './dialects';
+import { readNumber, readParameterName, readValue, type Cursor, type Parameters } from './expressions';
+import type {
+  ArcPlane,
+  Block,
+  CannedCycle,
+  CycleCode,
+  Diagnostic,
+  GCodeCommand,
+  Hole,
+  ModalState,
+  MotionMode,
+  ParsedProgram,
+  Point3,
+  ProgramEvent,
+  SpindleDirection,
+  Word,
+} from './types';
+
+const MM_PER_INCH = 25.4;
+
+const MOTION_CODES: Record<string, MotionMode> = {
+  G0: 'G0',
+  G1: 'G1',
+  G2: 'G2',
+  G3: 'G3',
+};
+
+const PLANE_CODES: Record<string, ArcPlane> = {
+  G17: 'XY',
+  G18: 'XZ',
+  G19: 'YZ',
+};
+
+// Program end codes; anything after them is not executed
+const END_CODES = new Set(['M2', 'M30']);
+
+const SPINDLE_CODES: Record<string, SpindleDirection> = {
+  M3: 'cw',
+  M4: 'ccw',
+  M5: 'off',
+};
+
+// M0 always stops; M1 only with the optional stop switch on
+const STOP_CODES: Record<string, boolean> = {
+  M0: false,
+  M1: true,
+};
+
+// Work coordinate systems, in the order of the offsets table
+export const WORK_OFFSET_CODES = ['G54', 'G55', 'G56', 'G57', 'G58', 'G59'];
+
+// G53 moves in machine coordinates; G92 / G92.1 set and clear the axis offset; G28 homes; G4 dwells
+const NON_MODAL_GCODES = new Set(['G53', 'G92', 'G92.1', 'G28', 'G4']);
+
+// Words that may appear at most once per block
+const SINGLE_WORDS = new Set(['X', 'Y', 'Z', 'I', 'J', 'K', 'R', 'F', 'S', 'T']);
+
+// Words holding lengths, which the implicit decimal rule applies to
+const LENGTH_WORDS = new Set(['X', 'Y', 'Z', 'I', 'J', 'K', 'R', 'Q']);
+
+// Least input increment for axis words without a decimal point (mm)
+const IMPLICIT_INCREMENT = { mm: 0.001, inch: 0.0001 * MM_PER_INCH };
+// Start of the warning given once when a detected dialect would have read integer words as increments
+const IMPLICIT_DECIMAL_HINT = 'Axis words without a decimal point are read as whole units';
+
+const COMMENT_PATTERN = /\(([^)]*)\)|;(.*)$/g;
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const MESSAGE_PATTERN = /^\s*(?:N\d+\s*)?M(\d+)\b\s*(.*)$/i;
+const DELIMITER_PATTERN = /^\s*%/;
+const CONTROL_FLOW_PATTERN = /^\s*(?:N\d+\s*)?O/i;
+
+export interface ParseOptions {
+  // Machine position of each work zero, indexed like WORK_OFFSET_CODES; missing entries are zero
+  workOffsets?: Point3[];
+  // Detected from the text when not given
+  dialect?: DialectId;
+  // Machine position the program starts from and G28 returns to; machine zero when not given
+  home?: Point3;
+  // Read integer axis words as input increments where the dialect does (Fanuc). On by
+  // default for a given dialect, off for a detected one: a guess must not rescale the program
+  implicitDecimal?: boolean;
+}
+
+// A "#name = value" parameter assignment, applied once its line has been read
+export interface Assignment {
+  name: string;
+  value: number;
+}
+
+export interface TokenizedLine {
+  words: Word[];
+  comments: string[];
+  // Tokens that are not valid words
+  invalid: string[];
+  assignments: Assignment[];
+  // Expression problems such as unset parameters
+  errors: string[];
+}
+
+const ZERO: Point3 = { x: 0, y: 0, z: 0 };
+
+export const createInitialState = (dialect: Dialect = DIALECTS.grbl, home: Point3 = ZERO): ModalState => ({
+  motion: 'G0',
+  units: 'mm',
+  distanceMode: 'absolute',
+  arcDistanceMode: 'incremental',
+  plane: 'XY',
+  feedRate: dialect.initialFeedRate,
+  spindleSpeed: 0,
+  spindle: 'off',
+  coolant: { mist: false, flood: false },
+  cycle: null,
+  cycleReturn: 'initial',
+  tool: 0,
+  selectedTool: 0,
+  coordinateSystem: 0,
+  axisOffset: { ...ZERO },
+  position: { ...home },
+});
+
+const cloneState = (state: ModalState): ModalState => ({
+  ...state,
+  coolant: { ...state.coolant },
+  cycle: state.cycle && { ...state.cycle },
+  axisOffset: { ...state.axisOffset },
+  position: { ...state.position },
+});
+
+// Normalize "G01" / "g1" / "G1.0" to "G1" so codes compare reliably
+export const formatCode = (word: Word): string => `${word.letter}${word.value}`;
+
+export const isSupportedCode = (code: string, dialect: Dialect): boolean => dialect.codes.has(code);
+
+// Skip to the next whitespace, returning the skipped text as an invalid token
+const skipToken = (cursor: Cursor, start: number): string => {
+  while (cursor.index < cursor.text.length && !/\s/.test(cursor.text[cursor.index])) cursor.index++;
+  return cursor.text.slice(start, cursor.index);
+};
+
+/**
+ * Split a line into its words and "( ... )" / ";" comments. Words may be
+ * written without spaces ("G01X10Y5"); dialects with parameters also accept
+ * #parameters and [expressions] as values, evaluated against `parameters`.
+ */
+export const tokenizeLine = (
+  text: string,
+  dialect: Dialect = DIALECTS.grbl,
+  parameters: Parameters = new Map()
+): TokenizedLine => {
+  const result: TokenizedLine = { words: [], comments: [], invalid: [], assignments: [], errors: [] };
+  const { words, comments, invalid, assignments, errors } = result;
+
+  // Controller commands ($H, $J=...) and display messages are not words
+  const trimmed = text.trim();
+  if (dialect.systemCommands && trimmed.startsWith('$')) {
+    comments.push(trimmed);
+    return result;
+  }
+  const message = MESSAGE_PATTERN.exec(text);
+  if (message && dialect.messageCodes.has(`M${Number(message[1])}`)) {
+    words.push({ letter: 'M', value: Number(message[1]), raw: `M${message[1]}` });
+    if (message[2]) comments.push(message[2].trim());
+    return result;
+  }
+
+  const code = text
+    .replace(COMMENT_PATTERN, (_match, paren?: string, semicolon?: string) => {
+      comments.push((paren ?? semicolon ?? '').trim());
+      return ' ';
+    })
+    // Block delete: optional lines run as normal lines
+    .replace(/^\s*\//, ' ');
+
+  const cursor: Cursor = { text: code, index: 0 };
+  while (cursor.index < code.length) {
+    if (/\s/.test(code[cursor.index])) {
+      cursor.index++;
+      continue;
+    }
+    const start = cursor.index;
+    const char = code[start];
+
+    if (dialect.parameters && char === '#') {
+      try {
+        cursor.index++;
+        const name = readParameterName(cursor, parameters);
+        while (/\s/.test(code[cursor.index] ?? '')) cursor.index++;
+        if (code[cursor.index] !== '=') throw new Error(`Expected "=" after #${name}`);
+        cursor.index++;
+        assignments.push({ name, value: readValue(cursor, parameters) });
+      } catch (err) {
+        errors.push(`${err instanceof Error ? err.message : String(err)} in "${skipToken(cursor, start)}"`);
+      }
+      continue;
+    }
+
+    if (/[A-Za-z]/.test(char)) {
+      cursor.index++;
+      while (/\s/.test(code[cursor.index] ?? '')) cursor.index++;
+      let value: number | null;
+      try {
+        value = dialect.parameters ? readValue(cursor, parameters) : readNumber(cursor);
+      } catch (err) {
+        errors.push(`${err instanceof Error ? err.message : String(err)} in "${skipToken(cursor, start)}"`);
+        continue;
+      }
+      if (value === null || !Number.isFinite(value)) {
+        invalid.push(skipToken(cursor, start));
+        continue;
+      }
+      words.push({ letter: char.toUpperCase(), value, raw: code.slice(start, cursor.index).replace(/\s+/g, '') });
+      continue;
+    }
+
+    invalid.push(skipToken(cursor, start));
+  }
+
+  return result;
+};
+
+// Report codes the interpreter ignores and words that appear twice in one block
+const checkWords = (words: Word[], line: number, diagnostics: Diagnostic[], dialect: Dialect) => {
+  const seen = new Set<string>();
+  for (const word of words) {
+    if (word.letter === 'G' || word.letter === 'M') {
+      const code = formatCode(word);
+      if (!isSupportedCode(code, dialect)) {
+        const known = Object.values(DIALECTS).some((other) => isSupportedCode(code, other));
+        diagnostics.push({
+          severity: 'warning',
+          line,
+          message: known ? `${code} is not supported by ${dialect.label}; ignored` : `Unsupported code ${code} ignored`,
+        });
+      }
+    } else if (word.letter === 'O' && !dialect.programNumbers) {
+      diagnostics.push({ severity: 'warning', line, message: `Program number ${word.raw} ignored` });
+    } else if (SINGLE_WORDS.has(word.letter)) {
+      if (seen.has(word.letter)) {
+        diagnostics.push({
+          severity: 'error',
+          line,
+          message: `Duplicate ${word.letter} word, using ${word.raw}`,
+        });
+      }
+      seen.add(word.letter);
+    }
+  }
+};
+
+// Apply a modal G code to the interpreter state
+const applyGCode = (state: ModalState, code: string) => {
+  if (MOTION_CODES[code]) {
+    state.motion = MOTION_CODES[code];
+    state.cycle = null;
+  } else if (CYCLE_CODES.has(code)) {
+    // R, Q and P carry over from the previous cycle
+    state.cycle = { ...state.cycle, code: code as CycleCode };
+  } else if (PLANE_CODES[code]) {
+    state.plane = PLANE_CODES[code];
+  } else if (WORK_OFFSET_CODES.includes(code)) {
+    state.coordinateSystem = WORK_OFFSET_CODES.indexOf(code);
+  } else {
+    switch (code) {
+      case 'G20':
+        state.units = 'inch';
+        break;
+      case 'G21':
+        state.units = 'mm';
+        break;
+      case 'G90':
+        state.distanceMode = 'absolute';
+        break;
+      case 'G91':
+        state.distanceMode = 'incremental';
+        break;
+      case 'G90.1':
+        state.arcDistanceMode = 'absolute';
+        break;
+      case 'G91.1':
+        state.arcDistanceMode = 'incremental';
+        break;
+      case 'G80':
+        state.cycle = null;
+        break;
+      case 'G98':
+        state.cycleReturn = 'initial';
+        break;
+      case 'G99':
+        state.cycleReturn = 'rPlane';
+        break;
+    }
+  }
+};
+
+/**
+ * Execute one block against the context's interpreter state, mutating it, and
+ * return the moves it produces. Tool, spindle, coolant and dwell changes are
+ * appended to the context's events, canned cycle holes to its holes.
+ */
+const executeBlock = (context: ParseContext, words: Word[], line: number): GCodeCommand[] => {
+  const { state, workOffsets, dialect, home: homePosition, events, implicitDecimal } = context;
+  const values: Record<string, number> = {};
+  // Length words written as integers, which may count input increments
+  const integerWords = new Set<string>();
+
+  let toolChange = false;
+  let spindle = state.spindle;
+  const coolant = { ...state.coolant };
+  let nonModal: string | undefined;
+
+  // Units and distance mode must be known before the block's words are converted
+  for (const word of words) {
+    if (word.letter === 'G' || word.letter === 'M') {
+      const code = formatCode(word);
+      // Codes outside the dialect were reported by checkWords and are ignored
+      if (!isSupportedCode(code, dialect)) continue;
+      if (word.letter === 'M') {
+        toolChange = toolChange || code === 'M6';
+        spindle = SPINDLE_CODES[code] ?? spindle;
+        if (code === 'M7') coolant.mist = true;
+        if (code === 'M8') coolant.flood = true;
+        if (code === 'M9') coolant.mist = coolant.flood = false;
+      } else if (NON_MODAL_GCODES.has(code)) {
+        nonModal = code;
+      } else {
+        applyGCode(state, code);
+      }
+    } else {
+      values[word.letter] = word.value;
+      if (LENGTH_WORDS.has(word.letter) && INTEGER_PATTERN.test(word.raw.slice(1))) integerWords.add(word.letter);
+    }
+  }
+
+  // T only selects the tool; M6 puts it in the spindle (printers switch on T alone)
+  if (values.T !== undefined) {
+    state.selectedTool = values.T;
+    toolChange = toolChange || dialect.toolChangeOnSelect;
+  }
+  if (toolChange && state.tool !== state.selectedTool) {
+    state.tool = state.selectedTool;
+    events.push({ type: 'toolChange', line, tool: state.tool });
+  }
+
+  const scale = state.units === 'inch' ? MM_PER_INCH : 1;
+  if (values.F !== undefined) {
+    state.feedRate = values.F * scale;
+  }
+  // Marlin's G4 S is a dwell in seconds, not a spindle speed
+  const speed = values.S !== undefined && nonModal !== 'G4' ? values.S : state.spindleSpeed;
+  if (spindle !== state.spindle || (spindle !== 'off' && speed !== state.spindleSpeed)) {
+    events.push({ type: 'spindle', line, direction: spindle, speed });
+  }
+  state.spindle = spindle;
+  state.spindleSpeed = speed;
+  if (coolant.mist !== state.coolant.mist || coolant.flood !== state.coolant.flood) {
+    events.push({ type: 'coolant', line, coolant });
+    state.coolant = { ...coolant };
+  }
+  // A length word in mm, honoring the dialect's implicit decimal point
+  const length = (letter: string) =>
+    values[letter] * (implicitDecimal && integerWords.has(letter) ? IMPLICIT_INCREMENT[state.units] : scale);
+  if (integerWords.size > 0 && dialect.implicitDecimal && !implicitDecimal && !context.implicitDecimalReported) {
+    context.diagnostics.push({
+      severity: 'warning',
+      line,
+      message: `${IMPLICIT_DECIMAL_HINT}; choose the ${dialect.label} dialect to read them as input increments`,
+    });
+    context.implicitDecimalReported = true;
+  }
+
+  const start = state.position;
+  const workOffset = workOffsets[state.coordinateSystem] ?? ZERO;
+  // Machine position of the program zero for an axis
+  const origin = (axis: 'x' | 'y' | 'z') => workOffset[axis] + state.axisOffset[axis];
+
+  if (nonModal === 'G4') {
+    // Dwell for P (or Marlin's S, in seconds); axis words in the block are not a move
+    const seconds = values.P !== undefined
+      ? values.P * (dialect.dwellMilliseconds ? 0.001 : 1)
+      : values.S ?? 0;
+    if (seconds > 0) events.push({ type: 'dwell', line, seconds });
+    return [];
+  } else if (nonModal === 'G92.1') {
+    state.axisOffset = { ...ZERO };
+  } else if (nonModal === 'G92') {
+    // Shift the program zero so the current position reads as the given values
+    for (const axis of ['x', 'y', 'z'] as const) {
+      const letter = axis.toUpperCase();
+      if (values[letter] !== undefined) state.axisOffset[axis] = start[axis] - workOffset[axis] - length(letter);
+    }
+    return [];
+  } else if (nonModal === 'G28' && dialect.homing) {
+    // Home the named axes, or all of them, with a rapid to the home position
+    const named = ['X', 'Y', 'Z'].some((letter) => values[letter] !== undefined);
+    const home = (axis: 'x' | 'y' | 'z') =>
+      !named || values[axis.toUpperCase()] !== undefined ? homePosition[axis] : start[axis];
+    const command: GCodeCommand = {
+      type: 'G0',
+      x: home('x'),
+      y: home('y'),
+      z: home('z'),
+      plane: state.plane,
+      feed: state.feedRate,
+      spindleSpeed: state.spindleSpeed,
+      tool: state.tool,
+      coordinateSystem: state.coordinateSystem,
+      line,
+    };
+    state.position = { x: command.x, y: command.y, z: command.z };
+    return [command];
+  }
+
+  // G53 targets machine coordinates for this block only
+  const machineCoordinates = nonModal === 'G53';
+  const resolveAxis = (letter: 'X' | 'Y' | 'Z', current: number) => {
+    if (values[letter] === undefined) return current;
+    const value = length(letter);
+    if (machineCoordinates) return value;
+    const axis = letter.toLowerCase() as 'x' | 'y' | 'z';
+    return state.distanceMode === 'incremental' ? current + value : value + origin(axis);
+  };
+  // Arc centers are stored relative to the start point regardless of G90.1 / G91.1
+  const resolveOffset = (letter: 'I' | 'J' | 'K', current: number, axis: 'x' | 'y' | 'z') => {
+    if (values[letter] === undefined) return undefined;
+    const value = length(letter);
+    return state.arcDistanceMode === 'absolute' ? value + origin(axis) - current : value;
+  };
+
+  const hasAxisWords = values.X !== undefined || values.Y !== undefined || values.Z !== undefined;
+
+  if (state.cycle) {
+    const cycle = state.cycle;
+    if (values.Z !== undefined) cycle.z = length('Z');
+    if (values.R !== undefined) cycle.r = length('R');
+    if (values.Q !== undefined) cycle.q = Math.abs(length('Q'));
+    if (values.P !== undefined) cycle.p = values.P * (dialect.dwellMilliseconds ? 0.001 : 1);
+    // Any axis word drills; a Z word is the hole depth, not a move
+    if (!hasAxisWords) return [];
+    return runCycle(context, cycle, line, {
+      resolveX: (current) => resolveAxis('X', current),
+      resolveY: (current) => resolveAxis('Y', current),
+      originZ: origin('z'),
+      repeats: values.L ?? 1,
+    });
+  }
+
+  const isArc = state.motion === 'G2' || state.motion === 'G3';
+  // A full circle may be programmed with center offsets only
+  const hasArcWords = isArc && (values.I !== undefined || values.J !== undefined || values.K !== undefined);
+  if (!hasAxisWords && !hasArcWords) return [];
+
+  const command: GCodeCommand = {
+    type: state.motion,
+    x: resolveAxis('X', start.x),
+    y: resolveAxis('Y', start.y),
+    z: resolveAxis('Z', start.z),
+    plane: state.plane,
+    feed: state.feedRate,
+    spindleSpeed: state.spindleSpeed,
+    tool: state.tool,
+    coordinateSystem: state.coordinateSystem,
+    line,
+  };
+  if (isArc) {
+    command.i = resolveOffset('I', start.x, 'x');
+    command.j = resolveOffset('J', start.y, 'y');
+    command.k = resolveOffset('K', start.z, 'z');
+    if (values.R !== undefined) command.r = length('R');
+  }
+  state.position = { x: command.x, y: command.y, z: command.z };
+  return [command];
+};
+
+interface CycleBlock {
+  // Hole position for the next repeat from the previous one, honoring G90 / G91
+  resolveX: (current: number) => number;
+  resolveY: (current: number) => number;
+  // Machine Z of the program zero
+  originZ: number;
+  // L word: how many times the cycle runs, stepping by X / Y each time in G91
+  repeats: number;
+}
+
+/**
+ * Expand a canned cycle block into its moves. In G91 the R plane is measured
+ * from the starting Z and the bottom from the R plane; in G90 both are
+ * program coordinates.
+ */
+const runCycle = (context: ParseContext, cycle: CannedCycle, line: number, block: CycleBlock): GCodeCommand[] => {
+  const { state, diagnostics, events, holes } = context;
+  const { code } = cycle;
+  if (cycle.r === undefined || cycle.z === undefined) {
+    diagnostics.push({ severity: 'error', line, message: `${code} needs ${cycle.r === undefined ? 'an R plane' : 'a Z depth'}` });
+    return [];
+  }
+
+  const start = state.position;
+  const incremental = state.distanceMode === 'incremental';
+  const r = incremental ? start.z + cycle.r : cycle.r + block.originZ;
+  const bottom = incremental ? r + cycle.z : cycle.z + block.originZ;
+  if (bottom > r) {
+    diagnostics.push({ severity: 'error', line, message: `${code} hole bottom is above its R plane` });
+    return [];
+  }
+  let peck = Infinity;
+  if (code === 'G73' || code === 'G83') {
+    if (cycle.q) peck = cycle.q;
+    else diagnostics.push({ severity: 'error', line, message: `${code} needs a Q peck depth; drilling in one pass` });
+  }
+  const levels = {
+    r,
+    bottom,
+    // Starting below the R plane means going up to it first, which makes it the starting height
+    retract: state.cycleReturn === 'initial' ? Math.max(start.z, r) : r,
+    peck,
+    dwell: cycle.p ?? 0,
+  };
+
+  const commands: GCodeCommand[] = [];
+  const move = (rapid: boolean, point: Point3) => commands.push({
+    type: rapid ? 'G0' : 'G1',
+    ...point,
+    plane: state.plane,
+    feed: state.feedRate,
+    spindleSpeed: state.spindleSpeed,
+    tool: state.tool,
+    coordinateSystem: state.coordinateSystem,
+    line,
+  });
+  if (start.z < r) move(true, { ...start, z: r });
+
+  let { x, y } = start;
+  for (let repeat = 0; repeat < block.repeats; repeat++) {
+    x = block.resolveX(x);
+    y = block.resolveY(y);
+    const plan = planCycle(code, x, y, commands.length > 0 ? commands[commands.length - 1].z : start.z, levels);
+    for (const dwell of plan.dwells) {
+      events.push({ type: 'dwell', line, seconds: dwell.seconds, after: commands.length + dwell.after });
+    }
+    for (const { rapid, point } of plan.moves) move(rapid, point);
+    holes.push({ line, cycle: code, tool: state.tool, x, y, top: r, bottom });
+  }
+
+  const last = commands[commands.length - 1];
+  if (last) state.position = { x: last.x, y: last.y, z: last.z };
+  return commands;
+};
+
+interface ParseContext {
+  blocks: Block[];
+  commands: GCodeCommand[];
+  // Without blocks the interpreter only hands moves out; see ProgramStreamOptions
+  keepBlocks: boolean;
+  moveCount: number;
+  diagnostics: Diagnostic[];
+  state: ModalState;
+  workOffsets: Point3[];
+  home: Point3;
+  dialect: Dialect;
+  // Whether integer axis words count input increments; see ParseOptions
+  implicitDecimal: boolean;
+  // The hint to choose the dialect for that has been given
+  implicitDecimalReported: boolean;
+  parameters: Parameters;
+  events: ProgramEvent[];
+  holes: Hole[];
+  // Whether the opening "%" of a delimited program has been read
+  delimiterSeen: boolean;
+  // Only report a missing feed once until an F word shows up
+  missingFeedReported: boolean;
+  // Set at M2 / M30 or a closing "%"; later lines are not executed
+  ended: boolean;
+}
+
+const createContext = (
+  workOffsets: Point3[],
+  dialectId: DialectId,
+  home: Point3,
+  implicitDecimal: boolean,
+  keepBlocks = true
+): ParseContext => ({
+  blocks: [],
+  commands: [],
+  keepBlocks,
+  moveCount: 0,
+  diagnostics: [],
+  state: createInitialState(DIALECTS[dialectId], home),
+  workOffsets,
+  home,
+  dialect: DIALECTS[dialectId],
+  implicitDecimal: implicitDecimal && DIALECTS[dialectId].implicitDecimal,
+  implicitDecimalReported: false,
+  parameters: new Map(),
+  events: [],
+  holes: [],
+  delimiterSeen: false,
+  missingFeedReported: false,
+  ended: false,
+});
+
+const splitLines = (content: string): string[] => content.split(/\r?\n/);
+
+// Whether a block holds an M0 / M1 stop, and whether the stop is optional
+const programStop = (words: Word[], dialect: Dialect): boolean | undefined => {
+  for (const word of words) {
+    const code = formatCode(word);
+    if (word.letter === 'M' && code in STOP_CODES && isSupportedCode(code, dialect)) return STOP_CODES[code];
+  }
+  return undefined;
+};
+
+const endsProgram = (words: Word[], dialect: Dialect): boolean =>
+  words.some((word) => {
+    const code = formatCode(word);
+    return word.letter === 'M' && END_CODES.has(code) && isSupportedCode(code, dialect);
+  });
+
+// Run the interpreter over lines[from..], appending to the context; lines[0] is
+// source line lineOffset + 1
+const interpretLines = (lines: string[], from: number, context: ParseContext, lineOffset = 0) => {
+  const { blocks, commands, diagnostics, events, state, dialect, parameters } = context;
+
+  for (let index = from; index < lines.length && !context.ended; index++) {
+    const line = lineOffset + index + 1;
+    // "%" opens a program and the next one closes it
+    if (DELIMITER_PATTERN.test(lines[index])) {
+      context.ended = context.delimiterSeen;
+      context.delimiterSeen = true;
+      continue;
+    }
+    if (dialect.controlFlow && CONTROL_FLOW_PATTERN.test(lines[index])) {
+      diagnostics.push({ severity: 'warning', line, message: 'O-word subroutines and loops are not simulated; line ignored' });
+      continue;
+    }
+
+    const { words, comments, invalid, assignments, errors } = tokenizeLine(lines[index], dialect, parameters);
+
+    for (const message of errors) {
+      diagnostics.push({ severity: 'error', line, message });
+    }
+    for (const token of invalid) {
+      diagnostics.push({ severity: 'error', line, message: `Malformed word "${token}"` });
+    }
+    // Every value on a line is read before any of its assignments take effect
+    for (const { name, value } of assignments) {
+      parameters.set(name, value);
+    }
+    if (words.length === 0 && comments.length === 0) continue;
+
+    checkWords(words, line, diagnostics, dialect);
+    const start = { ...state.position };
+    const blockCommands = executeBlock(context, words, line);
+    if (context.keepBlocks) blocks.push({ line, words, comments, state: cloneState(state), commands: blockCommands });
+
+    for (const command of blockCommands) {
+      commands.push(command);
+      context.moveCount++;
+      if (command.type !== 'G0' && command.feed <= 0) {
+        if (!context.missingFeedReported) {
+          diagnostics.push({ severity: 'error', line, message: `${command.type} move without a feed rate` });
+          context.missingFeedReported = true;
+        }
+      } else if (command.feed > 0) {
+        context.missingFeedReported = false;
+      }
+      if (command.type === 'G2' || command.type === 'G3') {
+        const arcError = checkArc(start, state.position, command);
+        if (arcError) diagnostics.push({ severity: 'error', line, message: arcError });
+      }
+    }
+
+    // A stop waits for the block's move to finish
+    const optional = programStop(words, dialect);
+    if (optional !== undefined) events.push({ type: 'stop', line, optional });
+
+    context.ended = endsProgram(words, dialect);
+  }
+};
+
+const finishProgram = ({
+  blocks,
+  commands,
+  moveCount,
+  diagnostics,
+  events,
+  holes,
+  dialect,
+  implicitDecimal,
+}: ParseContext): ParsedProgram => {
+  if (moveCount === 0) {
+    diagnostics.push({ severity: 'warning', line: 0, message: 'Program contains no motion commands' });
+  }
+  return { blocks, commands, diagnostics, events, holes, dialect: dialect.id, implicitDecimal };
+};
+
+/**
+ * Parse G-code text into blocks, running the modal interpreter so each block
+ * knows the state it leaves behind. Blank lines are skipped; execution stops
+ * at M2 / M30 or a closing "%". Problems are collected as diagnostics instead
+ * of thrown.
+ */
+export const parseGCode = (
+  content: string,
+  { workOffsets = [], dialect, home = ZERO, implicitDecimal = dialect !== undefined }: ParseOptions = {}
+): ParsedProgram => {
+  const context = createContext(workOffsets, dialect ?? detectDialect(content), home, implicitDecimal);
+  interpretLines(splitLines(content), 0, context);
+  return finishProgram(context);
+};
+
+export interface ProgramStreamOptions extends ParseOptions {
+  // Keep every block and move for updateGCode (the default). Without them each
+  // write hands its moves out and forgets them, so the finished program has no
+  // blocks or moves, only diagnostics, events and holes.
+  keepBlocks?: boolean;
+}
+
+export interface ProgramStream {
+  /** Interpret the next whole lines of the text and return the moves they produced. */
+  write: (lines: string[]) => GCodeCommand[];
+  /** Complete the program once every line has been written. */
+  finish: () => ParsedProgram;
+}
+
+/**
+ * Parse text that arrives in pieces, such as a file read in chunks. Lines are
+ * numbered across writes and the result matches parseGCode on the joined
+ * text. Detection needs the text, so the dialect defaults to GRBL.
+ */
+export const createProgramStream = (
+  { workOffsets = [], dialect = 'grbl', home = ZERO, implicitDecimal = true, keepBlocks = true }: ProgramStreamOptions = {}
+): ProgramStream => {
+  const context = createContext(workOffsets, dialect, home, implicitDecimal, keepBlocks);
+  let lineCount = 0;
+  return {
+    write: (lines) => {
+      const first = context.commands.length;
+      interpretLines(lines, 0, context, lineCount);
+      lineCount += lines.length;
+      const moves = context.commands.slice(first);
+      if (!keepBlocks) context.commands.length = 0;
+      return moves;
+    },
+    finish: () => finishProgram(context),
+  };
+};
+
+/**
+ * Re-parse edited text, reusing every block before the first changed line and
+ * resuming the interpreter from the modal state that block left behind. The
+ * options must match the ones the previous program was parsed with; without a
+ * dialect the previous program's is kept, along with how it read integer axis words.
+ */
+export const updateGCode = (
+  previous: ParsedProgram,
+  previousContent: string,
+  content: string,
+  {
+    workOffsets = [],
+    dialect: dialectId = previous.dialect,
+    home = ZERO,
+    implicitDecimal = previous.implicitDecimal,
+  }: ParseOptions = {}
+): ParsedProgram => {
+  const dialect = DIALECTS[dialectId];
+  const oldLines = splitLines(previousContent);
+  const lines = splitLines(content);
+  let changed = 0;
+  while (changed < lines.length && changed < oldLines.length && lines[changed] === oldLines[changed]) changed++;
+  if (changed === lines.length && changed === oldLines.length) return previous;
+
+  const keptLines = oldLines.slice(0, changed);
+  // Parameter values are not kept per block, so programs that set them are parsed again in full
+  if (dialect.parameters && keptLines.some((text) => text.includes('#'))) {
+    return parseGCode(content, { workOffsets, dialect: dialectId, home, implicitDecimal });
+  }
+  const delimiters = keptLines.filter((text) => DELIMITER_PATTERN.test(text)).length;
+
+  // Blocks and diagnostics on 1-based lines up to `changed` are untouched
+  let keptBlocks = 0;
+  while (keptBlocks < previous.blocks.length && previous.blocks[keptBlocks].line <= changed) keptBlocks++;
+  const blocks = previous.blocks.slice(0, keptBlocks);
+  const lastBlock = blocks[blocks.length - 1];
+  if (delimiters > 1 || (lastBlock && endsProgram(lastBlock.words, dialect))) {
+    // The edit is past the program end, so nothing it changes is executed
+    return previous;
+  }
+
+  let keptCommands = 0;
+  while (keptCommands < previous.commands.length && previous.commands[keptCommands].line <= changed) keptCommands++;
+  const commands = previous.commands.slice(0, keptCommands);
+
+  // Replay the missing-feed flag: set by a feedless move since the last fed one
+  let missingFeedReported = false;
+  for (let index = commands.length - 1; index >= 0 && commands[index].feed <= 0; index--) {
+    if (commands[index].type !== 'G0') missingFeedReported = true;
+  }
+
+  const diagnostics = previous.diagnostics.filter((diagnostic) => diagnostic.line > 0 && diagnostic.line <= changed);
+  const context: ParseContext = {
+    blocks,
+    commands,
+    keepBlocks: true,
+    moveCount: commands.length,
+    diagnostics,
+    state: lastBlock ? cloneState(lastBlock.state) : createInitialState(dialect, home),
+    workOffsets,
+    home,
+    dialect,
+    implicitDecimal: implicitDecimal && dialect.implicitDecimal,
+    implicitDecimalReported: diagnostics.some((diagnostic) => diagnostic.message.startsWith(IMPLICIT_DECIMAL_HINT)),
+    parameters: new Map(),
+    events: previous.events.filter((event) => event.line <= changed),
+    holes: previous.holes.filter((hole) => hole.line <= changed),
+    delimiterSeen: delimiters === 1,
+    missingFeedReported,
+    ended: false,
+  };
+  interpretLines(lines, changed, context);
+  return finishProgram(context);
+};
@@ -0,0 +1,46 @@
+import type { GCodeCommand, ParsedProgram, ProgramSummary, ToolChange } from './types';
+
+// What the summary needs from the moves, gathered as they come out of a stream that keeps none
+export interface MoveTally {
+  count: number;
+  tools: Set<number>;
+  // In order of first use
+  coordinateSystems: Set<number>;
+}
+
+/** Add moves to a tally, starting a new one when none is given. */
+export const tallyMoves = (
+  commands: GCodeCommand[],
+  tally: MoveTally = { count: 0, tools: new Set(), coordinateSystems: new Set() }
+): MoveTally => {
+  tally.count += commands.length;
+  for (const command of commands) {
+    tally.tools.add(command.tool);
+    tally.coordinateSystems.add(command.coordinateSystem);
+  }
+  return tally;
+};
+
+/**
+ * Reduce a parsed program to what the interface displays. A program streamed
+ * without its moves needs the tally taken while it was written.
+ */
+export const summarizeProgram = (program: ParsedProgram, moves: MoveTally = tallyMoves(program.commands)): ProgramSummary => {
+  const { tools, coordinateSystems } = moves;
+
+  const toolChanges: ToolChange[] = [];
+  for (const event of program.events) {
+    if (event.type === 'toolChange') toolChanges.push({ line: event.line, tool: event.tool });
+  }
+
+  return {
+    dialect: program.dialect,
+    diagnostics: program.diagnostics,
+    commandCount: moves.count,
+    tools: Array.from(tools).sort((a, b) => a - b),
+    coordinateSystems: Array.from(coordinateSystems),
+    toolChanges,
+    events: program.events,
+    holes: program.holes,
+  };
+};
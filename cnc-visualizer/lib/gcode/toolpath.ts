@@ -0,0 +1,103 @@
+import { interpolateArc, isArcCommand } from './arcs';
+import { SegmentKind, type GCodeCommand, type Point3, type ToolPath } from './types';
+
+// Maximum distance (mm) between an arc and the chords used to draw it
+export const DEFAULT_ARC_TOLERANCE = 0.01;
+
+// Segments the buffers hold before they first grow
+const INITIAL_CAPACITY = 4096;
+
+export interface ToolPathOptions {
+  arcTolerance?: number;
+  // Where the tool is before the first move; machine zero when not given
+  start?: Point3;
+}
+
+export interface ToolPathBuilder {
+  /** Append the segments of further moves, continuing from the last one added. */
+  add: (commands: GCodeCommand[]) => void;
+  /** Return the path so far in buffers trimmed to its length. */
+  finish: () => ToolPath;
+}
+
+type SegmentArray = Float32Array | Uint32Array | Uint16Array | Uint8Array;
+
+// Copy into a larger array of the same type
+const grow = <T extends SegmentArray>(array: T, length: number): T => {
+  const next = new (array.constructor as new (length: number) => T)(length);
+  next.set(array);
+  return next;
+};
+
+/**
+ * Flatten moves into line segments as they arrive, writing straight into
+ * typed arrays that double in size when full. Arcs are split into chords;
+ * every segment remembers the source line it came from.
+ */
+export const createToolPathBuilder = (
+  { arcTolerance = DEFAULT_ARC_TOLERANCE, start = { x: 0, y: 0, z: 0 } }: ToolPathOptions = {}
+): ToolPathBuilder => {
+  let capacity = INITIAL_CAPACITY;
+  let positions = new Float32Array(capacity * 6);
+  let lines = new Uint32Array(capacity);
+  let kinds = new Uint8Array(capacity);
+  let feeds = new Float32Array(capacity);
+  let spindleSpeeds = new Float32Array(capacity);
+  let tools = new Uint16Array(capacity);
+  let segmentCount = 0;
+  let current: Point3 = { ...start };
+
+  const pushSegment = (from: Point3, to: Point3, command: GCodeCommand, kind: SegmentKind) => {
+    if (segmentCount === capacity) {
+      capacity *= 2;
+      positions = grow(positions, capacity * 6);
+      lines = grow(lines, capacity);
+      kinds = grow(kinds, capacity);
+      feeds = grow(feeds, capacity);
+      spindleSpeeds = grow(spindleSpeeds, capacity);
+      tools = grow(tools, capacity);
+    }
+    positions.set([from.x, from.y, from.z, to.x, to.y, to.z], segmentCount * 6);
+    lines[segmentCount] = command.line;
+    kinds[segmentCount] = kind;
+    feeds[segmentCount] = command.feed;
+    spindleSpeeds[segmentCount] = command.spindleSpeed;
+    tools[segmentCount] = command.tool;
+    segmentCount++;
+  };
+
+  return {
+    add: (commands) => {
+      for (const command of commands) {
+        const target: Point3 = { x: command.x, y: command.y, z: command.z };
+
+        if (isArcCommand(command)) {
+          let chordStart = current;
+          for (const point of interpolateArc(current, target, command, arcTolerance)) {
+            pushSegment(chordStart, point, command, SegmentKind.Arc);
+            chordStart = point;
+          }
+        } else {
+          pushSegment(current, target, command, command.type === 'G0' ? SegmentKind.Rapid : SegmentKind.Feed);
+        }
+        current = target;
+      }
+    },
+    finish: () => ({
+      positions: positions.slice(0, segmentCount * 6),
+      lines: lines.slice(0, segmentCount),
+      kinds: kinds.slice(0, segmentCount),
+      feeds: feeds.slice(0, segmentCount),
+      spindleSpeeds: spindleSpeeds.slice(0, segmentCount),
+      tools: tools.slice(0, segmentCount),
+      segmentCount,
+    }),
+  };
+};
+
+/** Flatten a complete list of moves into line segments. */
+export const buildToolPath = (commands: GCodeCommand[], options: ToolPathOptions = {}): ToolPath => {
+  const builder = createToolPathBuilder(options);
+  builder.add(commands);
+  return builder.finish();
+};
@@ -0,0 +1,199 @@
+import type { DialectId } from './dialects';
+
+// Arc plane selected by G17 (XY), G18 (XZ) or G19 (YZ)
+export type ArcPlane = 'XY' | 'XZ' | 'YZ';
+
+export type MotionMode = 'G0' | 'G1' | 'G2' | 'G3';
+
+// Canned drilling, peck, tapping and boring cycles
+export type CycleCode = 'G73' | 'G81' | 'G82' | 'G83' | 'G84' | 'G85' | 'G89';
+
+// An active canned cycle with the words it keeps between blocks, in mm and seconds
+export interface CannedCycle {
+  code: CycleCode;
+  // Hole bottom and R plane as programmed (absolute or incremental)
+  z?: number;
+  r?: number;
+  // Peck depth for G73 / G83
+  q?: number;
+  // Dwell at the bottom for G82 / G84 / G89
+  p?: number;
+}
+
+export type Units = 'mm' | 'inch';
+
+export type DistanceMode = 'absolute' | 'incremental';
+
+// M3 turns the spindle clockwise, M4 counterclockwise, M5 stops it
+export type SpindleDirection = 'off' | 'cw' | 'ccw';
+
+// M7 turns on mist, M8 flood, M9 both off
+export interface CoolantState {
+  mist: boolean;
+  flood: boolean;
+}
+
+export interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Interpreter state carried from one block to the next
+export interface ModalState {
+  motion: MotionMode;
+  units: Units;
+  distanceMode: DistanceMode;
+  // G90.1 / G91.1: whether I/J/K are absolute or relative to the arc start
+  arcDistanceMode: DistanceMode;
+  plane: ArcPlane;
+  // Feed rate in mm/min, already converted from inches when G20 is active
+  feedRate: number;
+  // Spindle speed from the last S word, rpm
+  spindleSpeed: number;
+  spindle: SpindleDirection;
+  coolant: CoolantState;
+  // Cancelled by G80 or any other motion code
+  cycle: CannedCycle | null;
+  // G98 retracts cycles to the Z they started from, G99 to the R plane
+  cycleReturn: 'initial' | 'rPlane';
+  // Tool in the spindle (changed by M6) and the tool selected by the last T word
+  tool: number;
+  selectedTool: number;
+  // Active work coordinate system: 0 for G54 through 5 for G59
+  coordinateSystem: number;
+  // G92 shift added on top of the work offset
+  axisOffset: Point3;
+  // Machine coordinates in mm
+  position: Point3;
+}
+
+// A single address word such as "G1" or "X-12.5", as written in the source
+export interface Word {
+  letter: string;
+  value: number;
+  raw: string;
+}
+
+// A resolved move: coordinates are absolute machine coordinates in millimeters
+export interface GCodeCommand {
+  type: MotionMode;
+  x: number;
+  y: number;
+  z: number;
+  // Arc center offsets (incremental from the start point) for G2/G3
+  i?: number;
+  j?: number;
+  k?: number;
+  // Arc radius, negative for arcs larger than 180 degrees
+  r?: number;
+  plane: ArcPlane;
+  feed: number;
+  spindleSpeed: number;
+  tool: number;
+  // Work coordinate system the move was programmed in (0 = G54)
+  coordinateSystem: number;
+  line: number;
+}
+
+// One source line of the program
+export interface Block {
+  // 1-based line number in the source text
+  line: number;
+  words: Word[];
+  comments: string[];
+  // Modal state once the block has been executed
+  state: ModalState;
+  // Moves the block makes; a canned cycle expands into several
+  commands: GCodeCommand[];
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+// A problem found while parsing; line 0 refers to the program as a whole
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  line: number;
+  message: string;
+}
+
+export interface ParsedProgram {
+  // Dialect the text was read as
+  dialect: DialectId;
+  // Whether integer axis words were read as input increments
+  implicitDecimal: boolean;
+  blocks: Block[];
+  // Moves in execution order, the same objects referenced by their blocks
+  commands: GCodeCommand[];
+  diagnostics: Diagnostic[];
+  // What the blocks do besides moving, in execution order
+  events: ProgramEvent[];
+  holes: Hole[];
+}
+
+// The block where a different tool goes into the spindle
+export interface ToolChange {
+  line: number;
+  tool: number;
+}
+
+// A hole made by a canned cycle, in machine coordinates
+export interface Hole {
+  line: number;
+  cycle: CycleCode;
+  // Tool in the spindle, which sets the hole's diameter
+  tool: number;
+  x: number;
+  y: number;
+  // R plane the cycle feeds from and the bottom it reaches
+  top: number;
+  bottom: number;
+}
+
+/**
+ * A change the machine makes without moving: the spindle starting, stopping or
+ * changing speed, coolant, a tool change, a G4 dwell or an M0 / M1 stop.
+ */
+export type ProgramEvent =
+  | { type: 'spindle'; line: number; direction: SpindleDirection; speed: number }
+  | { type: 'coolant'; line: number; coolant: CoolantState }
+  | ({ type: 'toolChange' } & ToolChange)
+  // `after` counts the block's own moves made before the dwell, as in a canned cycle; absent, it comes first
+  | { type: 'dwell'; line: number; seconds: number; after?: number }
+  | { type: 'stop'; line: number; optional: boolean };
+
+// What the interface needs to know about a program; the blocks stay with the parser
+export interface ProgramSummary {
+  dialect: DialectId;
+  diagnostics: Diagnostic[];
+  commandCount: number;
+  // T numbers the moves are made with, ascending
+  tools: number[];
+  // Work coordinate systems the moves are programmed in, in order of first use
+  coordinateSystems: number[];
+  toolChanges: ToolChange[];
+  events: ProgramEvent[];
+  holes: Hole[];
+}
+
+// Kind of move a path segment belongs to, stored per segment in ToolPath.kinds
+export const SegmentKind = {
+  Rapid: 0,
+  Feed: 1,
+  Arc: 2,
+} as const;
+
+export type SegmentKind = (typeof SegmentKind)[keyof typeof SegmentKind];
+
+// Flattened line segments ready to upload to the GPU
+export interface ToolPath {
+  // Two vertices (start, end) per segment, xyz interleaved
+  positions: Float32Array;
+  // Per-segment metadata: source line, SegmentKind, feed (mm/min), spindle speed (rpm) and tool number
+  lines: Uint32Array;
+  kinds: Uint8Array;
+  feeds: Float32Array;
+  spindleSpeeds: Float32Array;
+  tools: Uint16Array;
+  segmentCount: number;
+}
@@ -0,0 +1,53 @@
+import type { ProgramEvent, ToolPath } from '../gcode';
+import type { MotionLimits, PathTiming, TimedEvent } from './types';
+
+// First segment whose source line is at or past the given one
+const firstSegmentFrom = (path: ToolPath, line: number): number => {
+  let low = 0;
+  let high = path.segmentCount;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (path.lines[middle] < line) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+/**
+ * Segment an event happens before. Changes made by a block take effect before
+ * its moves; a stop waits for them to finish, and a canned cycle's dwell comes
+ * after the moves it counts (each cycle move is a single segment).
+ */
+export const eventSegment = (path: ToolPath, event: ProgramEvent): number => {
+  if (event.type === 'stop') return firstSegmentFrom(path, event.line + 1);
+  const first = firstSegmentFrom(path, event.line);
+  return event.type === 'dwell' && event.after !== undefined ? first + event.after : first;
+};
+
+/** Seconds the machine stands still for an event; stops wait for the operator, so they count none. */
+export const eventDuration = (event: ProgramEvent, limits: MotionLimits): number => {
+  if (event.type === 'dwell') return event.seconds;
+  return event.type === 'toolChange' ? limits.toolChangeTime : 0;
+};
+
+/** Place events on the path and on the planned clock, in program order. */
+export const scheduleEvents = (
+  path: ToolPath,
+  timing: PathTiming,
+  events: ProgramEvent[],
+  limits: MotionLimits
+): TimedEvent[] => {
+  const timed: TimedEvent[] = [];
+  let previousSegment = -1;
+  // Time already spent standing still between the previous move and the current event
+  let waited = 0;
+  for (const event of events) {
+    const segment = eventSegment(path, event);
+    if (segment !== previousSegment) waited = 0;
+    previousSegment = segment;
+    const duration = eventDuration(event, limits);
+    timed.push({ event, segment, time: (segment > 0 ? timing.endTimes[segment - 1] : 0) + waited, duration });
+    waited += duration;
+  }
+  return timed;
+};
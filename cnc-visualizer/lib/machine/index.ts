@@ -0,0 +1,10 @@
+export * from './types';
+export { eventSegment, scheduleEvents } from './events';
+export { checkMachineLimits } from './limits';
+export {
+  DEFAULT_MACHINE_PROFILE,
+  duplicateMachineProfile,
+  parseMachineProfiles,
+  serializeMachineProfiles,
+} from './profiles';
+export { DEFAULT_MOTION_LIMITS, formatDuration, planPathTiming, playbackAtTime, segmentsAtTime } from './timing';
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildToolPath, parseGCode } from '../gcode';
+import { checkMachineLimits, DEFAULT_MACHINE_PROFILE, type MachineProfile } from '.';
+
+// Travel of X-100..100, Y-50..50, Z-80..0; feeds up to 2000 mm/min; spindle 1000-12000 rpm
+const machine: MachineProfile = {
+  ...DEFAULT_MACHINE_PROFILE,
+  travel: { min: { x: -100, y: -50, z: -80 }, max: { x: 100, y: 50, z: 0 } },
+  limits: { ...DEFAULT_MACHINE_PROFILE.limits, maxFeedRate: 2000 },
+  spindle: { min: 1000, max: 12000 },
+};
+
+const check = (lines: string[]) => {
+  const program = parseGCode(lines.join('\n'), { dialect: 'grbl' });
+  return checkMachineLimits(buildToolPath(program.commands), machine);
+};
+
+describe('checkMachineLimits', () => {
+  it('passes a program that stays within the machine', () => {
+    expect(check(['G0 X-100 Y50 Z0', 'M3 S12000', 'G1 Z-80 F2000', 'G1 X100 Y-50'])).toEqual([]);
+  });
+
+  it('reports moves over the travel, on the side they cross', () => {
+    expect(check(['G0 X120 Y0', 'G0 X0 Z-90', 'G0 Y-60.5'])).toEqual([
+      { kind: 'travel', line: 1, message: 'X120 is beyond the 100 travel limit' },
+      { kind: 'travel', line: 2, message: 'Z-90 is below the -80 travel limit' },
+      { kind: 'travel', line: 3, message: 'Y-60.5 is below the -50 travel limit' },
+    ]);
+  });
+
+  it('reports an arc over the travel once, however many segments cross it', () => {
+    const violations = check(['G0 X90 Y0', 'G3 X90 Y0 I-90 J0 F500']);
+    expect(violations).toEqual([expect.objectContaining({ kind: 'travel', line: 2 })]);
+  });
+
+  it('reports feeds above the maximum on cutting moves only', () => {
+    expect(check(['G0 X10', 'G1 X20 F2500', 'G0 X0'])).toEqual([
+      { kind: 'feed', line: 2, message: 'Feed 2500 mm/min exceeds the 2000 mm/min maximum' },
+    ]);
+  });
+
+  it('reports spindle speeds outside the range, but not a stopped spindle', () => {
+    expect(check(['G1 X10 F500', 'M3 S500', 'G1 X20', 'S15000', 'G1 X30'])).toEqual([
+      { kind: 'spindle', line: 3, message: 'Spindle speed 500 rpm is outside 1000–12000 rpm' },
+      { kind: 'spindle', line: 5, message: 'Spindle speed 15000 rpm is outside 1000–12000 rpm' },
+    ]);
+  });
+
+  it('lists a line breaking several limits once per kind, in program order', () => {
+    const violations = check(['M3 S20000', 'G1 X150 Y80 F3000']);
+    expect(violations.map(({ kind, line }) => ({ kind, line }))).toEqual([
+      { kind: 'travel', line: 2 },
+      { kind: 'feed', line: 2 },
+      { kind: 'spindle', line: 2 },
+    ]);
+  });
+});
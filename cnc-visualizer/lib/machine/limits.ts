@@ -0,0 +1,53 @@
+import { SegmentKind, type ToolPath } from '../gcode';
+import type { LimitViolation, LimitViolationKind, MachineProfile } from './types';
+
+// Slack for positions stored as 32-bit floats, mm
+const TRAVEL_TOLERANCE = 1e-3;
+
+const AXES = ['x', 'y', 'z'] as const;
+
+const format = (value: number): string => String(Math.round(value * 1000) / 1000);
+
+/**
+ * Check a path against a machine: end points outside its travel, feeds above
+ * its maximum and spindle speeds outside its range. Each line is reported at
+ * most once per kind, in program order.
+ */
+export const checkMachineLimits = (path: ToolPath, machine: MachineProfile): LimitViolation[] => {
+  const violations: LimitViolation[] = [];
+  const reported = new Set<string>();
+  const report = (kind: LimitViolationKind, line: number, message: string) => {
+    const key = `${kind}:${line}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    violations.push({ kind, line, message });
+  };
+  const { travel, spindle, limits } = machine;
+
+  for (let segment = 0; segment < path.segmentCount; segment++) {
+    const line = path.lines[segment];
+    const offset = segment * 6 + 3;
+    for (let index = 0; index < AXES.length; index++) {
+      const axis = AXES[index];
+      const value = path.positions[offset + index];
+      if (value < travel.min[axis] - TRAVEL_TOLERANCE) {
+        report('travel', line, `${axis.toUpperCase()}${format(value)} is below the ${format(travel.min[axis])} travel limit`);
+      } else if (value > travel.max[axis] + TRAVEL_TOLERANCE) {
+        report('travel', line, `${axis.toUpperCase()}${format(value)} is beyond the ${format(travel.max[axis])} travel limit`);
+      }
+    }
+
+    // Rapids run at the machine's own rate whatever the program says
+    if (path.kinds[segment] === SegmentKind.Rapid) continue;
+    const feed = path.feeds[segment];
+    if (feed > limits.maxFeedRate) {
+      report('feed', line, `Feed ${format(feed)} mm/min exceeds the ${format(limits.maxFeedRate)} mm/min maximum`);
+    }
+    const speed = path.spindleSpeeds[segment];
+    if (speed > spindle.max || (speed > 0 && speed < spindle.min)) {
+      report('spindle', line, `Spindle speed ${format(speed)} rpm is outside ${format(spindle.min)}–${format(spindle.max)} rpm`);
+    }
+  }
+
+  return violations.sort((a, b) => a.line - b.line);
+};
@@ -0,0 +1,100 @@
+import type { Bounds } from '../setup';
+import { readNumber, readPoint } from '../validate';
+import { DEFAULT_MOTION_LIMITS } from './timing';
+import type { MachineProfile, MotionLimits } from './types';
+
+const PROFILES_VERSION = 1;
+
+// A mid-sized 3-axis mill homed at machine zero, with its table 150 mm below
+export const DEFAULT_MACHINE_PROFILE: MachineProfile = {
+  id: 'default',
+  name: 'Generic 3-axis mill',
+  travel: { min: { x: -300, y: -200, z: -150 }, max: { x: 300, y: 200, z: 50 } },
+  home: { x: 0, y: 0, z: 0 },
+  limits: DEFAULT_MOTION_LIMITS,
+  spindle: { min: 0, max: 24000 },
+  table: { min: { x: -350, y: -225, z: -170 }, max: { x: 350, y: 225, z: -150 } },
+};
+
+/** Copy of a profile under a new id, for saving as another machine. */
+export const duplicateMachineProfile = (profile: MachineProfile, name: string): MachineProfile => ({
+  ...profile,
+  id: `machine-${Date.now().toString(36)}`,
+  name,
+});
+
+export const serializeMachineProfiles = (profiles: MachineProfile[]): string =>
+  JSON.stringify({ version: PROFILES_VERSION, profiles }, null, 2);
+
+const readBounds = (value: unknown, field: string, source: string): Bounds => {
+  const bounds = (value ?? {}) as Record<string, unknown>;
+  const min = readPoint(bounds.min, `${field}.min`, source);
+  const max = readPoint(bounds.max, `${field}.max`, source);
+  if (min.x > max.x || min.y > max.y || min.z > max.z) {
+    throw new Error(`${source}: ${field} minimum is above its maximum`);
+  }
+  return { min, max };
+};
+
+const readLimits = (value: unknown, source: string): MotionLimits => {
+  const limits = (value ?? {}) as Record<string, unknown>;
+  return {
+    rapidRate: readNumber(limits.rapidRate, 'limits.rapidRate', source),
+    maxFeedRate: readNumber(limits.maxFeedRate, 'limits.maxFeedRate', source),
+    acceleration: readPoint(limits.acceleration, 'limits.acceleration', source),
+    jerk: readPoint(limits.jerk, 'limits.jerk', source),
+    junctionDeviation: readNumber(limits.junctionDeviation, 'limits.junctionDeviation', source),
+    // Profiles saved before the setting existed get the default
+    toolChangeTime: limits.toolChangeTime === undefined
+      ? DEFAULT_MOTION_LIMITS.toolChangeTime
+      : readNumber(limits.toolChangeTime, 'limits.toolChangeTime', source),
+  };
+};
+
+/**
+ * Read machine profiles saved by serializeMachineProfiles, validating every
+ * entry. Throws with a readable message on bad input.
+ */
+export const parseMachineProfiles = (text: string): MachineProfile[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Machine profiles are not valid JSON');
+  }
+
+  const entries = (data as { profiles?: unknown })?.profiles;
+  if (!Array.isArray(entries)) {
+    throw new Error('Machine profiles must contain a "profiles" array');
+  }
+
+  const profiles = entries.map((entry: Record<string, unknown>, index): MachineProfile => {
+    if (typeof entry !== 'object' || entry === null) {
+      throw new Error(`Machine ${index + 1} is not an object`);
+    }
+    if (typeof entry.id !== 'string' || entry.id === '') {
+      throw new Error(`Machine ${index + 1}: "id" must be a non-empty string`);
+    }
+    const source = `Machine ${index + 1}`;
+    const spindle = (entry.spindle ?? {}) as Record<string, unknown>;
+    return {
+      id: entry.id,
+      name: typeof entry.name === 'string' ? entry.name : `Machine ${index + 1}`,
+      travel: readBounds(entry.travel, 'travel', source),
+      home: readPoint(entry.home, 'home', source),
+      limits: readLimits(entry.limits, source),
+      spindle: {
+        min: readNumber(spindle.min, 'spindle.min', source),
+        max: readNumber(spindle.max, 'spindle.max', source),
+      },
+      table: readBounds(entry.table, 'table', source),
+    };
+  });
+
+  const ids = new Set<string>();
+  for (const profile of profiles) {
+    if (ids.has(profile.id)) throw new Error(`Machine id "${profile.id}" appears more than once`);
+    ids.add(profile.id);
+  }
+  return profiles;
+};
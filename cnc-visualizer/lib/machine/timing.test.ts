@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { buildToolPath, parseGCode } from '../gcode';
+import { DEFAULT_MOTION_LIMITS, planPathTiming, scheduleEvents } from '.';
+
+const plan = (lines: string[], limits = DEFAULT_MOTION_LIMITS) => {
+  const program = parseGCode(lines.join('\n'), { dialect: 'grbl' });
+  const path = buildToolPath(program.commands);
+  const timing = planPathTiming(path, limits, program.events);
+  return { timing, events: scheduleEvents(path, timing, program.events, limits) };
+};
+
+// Two moves along the same line, which the planner runs through without slowing
+const straightRun = (between: string[]) => ['G21 G90 F3000', 'G1 X100', ...between, 'G1 X200'];
+
+describe('halts', () => {
+  it.each([
+    ['a dwell', 'G4 P0.5', 0.5],
+    ['a program stop', 'M0', 0],
+    ['an optional stop', 'M1', 0],
+  ])('stops before the move after %s', (_, block, waited) => {
+    const through = plan(straightRun([])).timing.totalTime;
+    // Beyond the time spent waiting, slowing down to a stop and back up takes longer
+    expect(plan(straightRun([block])).timing.totalTime).toBeGreaterThan(through + waited + 0.1);
+  });
+
+  it('stops for a tool change and counts its time', () => {
+    const limits = { ...DEFAULT_MOTION_LIMITS, toolChangeTime: 0 };
+    const through = plan(straightRun([]), limits).timing.totalTime;
+    const instant = plan(straightRun(['T2 M6']), limits).timing.totalTime;
+    expect(instant).toBeGreaterThan(through + 0.1);
+
+    const { timing, events } = plan(straightRun(['T2 M6']), { ...limits, toolChangeTime: 12 });
+    expect(timing.totalTime).toBeCloseTo(instant + 12);
+    expect(timing.startTimes[1] - timing.endTimes[0]).toBeCloseTo(12);
+
+    const change = events.find(({ event }) => event.type === 'toolChange');
+    expect(change?.time).toBeCloseTo(timing.endTimes[0]);
+    expect(change?.duration).toBe(12);
+  });
+});
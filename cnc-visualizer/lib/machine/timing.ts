@@ -0,0 +1,234 @@
+import { SegmentKind, type Point3, type ProgramEvent, type ToolPath } from '../gcode';
+import { eventDuration, eventSegment } from './events';
+import type { MotionLimits, PathTiming, PlaybackPoint } from './types';
+
+export const DEFAULT_MOTION_LIMITS: MotionLimits = {
+  rapidRate: 5000,
+  maxFeedRate: 5000,
+  acceleration: { x: 500, y: 500, z: 200 },
+  jerk: { x: 10000, y: 10000, z: 5000 },
+  junctionDeviation: 0.01,
+  toolChangeTime: 10,
+};
+
+// Bisection steps when solving for the peak speed of a short segment
+const PEAK_SEARCH_ITERATIONS = 30;
+
+// The tightest of the per-axis limits along a unit direction
+const limitAlong = (limits: Point3, dx: number, dy: number, dz: number): number => {
+  let limit = Infinity;
+  if (dx !== 0) limit = Math.min(limit, limits.x / Math.abs(dx));
+  if (dy !== 0) limit = Math.min(limit, limits.y / Math.abs(dy));
+  if (dz !== 0) limit = Math.min(limit, limits.z / Math.abs(dz));
+  return Math.max(limit, 1e-6);
+};
+
+// Time and distance to change speed between v0 and v1 with an S-curve (jerk-limited) profile
+const speedChange = (v0: number, v1: number, acceleration: number, jerk: number) => {
+  const delta = Math.abs(v1 - v0);
+  if (delta === 0) return { time: 0, distance: 0 };
+  const time = delta >= (acceleration * acceleration) / jerk
+    ? delta / acceleration + acceleration / jerk
+    : 2 * Math.sqrt(delta / jerk);
+  return { time, distance: ((v0 + v1) / 2) * time };
+};
+
+// Time to travel a segment entering at v0 and leaving at v1, cruising as close to the nominal speed as it fits
+const segmentTime = (
+  length: number,
+  v0: number,
+  v1: number,
+  nominal: number,
+  acceleration: number,
+  jerk: number
+): number => {
+  const rampDistance = (peak: number) =>
+    speedChange(v0, peak, acceleration, jerk).distance + speedChange(peak, v1, acceleration, jerk).distance;
+
+  let low = Math.max(v0, v1);
+  if (rampDistance(low) > length) {
+    // Too short to ramp fully under the jerk limit; assume a straight speed change
+    return (2 * length) / Math.max(v0 + v1, 1e-6);
+  }
+
+  let peak = nominal;
+  if (rampDistance(nominal) > length) {
+    let high = nominal;
+    for (let i = 0; i < PEAK_SEARCH_ITERATIONS; i++) {
+      const middle = (low + high) / 2;
+      if (rampDistance(middle) > length) high = middle;
+      else low = middle;
+    }
+    peak = low;
+  }
+  if (peak <= 0) return 0;
+
+  const accelerate = speedChange(v0, peak, acceleration, jerk);
+  const decelerate = speedChange(peak, v1, acceleration, jerk);
+  return accelerate.time + decelerate.time + (length - accelerate.distance - decelerate.distance) / peak;
+};
+
+/**
+ * Estimate when each path segment finishes. Speeds come from the programmed
+ * feeds (rapids use the rapid rate); corners are blended with the junction
+ * deviation model and every speed change obeys the acceleration and jerk
+ * limits along the segment's direction, planned with look-ahead over the
+ * whole program. The machine comes to rest for every G4 dwell, M0 / M1 stop
+ * and tool change among the events; dwells and tool changes add their time.
+ */
+export const planPathTiming = (path: ToolPath, limits: MotionLimits, events: ProgramEvent[] = []): PathTiming => {
+  const { segmentCount, positions, kinds, feeds } = path;
+  const lengths = new Float64Array(segmentCount);
+  const directions = new Float64Array(segmentCount * 3);
+  const nominal = new Float64Array(segmentCount);
+  const accelerations = new Float64Array(segmentCount);
+  const jerks = new Float64Array(segmentCount);
+
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const offset = segment * 6;
+    const dx = positions[offset + 3] - positions[offset];
+    const dy = positions[offset + 4] - positions[offset + 1];
+    const dz = positions[offset + 5] - positions[offset + 2];
+    const length = Math.hypot(dx, dy, dz);
+    lengths[segment] = length;
+    if (length === 0) continue;
+
+    const ux = dx / length;
+    const uy = dy / length;
+    const uz = dz / length;
+    directions.set([ux, uy, uz], segment * 3);
+    // Moves without a feed are already reported by the parser; run them at the rapid rate
+    const rate = kinds[segment] === SegmentKind.Rapid || feeds[segment] <= 0
+      ? limits.rapidRate
+      : Math.min(feeds[segment], limits.maxFeedRate);
+    nominal[segment] = rate / 60;
+    accelerations[segment] = limitAlong(limits.acceleration, ux, uy, uz);
+    jerks[segment] = limitAlong(limits.jerk, ux, uy, uz);
+  }
+
+  // Time spent standing still before each segment, and after the last one
+  const waits = new Float64Array(segmentCount + 1);
+  const halts = new Uint8Array(segmentCount + 1);
+  for (const event of events) {
+    if (event.type !== 'dwell' && event.type !== 'stop' && event.type !== 'toolChange') continue;
+    const segment = eventSegment(path, event);
+    waits[segment] += eventDuration(event, limits);
+    halts[segment] = 1;
+  }
+
+  // Zero-length segments take no time and are left out of the speed planning;
+  // a halt before one carries over to the next segment that moves
+  const moving: number[] = [];
+  const fromRest: boolean[] = [];
+  let halted = false;
+  for (let segment = 0; segment < segmentCount; segment++) {
+    halted ||= halts[segment] === 1;
+    if (lengths[segment] > 0) {
+      moving.push(segment);
+      fromRest.push(halted);
+      halted = false;
+    }
+  }
+
+  // Highest speed allowed at the start of each moving segment
+  const entry = new Float64Array(moving.length);
+  for (let i = 1; i < moving.length; i++) {
+    // Starting again after a halt, so the segment before has to stop
+    if (fromRest[i]) continue;
+    const previous = moving[i - 1];
+    const current = moving[i];
+    const cosTheta = -(
+      directions[previous * 3] * directions[current * 3] +
+      directions[previous * 3 + 1] * directions[current * 3 + 1] +
+      directions[previous * 3 + 2] * directions[current * 3 + 2]
+    );
+
+    let junction: number;
+    if (cosTheta > 0.999999) {
+      // Full reversal: the machine has to stop
+      junction = 0;
+    } else if (cosTheta < -0.999999) {
+      // Straight continuation
+      junction = Infinity;
+    } else {
+      const sinHalfTheta = Math.sqrt(0.5 * (1 - cosTheta));
+      const acceleration = Math.min(accelerations[previous], accelerations[current]);
+      junction = Math.sqrt((acceleration * limits.junctionDeviation * sinHalfTheta) / (1 - sinHalfTheta));
+    }
+    entry[i] = Math.min(junction, nominal[previous], nominal[current]);
+  }
+
+  // Backward pass: every segment must be able to slow down for the next one (and stop at the end)
+  let exitSpeed = 0;
+  for (let i = moving.length - 1; i >= 0; i--) {
+    const segment = moving[i];
+    entry[i] = Math.min(entry[i], Math.sqrt(exitSpeed * exitSpeed + 2 * accelerations[segment] * lengths[segment]));
+    exitSpeed = entry[i];
+  }
+
+  // Forward pass: and speed up no faster than the acceleration allows
+  for (let i = 0; i < moving.length - 1; i++) {
+    const segment = moving[i];
+    entry[i + 1] = Math.min(entry[i + 1], Math.sqrt(entry[i] * entry[i] + 2 * accelerations[segment] * lengths[segment]));
+  }
+
+  const startTimes = new Float64Array(segmentCount);
+  const endTimes = new Float64Array(segmentCount);
+  let time = 0;
+  let next = 0;
+  for (let segment = 0; segment < segmentCount; segment++) {
+    time += waits[segment];
+    startTimes[segment] = time;
+    if (next < moving.length && moving[next] === segment) {
+      const exit = next + 1 < moving.length ? entry[next + 1] : 0;
+      time += segmentTime(lengths[segment], entry[next], exit, nominal[segment], accelerations[segment], jerks[segment]);
+      next++;
+    }
+    endTimes[segment] = time;
+  }
+
+  return { startTimes, endTimes, totalTime: time + waits[segmentCount] };
+};
+
+// Number of segments started by the given time into the program
+export const segmentsAtTime = (timing: PathTiming, time: number): number => {
+  const { endTimes } = timing;
+  if (time <= 0) return 0;
+  if (time >= timing.totalTime) return endTimes.length;
+
+  // First segment still running at this time
+  let low = 0;
+  let high = endTimes.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (endTimes[middle] < time) low = middle + 1;
+    else high = middle;
+  }
+  return low + 1;
+};
+
+/**
+ * Locate the tool at the given time into the program. Within a segment the
+ * tool is assumed to move at an even speed, which keeps playback smooth;
+ * during a dwell or tool change it waits at the start of the next segment.
+ */
+export const playbackAtTime = (timing: PathTiming, time: number): PlaybackPoint => {
+  const { startTimes, endTimes } = timing;
+  if (time <= 0) return { segment: 0, fraction: 0 };
+  if (time >= timing.totalTime) return { segment: endTimes.length, fraction: 0 };
+
+  const segment = segmentsAtTime(timing, time) - 1;
+  const duration = endTimes[segment] - startTimes[segment];
+  const fraction = duration > 0 ? (time - startTimes[segment]) / duration : 1;
+  return { segment, fraction: Math.min(Math.max(fraction, 0), 1) };
+};
+
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}h ${pad(minutes)}m ${pad(secs)}s` : `${minutes}m ${pad(secs)}s`;
+};
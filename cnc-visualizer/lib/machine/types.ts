@@ -0,0 +1,68 @@
+import type { Point3, ProgramEvent } from '../gcode';
+import type { Bounds } from '../setup';
+
+// Kinematic limits used to estimate how long the machine takes to run a path
+export interface MotionLimits {
+  // G0 traverse rate, mm/min
+  rapidRate: number;
+  // Programmed feeds above this are clamped, mm/min
+  maxFeedRate: number;
+  // Per-axis acceleration, mm/s²
+  acceleration: Point3;
+  // Per-axis jerk, mm/s³
+  jerk: Point3;
+  // Allowed deviation from the programmed corner when blending moves, mm
+  junctionDeviation: number;
+  // Time an automatic tool change takes, s
+  toolChangeTime: number;
+}
+
+export interface PathTiming {
+  // Time (s) from program start at which each path segment starts and ends moving;
+  // a dwell or tool change leaves a gap between one segment's end and the next one's start
+  startTimes: Float64Array;
+  endTimes: Float64Array;
+  totalTime: number;
+}
+
+// A program event placed on the path and the clock
+export interface TimedEvent {
+  event: ProgramEvent;
+  // Segment the event happens before; the segment count for events after the last move
+  segment: number;
+  // Time (s) from program start; a dwell or tool change lasts from here until its segment starts
+  time: number;
+  // How long the machine stands still for it, s
+  duration: number;
+}
+
+// Where playback is along the path: the segment being run and the share of it done
+export interface PlaybackPoint {
+  // Index of the running segment; equals the segment count once the program has finished
+  segment: number;
+  fraction: number;
+}
+
+// A saved machine: where it can reach, how fast it moves and what the part sits on
+export interface MachineProfile {
+  id: string;
+  name: string;
+  // Machine coordinates the tool tip can reach, mm
+  travel: Bounds;
+  // Machine position after homing; programs start here
+  home: Point3;
+  limits: MotionLimits;
+  // Spindle speeds the machine can run, rpm
+  spindle: { min: number; max: number };
+  // Table or bed drawn under the work area, mm
+  table: Bounds;
+}
+
+export type LimitViolationKind = 'travel' | 'feed' | 'spindle';
+
+// A programmed move the machine cannot make as written
+export interface LimitViolation {
+  kind: LimitViolationKind;
+  line: number;
+  message: string;
+}
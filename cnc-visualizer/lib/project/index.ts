@@ -0,0 +1,2 @@
+export * from './types';
+export { createProjectArchive, isProjectFileName, PROJECT_EXTENSION, readProjectArchive } from './project';
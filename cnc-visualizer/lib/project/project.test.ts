@@ -0,0 +1,78 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MACHINE_PROFILE } from '../machine';
+import { DEFAULT_PART_SETUP, DEFAULT_WORK_OFFSETS } from '../setup';
+import { createTool, DEFAULT_TOOL } from '../tools';
+import { createProjectArchive, readProjectArchive, type Project } from '.';
+
+const project = (): Project => ({
+  model: new File(['solid part\nendsolid part\n'], 'part.stl'),
+  modelUnits: 'inch',
+  program: new File(['G21 G90\nG0 X10 Y5\nM30\n'], 'facing.nc'),
+  dialect: 'linuxcnc',
+  stock: {
+    stock: { origin: { x: -10, y: -10, z: -20 }, size: { x: 120, y: 80, z: 20 } },
+    resolution: 0.5,
+    cutter: { type: 'ball', diameter: 6, cornerRadius: 0, taperAngle: 90 },
+  },
+  workOffsets: DEFAULT_WORK_OFFSETS.map((offset, index) => ({ ...offset, x: index * 100 })),
+  partSetup: DEFAULT_PART_SETUP,
+  tools: [DEFAULT_TOOL, { ...createTool(2), name: 'Chamfer', type: 'vbit', taperAngle: 60 }],
+  machine: { ...DEFAULT_MACHINE_PROFILE, name: 'Shop mill' },
+  view: {
+    camera: { projection: 'orthographic', position: { x: 100, y: -100, z: 80 }, target: { x: 0, y: 0, z: 0 }, zoom: 2 },
+    progress: 0.25,
+  },
+});
+
+// Save a project with one manifest field set to `value`, or removed when it is undefined
+const withManifest = async (path: string, value: unknown): Promise<Blob> => {
+  const entries = unzipSync(await createProjectArchive(project()));
+  const manifest = JSON.parse(strFromU8(entries['project.json']));
+  const keys = path.split('.');
+  const parent = keys.slice(0, -1).reduce((object, key) => object[key], manifest);
+  if (value === undefined) delete parent[keys[keys.length - 1]];
+  else parent[keys[keys.length - 1]] = value;
+  entries['project.json'] = strToU8(JSON.stringify(manifest));
+  return new Blob([zipSync(entries)]);
+};
+
+describe('project archives', () => {
+  it('opens what it saves', async () => {
+    const saved = project();
+    const opened = await readProjectArchive(new Blob([await createProjectArchive(saved)]));
+
+    const { model, program, ...settings } = opened;
+    const { model: savedModel, program: savedProgram, ...savedSettings } = saved;
+    expect(settings).toEqual(savedSettings);
+    expect(model?.name).toBe('part.stl');
+    expect(await model?.text()).toBe(await savedModel?.text());
+    expect(program.name).toBe('facing.nc');
+    expect(await program.text()).toBe(await savedProgram.text());
+  });
+
+  it('keeps the bundled part and a detected dialect as null', async () => {
+    const opened = await readProjectArchive(new Blob([await createProjectArchive({ ...project(), model: null, dialect: null, stock: null })]));
+    expect(opened).toMatchObject({ model: null, modelUnits: 'auto', dialect: null, stock: null });
+  });
+
+  it('rejects a file that is not a zip archive', async () => {
+    await expect(readProjectArchive(new Blob(['G0 X0']))).rejects.toThrow('Project is not a valid archive');
+  });
+
+  it.each([
+    ['a point coordinate that is not a number', 'view.camera.target.y', 'up', 'Project: "view.camera.target.y" must be a number'],
+    ['a missing point', 'stock.stock.origin', undefined, 'Project: "stock.stock.origin" must be an object'],
+    ['a non-finite number', 'view.progress', null, 'Project: "view.progress" must be a number'],
+    ['a zero size', 'stock.stock.size.z', 0, 'Project: the stock size must be greater than 0 on every axis'],
+    ['too few work offsets', 'workOffsets', DEFAULT_WORK_OFFSETS.slice(1), 'Project: "workOffsets" must list 6 work offsets'],
+    ['an unknown dialect', 'program.dialect', 'haas', 'Project: "program.dialect" must be one of'],
+    ['a newer version', 'version', 2, 'Project version 2 is not supported'],
+  ])('rejects a manifest with %s', async (_, path, value, message) => {
+    await expect(readProjectArchive(await withManifest(path, value))).rejects.toThrow(message);
+  });
+
+  it('names a part the archive does not hold', async () => {
+    await expect(readProjectArchive(await withManifest('model.name', 'other.stl'))).rejects.toThrow('Project is missing model/other.stl');
+  });
+});
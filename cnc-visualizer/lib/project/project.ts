@@ -0,0 +1,191 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { DIALECT_IDS, type DialectId, type Point3 } from '../gcode';
+import { parseMachineProfiles, serializeMachineProfiles } from '../machine';
+import { DEFAULT_WORK_OFFSETS, type AnchorPosition, type PartSetup } from '../setup';
+import type { SimulationSettings } from '../sim';
+import { CUTTER_TYPE_LABELS, parseToolLibrary, serializeToolLibrary, type CutterType } from '../tools';
+import { readNumber, readObject, readPoint } from '../validate';
+import type { Project, ProjectUnits, ProjectView } from './types';
+
+const PROJECT_VERSION = 1;
+
+// Start of every manifest validation message
+const SOURCE = 'Project';
+
+export const PROJECT_EXTENSION = '.cncproj';
+
+// Entries of the zip archive; the part and program keep their file names under their folders
+const MANIFEST_PATH = 'project.json';
+const TOOLS_PATH = 'tools.json';
+const MACHINE_PATH = 'machine.json';
+const MODEL_FOLDER = 'model/';
+const PROGRAM_FOLDER = 'program/';
+
+const UNITS: ProjectUnits[] = ['auto', 'mm', 'inch'];
+const ANCHORS: AnchorPosition[] = ['min', 'center', 'max'];
+const CUTTER_TYPES = Object.keys(CUTTER_TYPE_LABELS) as CutterType[];
+
+// Settings saved in project.json; the tool library and machine use their own export formats
+interface ProjectManifest {
+  version: number;
+  model: { name: string; units: ProjectUnits } | null;
+  program: { name: string; dialect: DialectId | null };
+  stock: SimulationSettings | null;
+  workOffsets: Point3[];
+  partSetup: PartSetup;
+  view: ProjectView;
+}
+
+export const isProjectFileName = (name: string): boolean => name.toLowerCase().endsWith(PROJECT_EXTENSION);
+
+/** Bundle a project into a zip archive holding its settings, part and program. */
+export const createProjectArchive = async (project: Project): Promise<Uint8Array> => {
+  const { model, program } = project;
+  const manifest: ProjectManifest = {
+    version: PROJECT_VERSION,
+    model: model && { name: model.name, units: project.modelUnits },
+    program: { name: program.name, dialect: project.dialect },
+    stock: project.stock,
+    workOffsets: project.workOffsets,
+    partSetup: project.partSetup,
+    view: project.view,
+  };
+  const entries: Record<string, Uint8Array> = {
+    [MANIFEST_PATH]: strToU8(JSON.stringify(manifest, null, 2)),
+    [TOOLS_PATH]: strToU8(serializeToolLibrary(project.tools)),
+    [MACHINE_PATH]: strToU8(serializeMachineProfiles([project.machine])),
+    [PROGRAM_FOLDER + program.name]: new Uint8Array(await program.arrayBuffer()),
+  };
+  if (model) entries[MODEL_FOLDER + model.name] = new Uint8Array(await model.arrayBuffer());
+  return zipSync(entries);
+};
+
+const readPositive = (value: unknown, field: string): number => {
+  const number = readNumber(value, field, SOURCE);
+  if (number <= 0) throw new Error(`Project: "${field}" must be greater than 0`);
+  return number;
+};
+
+const readChoice = <T extends string>(value: unknown, choices: readonly T[], field: string): T => {
+  if (!choices.includes(value as T)) {
+    throw new Error(`Project: "${field}" must be one of ${choices.join(', ')}`);
+  }
+  return value as T;
+};
+
+const readName = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || value === '') {
+    throw new Error(`Project: "${field}" must be a file name`);
+  }
+  return value;
+};
+
+const readStock = (value: unknown): SimulationSettings | null => {
+  if (value === null) return null;
+  const settings = readObject(value, 'stock', SOURCE);
+  const stock = readObject(settings.stock, 'stock.stock', SOURCE);
+  const cutter = readObject(settings.cutter, 'stock.cutter', SOURCE);
+  const size = readPoint(stock.size, 'stock.stock.size', SOURCE);
+  if (size.x <= 0 || size.y <= 0 || size.z <= 0) {
+    throw new Error('Project: the stock size must be greater than 0 on every axis');
+  }
+  return {
+    stock: { origin: readPoint(stock.origin, 'stock.stock.origin', SOURCE), size },
+    resolution: readPositive(settings.resolution, 'stock.resolution'),
+    cutter: {
+      type: readChoice(cutter.type, CUTTER_TYPES, 'stock.cutter.type'),
+      diameter: readPositive(cutter.diameter, 'stock.cutter.diameter'),
+      cornerRadius: readNumber(cutter.cornerRadius, 'stock.cutter.cornerRadius', SOURCE),
+      taperAngle: readNumber(cutter.taperAngle, 'stock.cutter.taperAngle', SOURCE),
+    },
+  };
+};
+
+const readWorkOffsets = (value: unknown): Point3[] => {
+  if (!Array.isArray(value) || value.length !== DEFAULT_WORK_OFFSETS.length) {
+    throw new Error(`Project: "workOffsets" must list ${DEFAULT_WORK_OFFSETS.length} work offsets`);
+  }
+  return value.map((offset, index) => readPoint(offset, `workOffsets.${index}`, SOURCE));
+};
+
+const readPartSetup = (value: unknown): PartSetup => {
+  const setup = readObject(value, 'partSetup', SOURCE);
+  const origin = readObject(setup.origin, 'partSetup.origin', SOURCE);
+  const transform = readObject(setup.transform, 'partSetup.transform', SOURCE);
+  return {
+    origin: {
+      x: readChoice(origin.x, ANCHORS, 'partSetup.origin.x'),
+      y: readChoice(origin.y, ANCHORS, 'partSetup.origin.y'),
+      z: readChoice(origin.z, ANCHORS, 'partSetup.origin.z'),
+      alignTo: readChoice(origin.alignTo, ['workZero', 'stock'] as const, 'partSetup.origin.alignTo'),
+    },
+    transform: {
+      translation: readPoint(transform.translation, 'partSetup.transform.translation', SOURCE),
+      rotation: readPoint(transform.rotation, 'partSetup.transform.rotation', SOURCE),
+      scale: readPositive(transform.scale, 'partSetup.transform.scale'),
+    },
+  };
+};
+
+const readView = (value: unknown): ProjectView => {
+  const view = readObject(value, 'view', SOURCE);
+  const camera = readObject(view.camera, 'view.camera', SOURCE);
+  return {
+    camera: {
+      projection: readChoice(camera.projection, ['perspective', 'orthographic'] as const, 'view.camera.projection'),
+      position: readPoint(camera.position, 'view.camera.position', SOURCE),
+      target: readPoint(camera.target, 'view.camera.target', SOURCE),
+      zoom: readPositive(camera.zoom, 'view.camera.zoom'),
+    },
+    progress: Math.min(1, Math.max(0, readNumber(view.progress, 'view.progress', SOURCE))),
+  };
+};
+
+/**
+ * Read a project saved by createProjectArchive, validating its settings.
+ * Throws with a readable message on bad input.
+ */
+export const readProjectArchive = async (file: Blob): Promise<Project> => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error('Project is not a valid archive');
+  }
+  const entry = (path: string): Uint8Array => {
+    const data = entries[path];
+    if (!data) throw new Error(`Project is missing ${path}`);
+    return data;
+  };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(strFromU8(entry(MANIFEST_PATH)));
+  } catch (err) {
+    throw err instanceof SyntaxError ? new Error(`${MANIFEST_PATH} is not valid JSON`) : err;
+  }
+  const manifest = readObject(data, MANIFEST_PATH, SOURCE);
+  if (manifest.version !== PROJECT_VERSION) {
+    throw new Error(`Project version ${String(manifest.version)} is not supported`);
+  }
+
+  const model = manifest.model === null ? null : readObject(manifest.model, 'model', SOURCE);
+  const modelName = model && readName(model.name, 'model.name');
+  const program = readObject(manifest.program, 'program', SOURCE);
+  const programName = readName(program.name, 'program.name');
+  const [machine] = parseMachineProfiles(strFromU8(entry(MACHINE_PATH)));
+  if (!machine) throw new Error(`${MACHINE_PATH} has no machine`);
+
+  return {
+    model: modelName ? new File([entry(MODEL_FOLDER + modelName)], modelName) : null,
+    modelUnits: model ? readChoice(model.units, UNITS, 'model.units') : 'auto',
+    program: new File([entry(PROGRAM_FOLDER + programName)], programName),
+    dialect: program.dialect === null ? null : readChoice(program.dialect, DIALECT_IDS, 'program.dialect'),
+    stock: readStock(manifest.stock),
+    workOffsets: readWorkOffsets(manifest.workOffsets),
+    partSetup: readPartSetup(manifest.partSetup),
+    tools: parseToolLibrary(strFromU8(entry(TOOLS_PATH))),
+    machine,
+    view: readView(manifest.view),
+  };
+};
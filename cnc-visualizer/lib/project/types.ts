@@ -0,0 +1,41 @@
+import type { DialectId, Point3 } from '../gcode';
+import type { MachineProfile } from '../machine';
+import type { PartSetup } from '../setup';
+import type { SimulationSettings } from '../sim';
+import type { Tool } from '../tools';
+
+// Unit the part model is read in; 'auto' uses the unit the file declares
+export type ProjectUnits = 'auto' | 'mm' | 'inch';
+
+// Camera of the main view pane
+export interface ProjectCamera {
+  projection: 'perspective' | 'orthographic';
+  position: Point3;
+  // Point the view orbits around
+  target: Point3;
+  // Orthographic zoom; the perspective camera scales by its distance instead
+  zoom: number;
+}
+
+export interface ProjectView {
+  camera: ProjectCamera;
+  // Playback position as a share of the program's run time
+  progress: number;
+}
+
+// Everything a project file saves and restores
+export interface Project {
+  // null keeps the bundled example part
+  model: File | null;
+  modelUnits: ProjectUnits;
+  program: File;
+  // null detects the dialect from the program
+  dialect: DialectId | null;
+  // null leaves the material removal simulation off
+  stock: SimulationSettings | null;
+  workOffsets: Point3[];
+  partSetup: PartSetup;
+  tools: Tool[];
+  machine: MachineProfile;
+  view: ProjectView;
+}
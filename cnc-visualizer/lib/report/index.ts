@@ -0,0 +1,4 @@
+export * from './types';
+export { computeProgramStats, formatDistance } from './stats';
+export { createJobReport, renderReportHtml } from './sheet';
+export type { JobReportInput } from './sheet';
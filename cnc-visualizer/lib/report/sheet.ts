@@ -0,0 +1,114 @@
+import { DIALECTS, WORK_OFFSET_CODES, type Point3, type ProgramSummary } from '../gcode';
+import { formatDuration } from '../machine';
+import { CUTTER_TYPE_LABELS, findTool, type Tool } from '../tools';
+import { formatDistance } from './stats';
+import type { JobReport, ProgramStats, ValueRange } from './types';
+
+export interface JobReportInput {
+  programName: string;
+  program: ProgramSummary;
+  stats: ProgramStats;
+  // Tool library used to describe the program's T numbers
+  tools: Tool[];
+  workOffsets: Point3[];
+}
+
+/** Collect what the setup sheet shows into one serializable report. */
+export const createJobReport = ({ programName, program, stats, tools, workOffsets }: JobReportInput): JobReport => ({
+  programName,
+  dialect: DIALECTS[program.dialect].label,
+  generatedAt: new Date().toISOString(),
+  stats,
+  tools: stats.toolUsage.map((usage) => ({ ...usage, definition: findTool(tools, usage.tool) ?? null })),
+  workOffsets: program.coordinateSystems.map((system) => ({
+    code: WORK_OFFSET_CODES[system],
+    offset: workOffsets[system] ?? { x: 0, y: 0, z: 0 },
+  })),
+});
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const formatNumber = (value: number, digits = 3): string => Number(value.toFixed(digits)).toString();
+
+const formatRange = (range: ValueRange | null, unit: string): string =>
+  range
+    ? range.min === range.max
+      ? `${formatNumber(range.min)} ${unit}`
+      : `${formatNumber(range.min)} – ${formatNumber(range.max)} ${unit}`
+    : '—';
+
+const table = (headers: string[], rows: string[][]): string =>
+  rows.length === 0
+    ? '<p class="empty">None</p>'
+    : `<table><thead><tr>${headers.map((header) => `<th>${header}</th>`).join('')}</tr></thead><tbody>${rows
+        .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+        .join('')}</tbody></table>`;
+
+const STYLES = `
+  body { font-family: system-ui, sans-serif; color: #1f2937; margin: 2rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.1rem; margin: 1.5rem 0 0.5rem; border-bottom: 1px solid #d1d5db; }
+  .meta, .empty { color: #6b7280; font-size: 0.9rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.25rem 0.5rem; border-bottom: 1px solid #e5e7eb; }
+  th { background: #f3f4f6; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+/** Render the report as a standalone, printable HTML setup sheet. */
+export const renderReportHtml = (report: JobReport): string => {
+  const { stats } = report;
+  const summaryRows = [
+    ['Estimated cycle time', formatDuration(stats.totalTime)],
+    ['Cutting distance', formatDistance(stats.cutDistance)],
+    ['Rapid distance', formatDistance(stats.rapidDistance)],
+    ['Feed range', formatRange(stats.feedRange, 'mm/min')],
+    ['Spindle range', formatRange(stats.spindleRange, 'rpm')],
+    ['Tool changes', String(stats.toolChanges.length)],
+  ];
+  const { extents } = stats;
+  const extentRows = extents
+    ? (['x', 'y', 'z'] as const).map((axis) => {
+        const range = extents[axis];
+        return [axis.toUpperCase(), formatNumber(range.min), formatNumber(range.max), formatNumber(range.max - range.min)];
+      })
+    : [];
+  const toolRows = report.tools.map(({ tool, definition, cutDistance, rapidDistance, time }) => [
+    `T${tool}`,
+    definition ? definition.name : 'Not in tool library',
+    definition ? `${CUTTER_TYPE_LABELS[definition.type]}, Ø${formatNumber(definition.diameter)} mm` : '—',
+    formatDuration(time),
+    formatDistance(cutDistance),
+    formatDistance(rapidDistance),
+  ]);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Setup sheet – ${escapeHtml(report.programName)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.programName)}</h1>
+<p class="meta">${escapeHtml(report.dialect)} program · generated ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</p>
+<h2>Summary</h2>
+${table(['Item', 'Value'], summaryRows)}
+<h2>Tools</h2>
+${table(['Tool', 'Name', 'Cutter', 'Time', 'Cutting', 'Rapid'], toolRows)}
+<h2>Tool changes</h2>
+${table(['Line', 'Tool'], stats.toolChanges.map(({ line, tool }) => [String(line), `T${tool}`]))}
+<h2>Work offsets</h2>
+${table(
+  ['Offset', 'X', 'Y', 'Z'],
+  report.workOffsets.map(({ code, offset }) => [code, formatNumber(offset.x), formatNumber(offset.y), formatNumber(offset.z)])
+)}
+<h2>Extents (machine coordinates, mm)</h2>
+${table(['Axis', 'Min', 'Max', 'Size'], extentRows)}
+<h2>Depth levels</h2>
+${table(['Z (mm)', 'Cutting'], stats.depthLevels.map(({ z, cutDistance }) => [formatNumber(z), formatDistance(cutDistance)]))}
+</body>
+</html>
+`;
+};
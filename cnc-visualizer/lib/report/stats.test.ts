@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildToolPath, parseGCode } from '../gcode';
+import { DEFAULT_MOTION_LIMITS, planPathTiming } from '../machine';
+import { computeProgramStats } from '.';
+
+const stats = (lines: string[]) => {
+  const program = parseGCode(lines.join('\n'), { dialect: 'grbl' });
+  const path = buildToolPath(program.commands);
+  return computeProgramStats(path, planPathTiming(path, DEFAULT_MOTION_LIMITS, program.events), program.toolChanges);
+};
+
+const toolTimes = (lines: string[]) => {
+  const { toolUsage, totalTime } = stats(lines);
+  return { times: new Map(toolUsage.map((usage) => [usage.tool, usage.time])), totalTime };
+};
+
+describe('tool usage', () => {
+  it.each([
+    ['one tool', []],
+    ['a dwell after the last move', ['G4 P3']],
+    ['a tool change after the last move', ['T3 M6']],
+    ['a stop and a dwell after the last move', ['M0', 'G4 P2']],
+  ])('adds up to the total time with %s', (_, ending) => {
+    const { times, totalTime } = toolTimes([
+      'G21 G90 T1 M6',
+      'G0 X0 Y0 Z5',
+      'G1 Z-1 F300',
+      'G1 X40',
+      'G0 Z5',
+      'T2 M6',
+      'G4 P1',
+      'G0 X10 Y10',
+      'G1 Z-2 F200',
+      'G1 Y30',
+      ...ending,
+    ]);
+    const sum = Array.from(times.values()).reduce((total, time) => total + time, 0);
+    expect(sum).toBeCloseTo(totalTime, 6);
+  });
+
+  it('charges waits after the last move to the tool that made it', () => {
+    const base = ['G21 G90 T1 M6', 'G0 X0 Y0 Z5', 'G1 Z-1 F300', 'G1 X40'];
+    const { times: before } = toolTimes(base);
+    const { times: after } = toolTimes([...base, 'G4 P5']);
+    expect(after.get(1)).toBeCloseTo((before.get(1) ?? 0) + 5, 6);
+  });
+
+  it('charges the change to a tool, and the dwell after it, to the new tool', () => {
+    const first = ['G21 G90 T1 M6', 'G0 X0 Y0 Z5', 'G1 Z-1 F300', 'G1 X40', 'G0 Z5'];
+    const second = ['G0 X10 Y10', 'G1 Z-2 F200'];
+    const { times: plain } = toolTimes([...first, 'T2 M6', ...second]);
+    const { times: dwelled } = toolTimes([...first, 'T2 M6', 'G4 P4', ...second]);
+    expect(dwelled.get(1)).toBeCloseTo(plain.get(1) ?? 0, 6);
+    expect(dwelled.get(2)).toBeCloseTo((plain.get(2) ?? 0) + 4, 6);
+    expect(plain.get(2)).toBeGreaterThan(DEFAULT_MOTION_LIMITS.toolChangeTime);
+  });
+});
@@ -0,0 +1,96 @@
+import { SegmentKind, type ToolChange, type ToolPath } from '../gcode';
+import type { PathTiming } from '../machine';
+import type { DepthLevel, ProgramStats, ToolUsage, ValueRange } from './types';
+
+// Level moves are grouped by their Z rounded to 0.001 mm
+const DEPTH_STEPS_PER_MM = 1000;
+
+const extend = (range: ValueRange | null, value: number): ValueRange =>
+  range ? { min: Math.min(range.min, value), max: Math.max(range.max, value) } : { min: value, max: value };
+
+/**
+ * Measure a tool path: distances split by move type and tool, estimated
+ * times from the motion plan, extents, depth levels and the feed and
+ * spindle ranges of the cutting moves.
+ */
+export const computeProgramStats = (
+  path: ToolPath,
+  timing: PathTiming,
+  toolChanges: ToolChange[]
+): ProgramStats => {
+  const { segmentCount, positions, kinds, feeds, spindleSpeeds, tools } = path;
+  const usage = new Map<number, ToolUsage>();
+  const levels = new Map<number, number>();
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  let cutDistance = 0;
+  let rapidDistance = 0;
+  let feedRange: ValueRange | null = null;
+  let spindleRange: ValueRange | null = null;
+
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const offset = segment * 6;
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], positions[offset + axis], positions[offset + 3 + axis]);
+      max[axis] = Math.max(max[axis], positions[offset + axis], positions[offset + 3 + axis]);
+    }
+    const length = Math.hypot(
+      positions[offset + 3] - positions[offset],
+      positions[offset + 4] - positions[offset + 1],
+      positions[offset + 5] - positions[offset + 2]
+    );
+
+    let toolUsage = usage.get(tools[segment]);
+    if (!toolUsage) {
+      toolUsage = { tool: tools[segment], cutDistance: 0, rapidDistance: 0, time: 0 };
+      usage.set(tools[segment], toolUsage);
+    }
+    // Waits before a move, such as a dwell or tool change, count towards the tool making it
+    toolUsage.time += timing.endTimes[segment] - (segment > 0 ? timing.endTimes[segment - 1] : 0);
+
+    if (kinds[segment] === SegmentKind.Rapid) {
+      rapidDistance += length;
+      toolUsage.rapidDistance += length;
+      continue;
+    }
+    cutDistance += length;
+    toolUsage.cutDistance += length;
+    if (feeds[segment] > 0) feedRange = extend(feedRange, feeds[segment]);
+    if (spindleSpeeds[segment] > 0) spindleRange = extend(spindleRange, spindleSpeeds[segment]);
+
+    const z = positions[offset + 2];
+    if (length > 0 && Math.abs(positions[offset + 5] - z) < 1 / DEPTH_STEPS_PER_MM) {
+      const level = Math.round(z * DEPTH_STEPS_PER_MM) / DEPTH_STEPS_PER_MM;
+      levels.set(level, (levels.get(level) ?? 0) + length);
+    }
+  }
+
+  // Waits after the last move belong to the tool that made it, so the tools add up to the total
+  const lastUsage = segmentCount > 0 ? usage.get(tools[segmentCount - 1]) : undefined;
+  if (lastUsage) lastUsage.time += timing.totalTime - timing.endTimes[segmentCount - 1];
+
+  const depthLevels: DepthLevel[] = Array.from(levels, ([z, distance]) => ({ z, cutDistance: distance }))
+    .sort((a, b) => b.z - a.z);
+
+  return {
+    cutDistance,
+    rapidDistance,
+    totalTime: timing.totalTime,
+    toolUsage: Array.from(usage.values()),
+    extents: segmentCount > 0
+      ? {
+          x: { min: min[0], max: max[0] },
+          y: { min: min[1], max: max[1] },
+          z: { min: min[2], max: max[2] },
+        }
+      : null,
+    depthLevels,
+    feedRange,
+    spindleRange,
+    toolChanges,
+  };
+};
+
+/** Distance in mm, switching to meters for long ones. */
+export const formatDistance = (mm: number): string =>
+  mm >= 1000 ? `${(mm / 1000).toFixed(2)} m` : `${mm.toFixed(1)} mm`;
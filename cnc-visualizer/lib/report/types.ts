@@ -0,0 +1,57 @@
+import type { Point3, ToolChange } from '../gcode';
+import type { Tool } from '../tools';
+
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+// Totals for one tool over every segment it runs
+export interface ToolUsage {
+  tool: number;
+  // Feed and arc moves, mm
+  cutDistance: number;
+  rapidDistance: number;
+  // Estimated machine time, s
+  time: number;
+}
+
+// Distance cut at one Z height by level (constant Z) moves
+export interface DepthLevel {
+  z: number;
+  cutDistance: number;
+}
+
+export interface ProgramStats {
+  cutDistance: number;
+  rapidDistance: number;
+  // Estimated machine time, s
+  totalTime: number;
+  // In order of first use
+  toolUsage: ToolUsage[];
+  // Space swept by the tool tip, rapids included; null when the path is empty
+  extents: { x: ValueRange; y: ValueRange; z: ValueRange } | null;
+  // Highest first
+  depthLevels: DepthLevel[];
+  // Programmed feeds (mm/min) and non-zero spindle speeds (rpm) of cutting moves
+  feedRange: ValueRange | null;
+  spindleRange: ValueRange | null;
+  toolChanges: ToolChange[];
+}
+
+// A tool the program uses, with its library entry when there is one
+export interface ReportTool extends ToolUsage {
+  definition: Tool | null;
+}
+
+// Everything on the setup sheet; exported as is to JSON
+export interface JobReport {
+  programName: string;
+  dialect: string;
+  // ISO 8601 timestamp
+  generatedAt: string;
+  stats: ProgramStats;
+  tools: ReportTool[];
+  // Work coordinate systems the program uses, with their machine positions
+  workOffsets: { code: string; offset: Point3 }[];
+}
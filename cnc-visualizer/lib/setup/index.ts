@@ -0,0 +1,2 @@
+export * from './types';
+export { boxAnchor, DEFAULT_PART_SETUP, DEFAULT_WORK_OFFSETS, partPlacement } from './placement';
@@ -0,0 +1,40 @@
+import type { Point3 } from '../gcode';
+import type { AnchorPosition, Bounds, PartOrigin, PartSetup } from './types';
+
+export const DEFAULT_PART_SETUP: PartSetup = {
+  origin: { x: 'center', y: 'center', z: 'max', alignTo: 'workZero' },
+  transform: {
+    translation: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    scale: 1,
+  },
+};
+
+// G54–G59 all at the machine origin until configured
+export const DEFAULT_WORK_OFFSETS: Point3[] = Array.from({ length: 6 }, () => ({ x: 0, y: 0, z: 0 }));
+
+const anchorValue = (min: number, max: number, position: AnchorPosition): number =>
+  position === 'min' ? min : position === 'max' ? max : (min + max) / 2;
+
+/** Point of a box selected by the origin's anchors. */
+export const boxAnchor = (box: Bounds, origin: PartOrigin): Point3 => ({
+  x: anchorValue(box.min.x, box.max.x, origin.x),
+  y: anchorValue(box.min.y, box.max.y, origin.y),
+  z: anchorValue(box.min.z, box.max.z, origin.z),
+});
+
+/**
+ * Translation that moves a part with the given (already scaled and rotated)
+ * bounds onto its alignment target, plus the setup's own translation. Falls
+ * back to the work zero when aligning to a stock that does not exist.
+ */
+export const partPlacement = (partBounds: Bounds, setup: PartSetup, workZero: Point3, stock: Bounds | null): Point3 => {
+  const anchor = boxAnchor(partBounds, setup.origin);
+  const target = setup.origin.alignTo === 'stock' && stock ? boxAnchor(stock, setup.origin) : workZero;
+  const { translation } = setup.transform;
+  return {
+    x: target.x - anchor.x + translation.x,
+    y: target.y - anchor.y + translation.y,
+    z: target.z - anchor.z + translation.z,
+  };
+};
@@ -0,0 +1,32 @@
+import type { Point3 } from '../gcode';
+
+// Where along one axis of a bounding box a reference point sits
+export type AnchorPosition = 'min' | 'center' | 'max';
+
+// Point of the part's bounding box that is placed on the alignment target
+export interface PartOrigin {
+  x: AnchorPosition;
+  y: AnchorPosition;
+  z: AnchorPosition;
+  // Put the point on the program's work zero, or on the same point of the stock box
+  alignTo: 'workZero' | 'stock';
+}
+
+// Applied to the loaded mesh before it is aligned: scale, then rotation, then translation
+export interface PartTransform {
+  // Extra shift after alignment (mm)
+  translation: Point3;
+  // Rotation about X, Y and Z in degrees
+  rotation: Point3;
+  scale: number;
+}
+
+export interface PartSetup {
+  origin: PartOrigin;
+  transform: PartTransform;
+}
+
+export interface Bounds {
+  min: Point3;
+  max: Point3;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { buildToolPath, parseGCode } from '../gcode';
+import { DEFAULT_TOOL, type Tool } from '../tools';
+import { createHeightfield, detectCollisions, type SimulationSettings } from '.';
+
+// A 20 x 20 part with a flat top at Z0
+const part = () => createHeightfield({ origin: { x: 0, y: 0, z: -10 }, size: { x: 20, y: 20, z: 10 } }, 0.5);
+
+// A 40 x 40 block, also topped at Z0
+const simulation: SimulationSettings = {
+  stock: { origin: { x: 0, y: 0, z: -10 }, size: { x: 40, y: 40, z: 10 } },
+  resolution: 0.5,
+  cutter: DEFAULT_TOOL,
+};
+
+const detect = (lines: string[], options: { tool?: Tool; withPart?: boolean; withStock?: boolean } = {}) => {
+  const { tool = DEFAULT_TOOL, withPart = true, withStock = false } = options;
+  // Lift off the corner of the part at the origin first, so the program's own lines start at 2
+  const program = parseGCode(['G0 Z5', ...lines].join('\n'), { dialect: 'grbl' });
+  return detectCollisions(buildToolPath(program.commands), withPart ? part() : null, {
+    resolveTool: () => tool,
+    simulation: withStock ? simulation : null,
+  });
+};
+
+describe('detectCollisions', () => {
+  it('finds nothing for moves that stay clear of the part', () => {
+    expect(detect(['G0 X-10 Y10 Z5', 'G1 X30 F300', 'G0 X10 Y10', 'G1 Z0.01'])).toEqual([]);
+  });
+
+  it('reports a cut below the part surface as a gouge at its deepest point', () => {
+    const collisions = detect(['G0 X-10 Y10 Z5', 'G1 Z-1 F300', 'G1 X30 Z-3']);
+    expect(collisions).toEqual([expect.objectContaining({ kind: 'gouge', line: 4 })]);
+    const [gouge] = collisions;
+    expect(gouge.depth).toBeGreaterThan(2);
+    expect(gouge.depth).toBeLessThanOrEqual(3);
+    // The tool descends along the move, so the deepest interference is at its far side over the part
+    expect(gouge.position.x).toBeGreaterThan(15);
+  });
+
+  it('ignores interference within the tolerance', () => {
+    expect(detect(['G0 X-10 Y10 Z5', 'G1 Z-0.03 F300', 'G1 X30'])).toEqual([]);
+  });
+
+  it('reports a rapid through the part', () => {
+    expect(detect(['G0 X-10 Y10 Z-1', 'G0 X30'])).toEqual([
+      expect.objectContaining({ kind: 'rapid', line: 3, depth: 1 }),
+    ]);
+  });
+
+  it('reports a rapid through the stock but not through material already cut away', () => {
+    const options = { withPart: false, withStock: true };
+    expect(detect(['G0 X-10 Y30 Z-1', 'G0 X50'], options)).toEqual([
+      expect.objectContaining({ kind: 'rapid', line: 3, depth: 1 }),
+    ]);
+    expect(detect(['G0 X-10 Y30 Z5', 'G1 Z-2 F300', 'G1 X50', 'G0 Z-1', 'G0 X-10'], options)).toEqual([]);
+  });
+
+  it('reports the holder reaching into the stock', () => {
+    const stubby = { ...DEFAULT_TOOL, stickout: 5 };
+    // The cutter is 8 deep; 5 above its tip the holder is still 3 into the uncut stock beside the slot
+    const collisions = detect(['G0 X-20 Y20 Z5', 'G1 Z-8 F200', 'G1 X20'], { tool: stubby, withPart: false, withStock: true });
+    expect(collisions).toEqual([expect.objectContaining({ kind: 'holder', line: 4 })]);
+    expect(collisions[0].depth).toBeCloseTo(3);
+  });
+
+  it('does not report the holder of a tool long enough for the cut', () => {
+    expect(detect(['G0 X-20 Y20 Z5', 'G1 Z-8 F200', 'G1 X20'], { withPart: false, withStock: true })).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+import { SegmentKind, type Point3, type ToolPath } from '../gcode';
+import { cutterProfile, type Tool } from '../tools';
+import { createHeightfield, cutSegment } from './heightfield';
+import type { Heightfield, SimulationSettings } from './types';
+
+export type CollisionKind = 'gouge' | 'rapid' | 'holder';
+
+export interface Collision {
+  kind: CollisionKind;
+  line: number;
+  // First path segment of the move where the collision happens
+  segment: number;
+  // Tool tip position at the deepest interference
+  position: Point3;
+  // How far the tool or holder reaches into the material (mm)
+  depth: number;
+}
+
+export interface CollisionOptions {
+  resolveTool: (toolNumber: number) => Tool;
+  // When given, rapids and the holder are also checked against the stock as it is cut
+  simulation?: SimulationSettings | null;
+  // Interference ignored as tessellation noise (mm)
+  tolerance?: number;
+}
+
+const DEFAULT_TOLERANCE = 0.05;
+
+// Highest surface sample above the shape `heightAt` within a radius of (x, y); positive means interference
+const maxInterference = (
+  field: Heightfield,
+  x: number,
+  y: number,
+  radius: number,
+  heightAt: (distance: number) => number
+): number => {
+  const { stock, columns, rows, cellX, cellY, heights } = field;
+  const minColumn = Math.max(0, Math.ceil((x - radius - stock.origin.x) / cellX));
+  const maxColumn = Math.min(columns - 1, Math.floor((x + radius - stock.origin.x) / cellX));
+  const minRow = Math.max(0, Math.ceil((y - radius - stock.origin.y) / cellY));
+  const maxRow = Math.min(rows - 1, Math.floor((y + radius - stock.origin.y) / cellY));
+  let worst = -Infinity;
+
+  for (let row = minRow; row <= maxRow; row++) {
+    const dy = stock.origin.y + row * cellY - y;
+    for (let column = minColumn; column <= maxColumn; column++) {
+      const dx = stock.origin.x + column * cellX - x;
+      const distance = Math.hypot(dx, dy);
+      if (distance > radius) continue;
+      worst = Math.max(worst, heights[row * columns + column] - heightAt(distance));
+    }
+  }
+  return worst;
+};
+
+const surfaceTop = (field: Heightfield) => {
+  let top = -Infinity;
+  for (const height of field.heights) top = Math.max(top, height);
+  return top;
+};
+
+/**
+ * Walk the path and report moves where the cutter dips below the part
+ * surface (gouges), rapids that pass through the part or stock, and moves
+ * where the holder touches either. Each move and kind is reported once,
+ * at its deepest point.
+ */
+export const detectCollisions = (
+  path: ToolPath,
+  part: Heightfield | null,
+  { resolveTool, simulation, tolerance = DEFAULT_TOLERANCE }: CollisionOptions
+): Collision[] => {
+  const stock = simulation ? createHeightfield(simulation.stock, simulation.resolution) : null;
+  if (!part && !stock) return [];
+
+  const partTop = part ? surfaceTop(part) : -Infinity;
+  const stockTop = simulation ? simulation.stock.origin.z + simulation.stock.size.z : -Infinity;
+  const materialTop = Math.max(partTop, stockTop);
+  const spacing = Math.min(
+    part ? Math.min(part.cellX, part.cellY) : Infinity,
+    stock ? Math.min(stock.cellX, stock.cellY) : Infinity
+  ) / 2;
+
+  const found = new Map<string, Collision>();
+  const record = (kind: CollisionKind, segment: number, position: Point3, depth: number) => {
+    const line = path.lines[segment];
+    const key = `${kind}:${line}`;
+    const existing = found.get(key);
+    if (!existing) {
+      found.set(key, { kind, line, segment, position, depth });
+    } else if (depth > existing.depth) {
+      existing.position = position;
+      existing.depth = depth;
+    }
+  };
+
+  const { positions, kinds } = path;
+  for (let segment = 0; segment < path.segmentCount; segment++) {
+    const tool = resolveTool(path.tools[segment]);
+    const radius = tool.diameter / 2;
+    const holderRadius = tool.holderDiameter / 2;
+    const isRapid = kinds[segment] === SegmentKind.Rapid;
+    const offset = segment * 6;
+    const from = { x: positions[offset], y: positions[offset + 1], z: positions[offset + 2] };
+    const to = { x: positions[offset + 3], y: positions[offset + 4], z: positions[offset + 5] };
+
+    // Nothing can touch material while the tip stays above it
+    if (Math.min(from.z, to.z) < materialTop) {
+      const cutterHeight = (z: number) => (distance: number) => z + cutterProfile(tool, distance);
+      const holderHeight = (z: number) => () => z + tool.stickout;
+      const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+
+      for (let step = 0; step <= steps; step++) {
+        const t = step / steps;
+        const point = {
+          x: from.x + (to.x - from.x) * t,
+          y: from.y + (to.y - from.y) * t,
+          z: from.z + (to.z - from.z) * t,
+        };
+
+        if (part && point.z < partTop) {
+          const depth = maxInterference(part, point.x, point.y, radius, cutterHeight(point.z));
+          if (depth > tolerance) record(isRapid ? 'rapid' : 'gouge', segment, point, depth);
+        }
+        if (stock && isRapid && point.z < stockTop) {
+          const depth = maxInterference(stock, point.x, point.y, radius, cutterHeight(point.z));
+          if (depth > tolerance) record('rapid', segment, point, depth);
+        }
+        if (holderRadius > 0 && point.z + tool.stickout < materialTop) {
+          const depth = Math.max(
+            part ? maxInterference(part, point.x, point.y, holderRadius, holderHeight(point.z)) : -Infinity,
+            stock ? maxInterference(stock, point.x, point.y, holderRadius, holderHeight(point.z)) : -Infinity
+          );
+          if (depth > tolerance) record('holder', segment, point, depth);
+        }
+      }
+    }
+
+    if (stock) cutSegment(stock, from, to, tool);
+  }
+
+  return Array.from(found.values()).sort((a, b) => a.segment - b.segment);
+};
+
+export interface Clearance {
+  // Tool tip position where the cutter comes closest to the part
+  position: Point3;
+  // Vertical gap between the cutter and the part surface below it; negative when they overlap
+  gap: number;
+}
+
+/**
+ * Smallest vertical gap between the cutter moving along a straight move and
+ * the part surface, or null when the move never passes over the part.
+ */
+export const segmentClearance = (part: Heightfield, from: Point3, to: Point3, tool: Tool): Clearance | null => {
+  const radius = tool.diameter / 2;
+  const spacing = Math.min(part.cellX, part.cellY) / 2;
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+  let closest: Clearance | null = null;
+
+  for (let step = 0; step <= steps; step++) {
+    const t = step / steps;
+    const point = {
+      x: from.x + (to.x - from.x) * t,
+      y: from.y + (to.y - from.y) * t,
+      z: from.z + (to.z - from.z) * t,
+    };
+    const interference = maxInterference(part, point.x, point.y, radius, (distance) => point.z + cutterProfile(tool, distance));
+    // Samples outside the part are -Infinity
+    if (interference === -Infinity) continue;
+    if (!closest || -interference < closest.gap) closest = { position: point, gap: -interference };
+  }
+  return closest;
+};
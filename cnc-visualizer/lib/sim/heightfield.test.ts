@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { buildToolPath, parseGCode } from '../gcode';
+import type { CutterShape } from '../tools';
+import { createHeightfield, cutSegment, fitStockToPath, MAX_HEIGHTFIELD_CELLS, type Heightfield } from '.';
+
+// 40 x 20 block with its top at Z0, sampled every 0.5 mm
+const STOCK = { origin: { x: 0, y: 0, z: -10 }, size: { x: 40, y: 20, z: 10 } };
+
+const flat: CutterShape = { type: 'flat', diameter: 6, cornerRadius: 0, taperAngle: 90 };
+const ball: CutterShape = { ...flat, type: 'ball' };
+
+const heightAt = (field: Heightfield, x: number, y: number) => {
+  const column = Math.round((x - field.stock.origin.x) / field.cellX);
+  const row = Math.round((y - field.stock.origin.y) / field.cellY);
+  return field.heights[row * field.columns + column];
+};
+
+describe('createHeightfield', () => {
+  it('samples the stock top on a grid including both edges', () => {
+    const field = createHeightfield(STOCK, 0.5);
+    expect(field).toMatchObject({ columns: 81, rows: 41, cellX: 0.5, cellY: 0.5 });
+    expect(field.heights.every((height) => height === 0)).toBe(true);
+  });
+
+  it('coarsens the grid to stay within the sample limit', () => {
+    const field = createHeightfield({ origin: { x: 0, y: 0, z: 0 }, size: { x: 2000, y: 2000, z: 10 } }, 0.1);
+    expect(field.columns * field.rows).toBeLessThanOrEqual(MAX_HEIGHTFIELD_CELLS);
+    expect(field.cellX).toBeGreaterThan(0.1);
+  });
+});
+
+describe('cutSegment', () => {
+  it('lowers the samples a flat cutter sweeps over to its tip', () => {
+    const field = createHeightfield(STOCK, 0.5);
+    expect(cutSegment(field, { x: 10, y: 10, z: -2 }, { x: 30, y: 10, z: -2 }, flat)).toBe(true);
+    expect(heightAt(field, 20, 10)).toBe(-2);
+    // Within the radius of the path and of its end points, but not beyond
+    expect(heightAt(field, 20, 12.5)).toBe(-2);
+    expect(heightAt(field, 7.5, 10)).toBe(-2);
+    expect(heightAt(field, 20, 13.5)).toBe(0);
+    expect(heightAt(field, 6.5, 10)).toBe(0);
+  });
+
+  it('leaves the profile of a ball cutter', () => {
+    const field = createHeightfield(STOCK, 0.5);
+    cutSegment(field, { x: 10, y: 10, z: -2 }, { x: 30, y: 10, z: -2 }, ball);
+    expect(heightAt(field, 20, 10)).toBeCloseTo(-2);
+    expect(heightAt(field, 20, 12)).toBeCloseTo(-2 + 3 - Math.sqrt(5));
+  });
+
+  it('does not cut below the bottom of the stock', () => {
+    const field = createHeightfield(STOCK, 0.5);
+    cutSegment(field, { x: 20, y: 10, z: 5 }, { x: 20, y: 10, z: -25 }, flat);
+    expect(heightAt(field, 20, 10)).toBe(-10);
+  });
+
+  it('reports moves that leave the surface as it is', () => {
+    const field = createHeightfield(STOCK, 0.5);
+    expect(cutSegment(field, { x: 0, y: 0, z: 1 }, { x: 40, y: 20, z: 0 }, flat)).toBe(false);
+    expect(cutSegment(field, { x: 50, y: 0, z: -5 }, { x: 50, y: 20, z: -5 }, flat)).toBe(false);
+    expect(cutSegment(field, { x: 10, y: 10, z: -2 }, { x: 30, y: 10, z: -2 }, flat)).toBe(true);
+    // The same cut again removes nothing more
+    expect(cutSegment(field, { x: 10, y: 10, z: -2 }, { x: 30, y: 10, z: -2 }, flat)).toBe(false);
+  });
+});
+
+describe('fitStockToPath', () => {
+  it('wraps the cuts from Z0 to just below the deepest one, ignoring rapids', () => {
+    const program = parseGCode('G0 X-50 Y-50 Z20\nG0 X0 Y0 Z5\nG1 Z-3 F200\nG1 X30 Y15', { dialect: 'grbl' });
+    expect(fitStockToPath(buildToolPath(program.commands), 2)).toEqual({
+      origin: { x: -2, y: -2, z: -4 },
+      size: { x: 34, y: 19, z: 4 },
+    });
+  });
+
+  it('has nothing to fit for a path without cuts', () => {
+    const program = parseGCode('G0 X10 Y10 Z5', { dialect: 'grbl' });
+    expect(fitStockToPath(buildToolPath(program.commands))).toBeNull();
+  });
+});
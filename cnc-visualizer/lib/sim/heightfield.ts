@@ -0,0 +1,147 @@
+import { SegmentKind, type Point3, type ToolPath } from '../gcode';
+import { cutterProfile, type CutterShape } from '../tools';
+import type { Heightfield, StockDefinition } from './types';
+
+// Upper bound on grid samples so a fine resolution on a large stock stays interactive
+export const MAX_HEIGHTFIELD_CELLS = 1_000_000;
+
+// Material left under the deepest cut when fitting stock to a path (mm)
+const STOCK_FLOOR = 1;
+
+export const createHeightfield = (stock: StockDefinition, resolution: number): Heightfield => {
+  let cellSize = Math.max(resolution, 0.01);
+  const countFor = (length: number) => Math.max(2, Math.floor(length / cellSize) + 1);
+  while (countFor(stock.size.x) * countFor(stock.size.y) > MAX_HEIGHTFIELD_CELLS) {
+    cellSize *= 1.25;
+  }
+
+  const columns = countFor(stock.size.x);
+  const rows = countFor(stock.size.y);
+  const field: Heightfield = {
+    stock,
+    columns,
+    rows,
+    cellX: stock.size.x / (columns - 1),
+    cellY: stock.size.y / (rows - 1),
+    heights: new Float32Array(columns * rows),
+  };
+  resetHeightfield(field);
+  return field;
+};
+
+// Restore the uncut stock top
+export const resetHeightfield = (field: Heightfield) => {
+  field.heights.fill(field.stock.origin.z + field.stock.size.z);
+};
+
+// Lower every sample under the cutter with its tip at (x, y, z)
+const stamp = (field: Heightfield, cutter: CutterShape, x: number, y: number, z: number): boolean => {
+  const { stock, columns, rows, cellX, cellY, heights } = field;
+  const radius = cutter.diameter / 2;
+  const minColumn = Math.max(0, Math.ceil((x - radius - stock.origin.x) / cellX));
+  const maxColumn = Math.min(columns - 1, Math.floor((x + radius - stock.origin.x) / cellX));
+  const minRow = Math.max(0, Math.ceil((y - radius - stock.origin.y) / cellY));
+  const maxRow = Math.min(rows - 1, Math.floor((y + radius - stock.origin.y) / cellY));
+  let changed = false;
+
+  for (let row = minRow; row <= maxRow; row++) {
+    const dy = stock.origin.y + row * cellY - y;
+    for (let column = minColumn; column <= maxColumn; column++) {
+      const dx = stock.origin.x + column * cellX - x;
+      const height = z + cutterProfile(cutter, Math.hypot(dx, dy));
+      const index = row * columns + column;
+      if (height < heights[index]) {
+        heights[index] = Math.max(height, stock.origin.z);
+        changed = true;
+      }
+    }
+  }
+  return changed;
+};
+
+/**
+ * Sweep the cutter along a straight segment, lowering the heightfield.
+ * Returns whether any sample changed.
+ */
+export const cutSegment = (field: Heightfield, from: Point3, to: Point3, cutter: CutterShape): boolean => {
+  const { stock } = field;
+  const radius = cutter.diameter / 2;
+  const top = stock.origin.z + stock.size.z;
+
+  // Skip moves that never touch the block
+  if (Math.min(from.z, to.z) >= top) return false;
+  if (Math.max(from.x, to.x) < stock.origin.x - radius || Math.min(from.x, to.x) > stock.origin.x + stock.size.x + radius) return false;
+  if (Math.max(from.y, to.y) < stock.origin.y - radius || Math.min(from.y, to.y) > stock.origin.y + stock.size.y + radius) return false;
+
+  // Stamp at half-cell spacing so consecutive footprints overlap
+  const spacing = Math.min(field.cellX, field.cellY) / 2;
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+  let changed = false;
+  for (let step = 0; step <= steps; step++) {
+    const t = step / steps;
+    changed = stamp(
+      field,
+      cutter,
+      from.x + (to.x - from.x) * t,
+      from.y + (to.y - from.y) * t,
+      from.z + (to.z - from.z) * t
+    ) || changed;
+  }
+  return changed;
+};
+
+/**
+ * Cut path segments [start, end) into the heightfield, looking up the cutter
+ * for each segment's tool number. Returns whether any sample changed.
+ */
+export const cutPathSegments = (
+  field: Heightfield,
+  path: ToolPath,
+  start: number,
+  end: number,
+  resolveCutter: (toolNumber: number) => CutterShape
+): boolean => {
+  const { positions } = path;
+  let changed = false;
+  for (let segment = start; segment < end; segment++) {
+    const offset = segment * 6;
+    changed = cutSegment(
+      field,
+      { x: positions[offset], y: positions[offset + 1], z: positions[offset + 2] },
+      { x: positions[offset + 3], y: positions[offset + 4], z: positions[offset + 5] },
+      resolveCutter(path.tools[segment])
+    ) || changed;
+  }
+  return changed;
+};
+
+/**
+ * Suggest a stock block around the cutting moves of a path: the XY extents
+ * grown by the cutter radius, the top at Z0 (or the highest cut if the
+ * program cuts above zero) and a thin floor under the deepest cut.
+ */
+export const fitStockToPath = (path: ToolPath, margin = 0): StockDefinition | null => {
+  const { positions, kinds, segmentCount } = path;
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+
+  for (let segment = 0; segment < segmentCount; segment++) {
+    if (kinds[segment] === SegmentKind.Rapid) continue;
+    for (let i = segment * 6; i < segment * 6 + 6; i += 3) {
+      min.x = Math.min(min.x, positions[i]);
+      min.y = Math.min(min.y, positions[i + 1]);
+      min.z = Math.min(min.z, positions[i + 2]);
+      max.x = Math.max(max.x, positions[i]);
+      max.y = Math.max(max.y, positions[i + 1]);
+      max.z = Math.max(max.z, positions[i + 2]);
+    }
+  }
+  if (!Number.isFinite(min.x)) return null;
+
+  const top = min.z < 0 ? 0 : max.z;
+  const bottom = Math.min(min.z, top) - STOCK_FLOOR;
+  return {
+    origin: { x: min.x - margin, y: min.y - margin, z: bottom },
+    size: { x: max.x - min.x + 2 * margin, y: max.y - min.y + 2 * margin, z: top - bottom },
+  };
+};
@@ -0,0 +1,12 @@
+export * from './types';
+export {
+  createHeightfield,
+  cutPathSegments,
+  cutSegment,
+  fitStockToPath,
+  MAX_HEIGHTFIELD_CELLS,
+  resetHeightfield,
+} from './heightfield';
+export { createPartSurface } from './partSurface';
+export { detectCollisions, segmentClearance } from './collision';
+export type { Clearance, Collision, CollisionKind, CollisionOptions } from './collision';
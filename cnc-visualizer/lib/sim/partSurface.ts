@@ -0,0 +1,73 @@
+import { MAX_HEIGHTFIELD_CELLS } from './heightfield';
+import type { Heightfield } from './types';
+
+/**
+ * Rasterize a triangle soup (xyz per vertex, three vertices per triangle)
+ * into the highest surface seen from above. Samples outside the part are
+ * -Infinity.
+ */
+export const createPartSurface = (triangles: Float32Array, resolution: number): Heightfield | null => {
+  if (triangles.length < 9) return null;
+
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (let i = 0; i < triangles.length; i += 3) {
+    min.x = Math.min(min.x, triangles[i]);
+    min.y = Math.min(min.y, triangles[i + 1]);
+    min.z = Math.min(min.z, triangles[i + 2]);
+    max.x = Math.max(max.x, triangles[i]);
+    max.y = Math.max(max.y, triangles[i + 1]);
+    max.z = Math.max(max.z, triangles[i + 2]);
+  }
+
+  let cellSize = Math.max(resolution, 0.01);
+  const countFor = (length: number) => Math.max(2, Math.floor(length / cellSize) + 1);
+  while (countFor(max.x - min.x) * countFor(max.y - min.y) > MAX_HEIGHTFIELD_CELLS) {
+    cellSize *= 1.25;
+  }
+  const columns = countFor(max.x - min.x);
+  const rows = countFor(max.y - min.y);
+  const cellX = (max.x - min.x) / (columns - 1) || cellSize;
+  const cellY = (max.y - min.y) / (rows - 1) || cellSize;
+  const heights = new Float32Array(columns * rows).fill(-Infinity);
+
+  for (let i = 0; i < triangles.length; i += 9) {
+    const ax = triangles[i], ay = triangles[i + 1], az = triangles[i + 2];
+    const bx = triangles[i + 3], by = triangles[i + 4], bz = triangles[i + 5];
+    const cx = triangles[i + 6], cy = triangles[i + 7], cz = triangles[i + 8];
+
+    // Vertical faces cover no area from above
+    const area = (bx - ax) * (cy - ay) - (cx - ax) * (by - ay);
+    if (Math.abs(area) < 1e-12) continue;
+
+    const minColumn = Math.max(0, Math.ceil((Math.min(ax, bx, cx) - min.x) / cellX));
+    const maxColumn = Math.min(columns - 1, Math.floor((Math.max(ax, bx, cx) - min.x) / cellX));
+    const minRow = Math.max(0, Math.ceil((Math.min(ay, by, cy) - min.y) / cellY));
+    const maxRow = Math.min(rows - 1, Math.floor((Math.max(ay, by, cy) - min.y) / cellY));
+
+    for (let row = minRow; row <= maxRow; row++) {
+      const y = min.y + row * cellY;
+      for (let column = minColumn; column <= maxColumn; column++) {
+        const x = min.x + column * cellX;
+        // Barycentric coordinates of the sample in the triangle's XY projection
+        const u = ((bx - x) * (cy - y) - (cx - x) * (by - y)) / area;
+        const v = ((cx - x) * (ay - y) - (ax - x) * (cy - y)) / area;
+        const w = 1 - u - v;
+        if (u < -1e-9 || v < -1e-9 || w < -1e-9) continue;
+
+        const z = u * az + v * bz + w * cz;
+        const index = row * columns + column;
+        if (z > heights[index]) heights[index] = z;
+      }
+    }
+  }
+
+  return {
+    stock: { origin: min, size: { x: max.x - min.x, y: max.y - min.y, z: max.z - min.z } },
+    columns,
+    rows,
+    cellX,
+    cellY,
+    heights,
+  };
+};
@@ -0,0 +1,29 @@
+import type { Point3 } from '../gcode';
+import type { CutterShape } from '../tools';
+
+// Rectangular stock block in machine coordinates (mm)
+export interface StockDefinition {
+  // Minimum corner of the block
+  origin: Point3;
+  size: Point3;
+}
+
+export interface SimulationSettings {
+  stock: StockDefinition;
+  // Heightfield cell size in mm; smaller is more accurate but slower
+  resolution: number;
+  // Used for segments whose tool number is not in the tool library
+  cutter: CutterShape;
+}
+
+// Top surface of the stock sampled on a regular XY grid
+export interface Heightfield {
+  stock: StockDefinition;
+  columns: number;
+  rows: number;
+  // Grid spacing along X and Y
+  cellX: number;
+  cellY: number;
+  // Row-major surface heights, columns * rows values
+  heights: Float32Array;
+}
@@ -0,0 +1,10 @@
+export * from './types';
+export {
+  createTool,
+  CUTTER_TYPE_LABELS,
+  cutterProfile,
+  DEFAULT_TOOL,
+  findTool,
+  parseToolLibrary,
+  serializeToolLibrary,
+} from './library';
@@ -0,0 +1,116 @@
+import { readNumber } from '../validate';
+import type { CutterShape, CutterType, Tool } from './types';
+
+const LIBRARY_VERSION = 1;
+
+const CUTTER_TYPES: CutterType[] = ['flat', 'ball', 'bull', 'vbit'];
+
+export const CUTTER_TYPE_LABELS: Record<CutterType, string> = {
+  flat: 'Flat end',
+  ball: 'Ball end',
+  bull: 'Bull nose',
+  vbit: 'V-bit',
+};
+
+// Stand-in for tools the program uses but the library does not define
+export const DEFAULT_TOOL: Tool = {
+  number: 0,
+  name: 'Default 6 mm flat end mill',
+  type: 'flat',
+  diameter: 6,
+  cornerRadius: 0,
+  taperAngle: 90,
+  fluteLength: 20,
+  stickout: 30,
+  holderDiameter: 30,
+  holderLength: 40,
+};
+
+export const createTool = (number: number): Tool => ({
+  ...DEFAULT_TOOL,
+  number,
+  name: `Tool ${number}`,
+});
+
+export const findTool = (tools: Tool[], number: number): Tool | undefined =>
+  tools.find((tool) => tool.number === number);
+
+/**
+ * Height of the cutter surface above its tip at a radial distance from the
+ * axis, or Infinity outside the cutter.
+ */
+export const cutterProfile = (cutter: CutterShape, distance: number): number => {
+  const radius = cutter.diameter / 2;
+  if (distance > radius) return Infinity;
+  switch (cutter.type) {
+    case 'flat':
+      return 0;
+    case 'ball':
+      return radius - Math.sqrt(radius * radius - distance * distance);
+    case 'bull': {
+      const corner = Math.min(Math.max(cutter.cornerRadius, 0), radius);
+      const flatRadius = radius - corner;
+      if (distance <= flatRadius) return 0;
+      const offset = distance - flatRadius;
+      return corner - Math.sqrt(corner * corner - offset * offset);
+    }
+    case 'vbit': {
+      const halfAngle = (Math.min(Math.max(cutter.taperAngle, 1), 179) * Math.PI) / 360;
+      return distance / Math.tan(halfAngle);
+    }
+  }
+};
+
+export const serializeToolLibrary = (tools: Tool[]): string =>
+  JSON.stringify({ version: LIBRARY_VERSION, tools }, null, 2);
+
+/**
+ * Read a tool library exported by serializeToolLibrary (or a bare array of
+ * tools), validating every entry. Throws with a readable message on bad input.
+ */
+export const parseToolLibrary = (text: string): Tool[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Tool library is not valid JSON');
+  }
+
+  const entries = Array.isArray(data) ? data : (data as { tools?: unknown })?.tools;
+  if (!Array.isArray(entries)) {
+    throw new Error('Tool library must contain a "tools" array');
+  }
+
+  const tools = entries.map((entry: Record<string, unknown>, index): Tool => {
+    if (typeof entry !== 'object' || entry === null) {
+      throw new Error(`Tool ${index + 1} is not an object`);
+    }
+    const source = `Tool ${index + 1}`;
+    const type = entry.type as CutterType;
+    if (!CUTTER_TYPES.includes(type)) {
+      throw new Error(`Tool ${index + 1}: unknown cutter type "${String(entry.type)}"`);
+    }
+    const diameter = readNumber(entry.diameter, 'diameter', source);
+    if (diameter <= 0) throw new Error(`Tool ${index + 1}: diameter must be positive`);
+
+    return {
+      number: readNumber(entry.number, 'number', source),
+      name: typeof entry.name === 'string' ? entry.name : `Tool ${index + 1}`,
+      type,
+      diameter,
+      cornerRadius: readNumber(entry.cornerRadius, 'cornerRadius', source, 0),
+      taperAngle: readNumber(entry.taperAngle, 'taperAngle', source, DEFAULT_TOOL.taperAngle),
+      fluteLength: readNumber(entry.fluteLength, 'fluteLength', source, DEFAULT_TOOL.fluteLength),
+      stickout: readNumber(entry.stickout, 'stickout', source, DEFAULT_TOOL.stickout),
+      holderDiameter: readNumber(entry.holderDiameter, 'holderDiameter', source, DEFAULT_TOOL.holderDiameter),
+      holderLength: readNumber(entry.holderLength, 'holderLength', source, DEFAULT_TOOL.holderLength),
+    };
+  });
+
+  const numbers = new Set<number>();
+  for (const tool of tools) {
+    if (numbers.has(tool.number)) throw new Error(`Tool number T${tool.number} appears more than once`);
+    numbers.add(tool.number);
+  }
+  return tools.sort((a, b) => a.number - b.number);
+};
@@ -0,0 +1,22 @@
+export type CutterType = 'flat' | 'ball' | 'bull' | 'vbit';
+
+// Cutting geometry of a tool, enough to compute the surface it leaves
+export interface CutterShape {
+  type: CutterType;
+  diameter: number;
+  // Corner radius of bull-nose cutters
+  cornerRadius: number;
+  // Included tip angle of V-bits, in degrees
+  taperAngle: number;
+}
+
+export interface Tool extends CutterShape {
+  // T number used to select the tool in the program
+  number: number;
+  name: string;
+  fluteLength: number;
+  // Length from the tip to the holder face
+  stickout: number;
+  holderDiameter: number;
+  holderLength: number;
+}
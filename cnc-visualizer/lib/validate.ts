@@ -0,0 +1,29 @@
+import type { Point3 } from './gcode';
+
+// Helpers for checking JSON read from saved files. `source` names what is being
+// read and starts every message, e.g. `Tool 2: "diameter" must be a number`.
+
+export const readObject = (value: unknown, field: string, source: string): Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`${source}: "${field}" must be an object`);
+  }
+  return value as Record<string, unknown>;
+};
+
+/** A finite number; a missing value falls back to `fallback` when one is given. */
+export const readNumber = (value: unknown, field: string, source: string, fallback?: number): number => {
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${source}: "${field}" must be a number`);
+  }
+  return value;
+};
+
+export const readPoint = (value: unknown, field: string, source: string): Point3 => {
+  const point = readObject(value, field, source);
+  return {
+    x: readNumber(point.x, `${field}.x`, source),
+    y: readNumber(point.y, `${field}.y`, source),
+    z: readNumber(point.z, `${field}.z`, source),
+  };
+};
@@ -0,0 +1,43 @@
+import type { ToolPath } from '../lib/gcode';
+import {
+  createPartSurface,
+  detectCollisions,
+  type Collision,
+  type Heightfield,
+  type SimulationSettings,
+} from '../lib/sim';
+import { findTool, type Tool } from '../lib/tools';
+
+// The one check a worker runs; a worker is terminated as soon as its inputs are out of date
+export interface CollisionRequest {
+  path: ToolPath;
+  // Part triangles in machine coordinates, null when no part is loaded
+  triangles: Float32Array | null;
+  // Part surface sampling (mm)
+  resolution: number;
+  tools: Tool[];
+  // Used for tool numbers missing from the library
+  fallbackTool: Tool;
+  simulation: SimulationSettings | null;
+}
+
+// The part surface is sent back for clearance measurements; its heights are transferred
+export type CollisionResponse =
+  | { type: 'result'; collisions: Collision[]; part: Heightfield | null }
+  | { type: 'error'; message: string };
+
+const post = (message: CollisionResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<CollisionRequest>) => {
+  const { path, triangles, resolution, tools, fallbackTool, simulation } = event.data;
+  try {
+    const part = triangles ? createPartSurface(triangles, resolution) : null;
+    const collisions = detectCollisions(path, part, {
+      resolveTool: (toolNumber) => findTool(tools, toolNumber) ?? fallbackTool,
+      simulation,
+    });
+    post({ type: 'result', collisions, part }, part ? [part.heights.buffer] : []);
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+  }
+};
@@ -0,0 +1,255 @@
+import {
+  buildToolPath,
+  createProgramStream,
+  createToolPathBuilder,
+  detectDialect,
+  parseGCode,
+  summarizeProgram,
+  tallyMoves,
+  updateGCode,
+  type MoveTally,
+  type DialectId,
+  type ParsedProgram,
+  type Point3,
+  type ProgramSummary,
+  type ToolPath,
+} from '../lib/gcode';
+
+// Options a program is parsed with; a null dialect is detected from the text and file name
+export interface ParserSettings {
+  workOffsets: Point3[];
+  dialect: DialectId | null;
+  arcTolerance: number;
+  // Machine position programs start from and G28 returns to
+  home: Point3;
+}
+
+// Messages to the worker. Each numbered request supersedes the one before it.
+export type ParserRequest =
+  | { type: 'load'; id: number; source: Blob; fileName: string; settings: ParserSettings }
+  | { type: 'edit'; id: number; content: string; settings: ParserSettings }
+  | { type: 'configure'; id: number; settings: ParserSettings }
+  // Ask for the text of the program last parsed; does not supersede anything
+  | { type: 'text'; id: number }
+  | { type: 'cancel' };
+
+// Messages from the worker. Path buffers are transferred, so the worker keeps no copy.
+export type ParserResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | {
+      type: 'result';
+      id: number;
+      program: ProgramSummary;
+      toolPath: ToolPath | null;
+    }
+  // `resultId` is the request whose result the text belongs to, null when nothing is loaded
+  | { type: 'text'; id: number; resultId: number | null; content: string }
+  | { type: 'error'; id: number; message: string };
+
+// Enough of the file to detect its dialect from
+const DETECT_BYTES = 64 * 1024;
+
+// Longest stretch of work (ms) before pending messages get a chance to run
+const YIELD_INTERVAL = 50;
+
+// Larger programs keep no blocks: edits parse them in full and new settings read the file again
+const MAX_EDITABLE_BYTES = 16 * 1024 * 1024;
+
+const LINE_BREAK = /\r?\n/;
+
+interface LoadedProgram {
+  // Request that produced the shown result
+  resultId: number;
+  fileName: string;
+  // The file as loaded, or the text of the last edit
+  source: Blob | string;
+  // Blocks to resume edits from; null when the program was too large to keep them
+  program: ParsedProgram | null;
+  settings: ParserSettings;
+}
+
+let loaded: LoadedProgram | null = null;
+
+// Request being worked on; running jobs stop once it changes
+let activeJob: number | null = null;
+let lastYield = 0;
+
+const post = (message: ParserResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// Give queued messages a turn when the current one has run for a while; resolves
+// to false when a newer request or a cancel arrived in the meantime
+const keepGoing = async (id: number, progress: number): Promise<boolean> => {
+  if (performance.now() - lastYield < YIELD_INTERVAL) return activeJob === id;
+  post({ type: 'progress', id, progress });
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  lastYield = performance.now();
+  return activeJob === id;
+};
+
+const postResult = (id: number, program: ParsedProgram, path: ToolPath, moves?: MoveTally) => {
+  // Nothing to draw; the parser reports the empty program as a diagnostic
+  const toolPath = path.segmentCount > 0 ? path : null;
+  const transfer = toolPath
+    ? [
+        toolPath.positions.buffer,
+        toolPath.lines.buffer,
+        toolPath.kinds.buffer,
+        toolPath.feeds.buffer,
+        toolPath.spindleSpeeds.buffer,
+        toolPath.tools.buffer,
+      ]
+    : [];
+  post({ type: 'result', id, program: summarizeProgram(program, moves), toolPath }, transfer);
+};
+
+// Whether two settings produce the same moves; the arc tolerance only changes the path
+const sameMoves = (a: ParserSettings, b: ParserSettings): boolean =>
+  a.dialect === b.dialect &&
+  JSON.stringify(a.workOffsets) === JSON.stringify(b.workOffsets) &&
+  JSON.stringify(a.home) === JSON.stringify(b.home);
+
+const pathOptions = (settings: ParserSettings) => ({ arcTolerance: settings.arcTolerance, start: settings.home });
+
+// Stream the text through the parser chunk by chunk, building the path as moves come out.
+// Only programs small enough to edit keep their blocks.
+const streamProgram = async (id: number, source: Blob, fileName: string, settings: ParserSettings) => {
+  const head = await source.slice(0, DETECT_BYTES).text();
+  const dialect = settings.dialect ?? detectDialect(head, fileName);
+  const keepBlocks = source.size <= MAX_EDITABLE_BYTES;
+  const stream = createProgramStream({
+    workOffsets: settings.workOffsets,
+    dialect,
+    home: settings.home,
+    // Only a chosen dialect reads integer axis words as increments
+    implicitDecimal: settings.dialect !== null,
+    keepBlocks,
+  });
+  const builder = createToolPathBuilder(pathOptions(settings));
+  const moves = tallyMoves([]);
+  const reader = source.stream().getReader();
+  const decoder = new TextDecoder();
+  let partial = '';
+  let bytesRead = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+    // The last line of a chunk may continue in the next one
+    const lines = (partial + text).split(LINE_BREAK);
+    partial = done ? '' : lines.pop() ?? '';
+    const commands = stream.write(lines);
+    builder.add(commands);
+    tallyMoves(commands, moves);
+    if (done) break;
+
+    bytesRead += value.byteLength;
+    if (!(await keepGoing(id, bytesRead / source.size))) {
+      await reader.cancel();
+      return null;
+    }
+  }
+
+  const program = stream.finish();
+  return { program, keepBlocks, path: builder.finish(), moves };
+};
+
+const load = async (id: number, source: Blob, fileName: string, settings: ParserSettings) => {
+  const result = await streamProgram(id, source, fileName, settings);
+  if (!result) return;
+  // A small file is held as text, which edits compare against; a large one stays a Blob
+  const kept = result.keepBlocks ? await source.text() : source;
+  loaded = { resultId: id, fileName, source: kept, program: result.keepBlocks ? result.program : null, settings };
+  postResult(id, result.program, result.path, result.moves);
+};
+
+// Parse the loaded text again with new work offsets, dialect or home position, in chunks so it can be superseded
+const reparse = async (id: number, current: LoadedProgram, settings: ParserSettings) => {
+  const source = typeof current.source === 'string' ? new Blob([current.source]) : current.source;
+  const result = await streamProgram(id, source, current.fileName, settings);
+  if (!result) return;
+  loaded = { ...current, resultId: id, program: result.keepBlocks ? result.program : null, settings };
+  postResult(id, result.program, result.path, result.moves);
+};
+
+const configure = async (id: number, settings: ParserSettings) => {
+  const current = loaded;
+  if (!current) return;
+  // Without the moves a new arc tolerance also means reading the program again
+  if (!current.program || !sameMoves(current.settings, settings)) {
+    await reparse(id, current, settings);
+    return;
+  }
+  loaded = { ...current, resultId: id, settings };
+  postResult(id, current.program, buildToolPath(current.program.commands, pathOptions(settings)));
+};
+
+// Resume parsing at the first changed line of edited text
+const edit = async (id: number, content: string, settings: ParserSettings) => {
+  const current = loaded;
+  const { workOffsets, home } = settings;
+  const fileName = current?.fileName ?? '';
+  if (content.length > MAX_EDITABLE_BYTES) {
+    const result = await streamProgram(id, new Blob([content]), fileName, settings);
+    if (!result) return;
+    loaded = { resultId: id, fileName, source: content, program: null, settings };
+    postResult(id, result.program, result.path, result.moves);
+    return;
+  }
+
+  let program: ParsedProgram;
+  if (current?.program && typeof current.source === 'string' && sameMoves(current.settings, settings)) {
+    // Edits keep the dialect the program was loaded as unless one is chosen
+    program = updateGCode(current.program, current.source, content, {
+      workOffsets,
+      dialect: settings.dialect ?? undefined,
+      home,
+    });
+  } else {
+    program = parseGCode(content, {
+      workOffsets,
+      dialect: settings.dialect ?? detectDialect(content, current?.fileName),
+      home,
+      implicitDecimal: settings.dialect !== null,
+    });
+  }
+  loaded = { resultId: id, fileName, source: content, program, settings };
+  postResult(id, program, buildToolPath(program.commands, pathOptions(settings)));
+};
+
+// Hand the text of the shown program to the editor
+const sendText = async (id: number) => {
+  const current = loaded;
+  if (!current) {
+    post({ type: 'text', id, resultId: null, content: '' });
+    return;
+  }
+  const content = typeof current.source === 'string' ? current.source : await current.source.text();
+  post({ type: 'text', id, resultId: current.resultId, content });
+};
+
+self.onmessage = async (event: MessageEvent<ParserRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    activeJob = null;
+    return;
+  }
+  if (request.type === 'text') {
+    await sendText(request.id);
+    return;
+  }
+
+  activeJob = request.id;
+  lastYield = performance.now();
+  try {
+    if (request.type === 'load') {
+      await load(request.id, request.source, request.fileName, request.settings);
+    } else if (request.type === 'configure') {
+      await configure(request.id, request.settings);
+    } else {
+      await edit(request.id, request.content, request.settings);
+    }
+  } catch (err) {
+    if (activeJob !== request.id) return;
+    post({ type: 'error', id: request.id, message: err instanceof Error ? err.message : 'Unknown error' });
+  }
+};